@@ -15,12 +15,46 @@ Legal Department
 UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
+import type { VersionOptions } from '@docusaurus/plugin-content-docs';
 import type * as Preset from '@docusaurus/preset-classic';
 import type { Config } from '@docusaurus/types';
+import fs from 'node:fs';
 import { themes as prismThemes } from 'prism-react-renderer';
+import pluginApiReference from './plugins/api-reference';
+import pluginCommunity from './plugins/community';
+import pluginDocStatus from './plugins/doc-status';
+import pluginEventCatalog from './plugins/event-catalog';
+import pluginFeedback from './plugins/feedback';
+import pluginLightRaysPoster from './plugins/light-rays-poster';
+import pluginLocalSearch from './plugins/local-search';
+import pluginMockSyncServer from './plugins/mock-sync-server';
+import pluginReachability from './plugins/reachability';
+import pluginReadingTime from './plugins/reading-time';
+import pluginReleaseNotes from './plugins/release-notes';
+import remarkTwoslash from './plugins/remark-twoslash';
+import pluginRiveAssets from './plugins/rive-assets';
+import pluginTypecheckSnippets from './plugins/typecheck-snippets';
+import { contrastInitScript } from './src/utils/contrast';
+import { motionInitScript } from './src/utils/motion';
 
 // This runs in Node.js - Don't use client-side code here (browser APIs, JSX...)
 
+// SDK versions snapshotted with `npm run version-docs`, newest first.
+const docsVersions: string[] = fs.existsSync('./versions.json')
+  ? JSON.parse(fs.readFileSync('./versions.json', 'utf8'))
+  : [];
+
+// Until the first snapshot, `docs/` is the only version and is served as the latest.
+const docsVersionsConfig: Record<string, VersionOptions> = {
+  current: docsVersions.length > 0
+    ? { label: 'Next 🚧', path: 'next', banner: 'unreleased' }
+    : { label: 'Latest', banner: 'none' },
+  ...Object.fromEntries(docsVersions.map((version, idx) => [
+    version,
+    { label: `v${version}`, banner: idx === 0 ? 'none' : 'unmaintained' },
+  ])),
+};
+
 const config: Config = {
   title: 'XHubChat',
   tagline: 'Modern, type-safe chat SDK for React and beyond',
@@ -44,12 +78,22 @@ const config: Config = {
 
   onBrokenLinks: 'throw',
 
+  // Applies the stored contrast and motion choices before first paint.
+  headTags: [
+    { tagName: 'script', attributes: {}, innerHTML: contrastInitScript },
+    { tagName: 'script', attributes: {}, innerHTML: motionInitScript },
+  ],
+
   // Even if you don't use internationalization, you can use this field to set
   // useful metadata like html lang. For example, if your site is Chinese, you
   // may want to replace "en" with "zh-Hans".
   i18n: {
     defaultLocale: 'en',
-    locales: ['en'],
+    locales: ['en', 'vi'],
+    localeConfigs: {
+      en: { label: 'English', htmlLang: 'en-US' },
+      vi: { label: 'Tiếng Việt', htmlLang: 'vi-VN' },
+    },
   },
 
   presets: [
@@ -58,12 +102,32 @@ const config: Config = {
       {
         docs: {
           sidebarPath: './sidebars.ts',
+          lastVersion: docsVersions[0] ?? 'current',
+          versions: docsVersionsConfig,
           // Please change this to your repo.
           // Remove this to remove the "edit this page" links.
           editUrl:
             'https://github.com/XHub-Platform/xhub-chat/tree/main/docs-site/',
+          // Type hovers for ```ts twoslash code blocks, computed at build time.
+          remarkPlugins: [remarkTwoslash],
+        },
+        // Release notes, generated into blog/generated by plugins/release-notes.
+        blog: {
+          routeBasePath: 'release-notes',
+          blogTitle: 'Release Notes',
+          blogDescription: 'What changed in each release of the XHub Chat SDK',
+          blogSidebarTitle: 'Releases',
+          blogSidebarCount: 'ALL',
+          showReadingTime: false,
+          onInlineTags: 'throw',
+          onInlineAuthors: 'throw',
+          feedOptions: {
+            type: ['rss', 'atom'],
+            title: 'XHub Chat release notes',
+            description: 'What changed in each release of the XHub Chat SDK',
+            copyright: `Copyright © ${new Date().getFullYear()} TekNix Corporation.`,
+          },
         },
-        blog: false, // Disable blog for now
         theme: {
           customCss: './src/css/custom.css',
         },
@@ -71,13 +135,42 @@ const config: Config = {
     ],
   ],
 
+  plugins: [
+    // Generates docs/api/generated from the SDK's published .d.ts files.
+    pluginApiReference,
+    // Homepage showcase and testimonials from data/community.yml.
+    pluginCommunity,
+    // Stub banners, sidebar badges and the /docs-status coverage page.
+    pluginDocStatus,
+    // Generates the @xhub-chat/core event catalog from its typed event maps.
+    pluginEventCatalog,
+    // "Was this page helpful?" collection and the /docs-feedback report page.
+    pluginFeedback,
+    // Renders the hero poster and social card from the LightRays shader.
+    pluginLightRaysPoster,
+    // Writes search-index.json for the navbar search box on `docusaurus build`.
+    pluginLocalSearch,
+    // Sliding sync mock server for demos, mounted on `docusaurus start` only.
+    [pluginMockSyncServer, { scenario: 'basic' }],
+    // Fails the build when a doc can only be reached by typing its URL.
+    pluginReachability,
+    // Word counts behind the "min read" line and progress bar on doc pages.
+    pluginReadingTime,
+    // Writes release-note posts for the blog from the SDK changelogs.
+    pluginReleaseNotes,
+    // Fails the build when a file in the Rive manifest is missing from static/.
+    pluginRiveAssets,
+    // Type-checks the TypeScript code blocks in the docs against the SDK declarations.
+    pluginTypecheckSnippets,
+  ],
+
   themeConfig: {
-    // Replace with your project's social card
-    image: 'img/docusaurus-social-card.jpg',
+    // Rendered by plugins/light-rays-poster
+    image: 'img/generated/social-card.png',
     colorMode: {
       defaultMode: 'dark',
-      disableSwitch: true,
-      respectPrefersColorScheme: false,
+      disableSwitch: false,
+      respectPrefersColorScheme: true,
     },
     navbar: {
       title: 'XHubChat',
@@ -122,6 +215,20 @@ const config: Config = {
           position: 'left',
           label: 'Examples',
         },
+        {
+          to: '/release-notes',
+          position: 'left',
+          label: 'Release Notes',
+        },
+        {
+          type: 'docsVersionDropdown',
+          position: 'right',
+          dropdownActiveClassDisabled: true,
+        },
+        {
+          type: 'localeDropdown',
+          position: 'right',
+        },
         {
           href: 'https://github.com/XHub-Platform/xhub-chat',
           label: 'GitHub',
@@ -147,6 +254,14 @@ const config: Config = {
               label: 'API Reference',
               to: '/docs/api/reference',
             },
+            {
+              label: 'Docs Status',
+              to: '/docs-status',
+            },
+            {
+              label: 'Docs Feedback',
+              to: '/docs-feedback',
+            },
           ],
         },
         {
@@ -182,6 +297,18 @@ const config: Config = {
         {
           title: 'More',
           items: [
+            {
+              label: 'Release Notes',
+              to: '/release-notes',
+            },
+            {
+              label: 'RSS Feed',
+              href: 'pathname:///release-notes/rss.xml',
+            },
+            {
+              label: 'Atom Feed',
+              href: 'pathname:///release-notes/atom.xml',
+            },
             {
               label: 'NPM',
               href: 'https://www.npmjs.com/package/@xhub-chat/react',
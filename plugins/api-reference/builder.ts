@@ -0,0 +1,145 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ConfigField, ConfigReferenceData } from '../../src/configBuilder';
+import type { ApiMember, ApiSymbol } from './extract';
+import { CONFIG_FIELDS, CONFIG_PROVIDER_PROPS, configOptionKey } from '../../src/configBuilder';
+import { pagePath } from './render';
+
+type ResolvedOption = {
+  member: ApiMember;
+  /** Type symbol declaring the member. */
+  declaredIn: ApiSymbol;
+  /** Config option page, for top-level options only. */
+  config?: ApiSymbol;
+};
+
+/** `IStoreOpts | undefined` → `IStoreOpts`; inline object types stay unresolved. */
+function namedType(type: string): string | null {
+  const name = type.split('|').map(part => part.trim()).filter(part => part !== 'undefined' && part !== 'null').join(' | ');
+  return /^[A-Z_$][\w$]*$/i.test(name) ? name : null;
+}
+
+/** Values of a union of string literals, or null for any other type. */
+function literalChoices(type: string): string[] | null {
+  const parts = type.split('|').map(part => part.trim()).filter(part => part !== 'undefined');
+  const values = parts.map(part => /^(['"])(.*)\1$/.exec(part)?.[2]);
+  return values.every(value => value !== undefined) ? values as string[] : null;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^(['"`])(.*)\1$/, '$2');
+}
+
+class OptionResolver {
+  private readonly types = new Map<string, ApiSymbol>();
+  private readonly configs: ApiSymbol[];
+
+  constructor(symbols: ApiSymbol[]) {
+    // Core is listed first; a type re-exported by the React package resolves to core's page.
+    [...symbols].reverse().filter(symbol => symbol.kind === 'type').forEach(symbol => this.types.set(symbol.name, symbol));
+    this.configs = symbols.filter(symbol => symbol.kind === 'config');
+  }
+
+  type(name: string): ApiSymbol | undefined {
+    return this.types.get(name);
+  }
+
+  /** Walks `field.option.path` through the declared types; returns a problem on failure. */
+  resolve(field: ConfigField): ResolvedOption | string {
+    const { owner, path } = field.option!;
+    let declaredIn = this.types.get(owner);
+    if (!declaredIn) return `${field.id}: ${owner} is not exported by the SDK`;
+    for (let idx = 0; idx < path.length; idx++) {
+      const member = declaredIn.members.find(m => m.name === path[idx] && m.kind === 'property');
+      const at = [owner, ...path.slice(0, idx + 1)].join('.');
+      if (!member) return `${field.id}: ${at} does not exist`;
+      if (idx === path.length - 1) {
+        const config = idx === 0 ? this.configs.find(s => s.parent === owner && s.name === member.name) : undefined;
+        return { member, declaredIn, config };
+      }
+      const next = namedType(member.type);
+      const nextSymbol = next ? this.types.get(next) : undefined;
+      if (!nextSymbol) return `${field.id}: ${at} has type \`${member.type}\`, which is not an exported type the builder can look into`;
+      declaredIn = nextSymbol;
+    }
+    return `${field.id}: option path is empty`;
+  }
+}
+
+/**
+ * Compares the configuration builder's fields with the extracted SDK types.
+ * Returns one problem per option that was removed, renamed or changed its
+ * choices, default or optionality.
+ */
+export function checkConfigBuilder(symbols: ApiSymbol[], fields: ConfigField[] = CONFIG_FIELDS): string[] {
+  const resolver = new OptionResolver(symbols);
+  const problems: string[] = [];
+
+  fields.filter(field => field.option).forEach((field) => {
+    const resolved = resolver.resolve(field);
+    if (typeof resolved === 'string') {
+      problems.push(resolved);
+      return;
+    }
+    if (field.option!.derived) return;
+    const key = configOptionKey(field.option!);
+    const { member, config } = resolved;
+
+    const choices = literalChoices(member.type);
+    if (field.control.kind === 'select' && choices) {
+      const offered = field.control.choices;
+      if (choices.length !== offered.length || choices.some(choice => !offered.includes(choice))) {
+        problems.push(`${field.id}: ${key} accepts ${choices.map(c => `'${c}'`).join(' | ')}, the builder offers ${offered.map(c => `'${c}'`).join(' | ')}`);
+      }
+    }
+    // Selects and toggles always hold a value; other fields can leave their option out.
+    const omittable = field.sdkDefault !== undefined || !!field.when || (field.control.kind === 'text' && !field.required);
+    if (!member.optional && omittable) {
+      problems.push(`${field.id}: ${key} is required by the SDK, but the builder can leave it out`);
+    }
+    if (field.sdkDefault !== undefined && config?.defaultValue !== undefined && unquote(config.defaultValue) !== String(field.sdkDefault)) {
+      problems.push(`${field.id}: ${key} defaults to ${config.defaultValue} in the SDK, the builder assumes ${String(field.sdkDefault)}`);
+    }
+  });
+
+  const provider = resolver.type('XHubChatProviderProps');
+  CONFIG_PROVIDER_PROPS
+    .filter(prop => !provider?.members.some(member => member.name === prop))
+    .forEach(prop => problems.push(`XHubChatProviderProps.${prop} does not exist; the generated React code passes it`));
+
+  return problems;
+}
+
+/**
+ * What the reference knows about each option the builder sets: its type, doc
+ * comment and page. `routeBase` is the URL of the generated reference.
+ */
+export function configReferenceData(symbols: ApiSymbol[], routeBase: string, fields: ConfigField[] = CONFIG_FIELDS): ConfigReferenceData {
+  const resolver = new OptionResolver(symbols);
+  const options: ConfigReferenceData['options'] = {};
+  fields.filter(field => field.option).forEach((field) => {
+    const resolved = resolver.resolve(field);
+    if (typeof resolved === 'string') return;
+    const page = resolved.config ?? resolved.declaredIn;
+    options[configOptionKey(field.option!)] = {
+      type: resolved.member.type,
+      description: resolved.member.description,
+      href: `${routeBase}/${pagePath(page).replace(/\.mdx$/, '')}`,
+    };
+  });
+  return { options };
+}
@@ -0,0 +1,274 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import ts from 'typescript';
+
+export type ApiKind = 'class' | 'function' | 'type' | 'enum' | 'config';
+
+export type ApiParameter = {
+  name: string;
+  type: string;
+  optional: boolean;
+  description: string;
+};
+
+export type ApiSignature = {
+  text: string;
+  parameters: ApiParameter[];
+  returns: string;
+  returnsDescription: string;
+};
+
+export type ApiMember = {
+  name: string;
+  kind: 'constructor' | 'property' | 'method' | 'enum-member';
+  text: string;
+  type: string;
+  optional: boolean;
+  description: string;
+  deprecated?: string;
+};
+
+export type ApiSymbol = {
+  packageName: string;
+  name: string;
+  kind: ApiKind;
+  description: string;
+  /** Declaration as printed from the .d.ts, without comments. */
+  declaration: string;
+  signatures: ApiSignature[];
+  members: ApiMember[];
+  /** Names of other exported symbols this one mentions in its types. */
+  references: string[];
+  examples: string[];
+  deprecated?: string;
+  defaultValue?: string;
+  /** For config options: the config type the option belongs to. */
+  parent?: string;
+};
+
+export type ExtractOptions = {
+  packageName: string;
+  entry: string;
+  /** Exported types whose properties also get a page each. */
+  configTypes: string[];
+};
+
+const printer = ts.createPrinter({ removeComments: true });
+
+export function docOf(symbol: ts.Symbol | undefined, checker: ts.TypeChecker): string {
+  return symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim() : '';
+}
+
+export function tagsOf(symbol: ts.Symbol | undefined, checker: ts.TypeChecker, name: string): string[] {
+  if (!symbol) return [];
+  return symbol.getJsDocTags(checker)
+    .filter(tag => tag.name === name)
+    .map(tag => ts.displayPartsToString(tag.text).trim());
+}
+
+export function print(node: ts.Node, sourceFile: ts.SourceFile): string {
+  return printer.printNode(ts.EmitHint.Unspecified, node, sourceFile).trim();
+}
+
+function isPrivate(node: ts.Node): boolean {
+  const flags = ts.getCombinedModifierFlags(node as ts.Declaration);
+  const name = (node as ts.NamedDeclaration).name;
+  return (flags & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) !== 0
+    || (!!name && ts.isPrivateIdentifier(name));
+}
+
+/** Collects every type name referenced below `node`. */
+export function collectReferences(node: ts.Node, into: Set<string>): void {
+  if (ts.isTypeReferenceNode(node)) {
+    into.add(ts.isIdentifier(node.typeName) ? node.typeName.text : node.typeName.right.text);
+  }
+  if (ts.isExpressionWithTypeArguments(node) && ts.isIdentifier(node.expression)) {
+    into.add(node.expression.text);
+  }
+  ts.forEachChild(node, child => collectReferences(child, into));
+}
+
+function extractSignatures(symbol: ts.Symbol, decl: ts.Declaration, checker: ts.TypeChecker): ApiSignature[] {
+  const type = checker.getTypeOfSymbolAtLocation(symbol, decl);
+  return type.getCallSignatures().map((sig) => {
+    const returnTag = sig.getJsDocTags().find(tag => tag.name === 'returns' || tag.name === 'return');
+    return {
+      text: `${symbol.getName()}${checker.signatureToString(sig, decl, ts.TypeFormatFlags.NoTruncation)}`,
+      parameters: sig.getParameters().map((param) => {
+        const paramDecl = param.valueDeclaration as ts.ParameterDeclaration | undefined;
+        return {
+          name: param.getName(),
+          type: checker.typeToString(checker.getTypeOfSymbolAtLocation(param, decl), decl, ts.TypeFormatFlags.NoTruncation),
+          optional: !!paramDecl && (!!paramDecl.questionToken || !!paramDecl.initializer || !!paramDecl.dotDotDotToken),
+          // TSDoc writes `@param name - description`; the dash is not part of the text.
+          description: docOf(param, checker).replace(/^-\s*/, ''),
+        };
+      }),
+      returns: checker.typeToString(sig.getReturnType(), decl, ts.TypeFormatFlags.NoTruncation),
+      returnsDescription: returnTag ? ts.displayPartsToString(returnTag.text).trim() : '',
+    };
+  });
+}
+
+function extractMembers(
+  members: ts.NodeArray<ts.ClassElement | ts.TypeElement | ts.EnumMember>,
+  sourceFile: ts.SourceFile,
+  checker: ts.TypeChecker,
+): ApiMember[] {
+  return members.filter(member => !isPrivate(member)).flatMap((member): ApiMember[] => {
+    const memberSymbol = member.name ? checker.getSymbolAtLocation(member.name) : undefined;
+    const base = {
+      text: print(member, sourceFile),
+      description: docOf(memberSymbol, checker),
+      deprecated: tagsOf(memberSymbol, checker, 'deprecated')[0],
+    };
+    if (ts.isConstructorDeclaration(member)) {
+      return [{ ...base, name: 'constructor', kind: 'constructor', type: '', optional: false }];
+    }
+    if (!member.name) return [];
+    const name = member.name.getText(sourceFile);
+    if (ts.isEnumMember(member)) {
+      return [{ ...base, name, kind: 'enum-member', type: member.initializer?.getText(sourceFile) ?? '', optional: false }];
+    }
+    if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+      return [{ ...base, name, kind: 'method', type: member.type?.getText(sourceFile) ?? 'void', optional: !!member.questionToken }];
+    }
+    if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member) || ts.isGetAccessorDeclaration(member)) {
+      const optional = 'questionToken' in member && !!member.questionToken;
+      return [{ ...base, name, kind: 'property', type: member.type?.getText(sourceFile) ?? 'unknown', optional }];
+    }
+    return [];
+  });
+}
+
+function kindOf(decl: ts.Declaration, symbol: ts.Symbol, checker: ts.TypeChecker): ApiKind | null {
+  if (ts.isClassDeclaration(decl)) return 'class';
+  if (ts.isFunctionDeclaration(decl)) return 'function';
+  if (ts.isInterfaceDeclaration(decl) || ts.isTypeAliasDeclaration(decl)) return 'type';
+  if (ts.isEnumDeclaration(decl)) return 'enum';
+  // `export declare const useRooms: () => IUserRooms` is documented as a function.
+  if (ts.isVariableDeclaration(decl)) {
+    return checker.getTypeOfSymbolAtLocation(symbol, decl).getCallSignatures().length > 0 ? 'function' : null;
+  }
+  return null;
+}
+
+/** Type-checks a package's entry `.d.ts` and returns its module symbol. */
+export function loadEntry(entry: string): { checker: ts.TypeChecker; moduleSymbol: ts.Symbol } {
+  const program = ts.createProgram([entry], {
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    module: ts.ModuleKind.ESNext,
+    jsx: ts.JsxEmit.Preserve,
+  });
+  const checker = program.getTypeChecker();
+  const entryFile = program.getSourceFile(entry);
+  const moduleSymbol = entryFile && checker.getSymbolAtLocation(entryFile);
+  if (!moduleSymbol) {
+    throw new Error(`${entry} is not a module; expected the package's index.d.ts`);
+  }
+  return { checker, moduleSymbol };
+}
+
+/**
+ * Reads the public exports of one package's type declarations. Only the
+ * entry file's exports are documented; internal modules it re-exports from
+ * are followed through the type checker.
+ */
+export function extractApi({ packageName, entry, configTypes }: ExtractOptions): ApiSymbol[] {
+  const { checker, moduleSymbol } = loadEntry(entry);
+  const symbols: ApiSymbol[] = [];
+  checker.getExportsOfModule(moduleSymbol).forEach((exported) => {
+    const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    const decl = symbol.declarations?.[0];
+    if (!decl) return;
+    const kind = kindOf(decl, symbol, checker);
+    if (!kind) return;
+    const sourceFile = decl.getSourceFile();
+    let printed: string;
+    if (ts.isVariableDeclaration(decl)) {
+      printed = print(decl.parent.parent, sourceFile);
+    } else if (ts.isClassDeclaration(decl)) {
+      // Private members are part of the .d.ts but not of the public API.
+      printed = print(ts.factory.updateClassDeclaration(
+        decl,
+        decl.modifiers,
+        decl.name,
+        decl.typeParameters,
+        decl.heritageClauses,
+        decl.members.filter(member => !isPrivate(member)),
+      ), sourceFile);
+    } else {
+      printed = print(decl, sourceFile);
+    }
+
+    const references = new Set<string>();
+    collectReferences(decl, references);
+    references.delete(exported.getName());
+
+    let members: ApiMember[] = [];
+    if (ts.isClassDeclaration(decl) || ts.isInterfaceDeclaration(decl) || ts.isEnumDeclaration(decl)) {
+      members = extractMembers(decl.members, sourceFile, checker);
+    } else if (ts.isTypeAliasDeclaration(decl) && ts.isTypeLiteralNode(decl.type)) {
+      members = extractMembers(decl.type.members, sourceFile, checker);
+    }
+
+    const apiSymbol: ApiSymbol = {
+      packageName,
+      name: exported.getName(),
+      kind,
+      description: docOf(symbol, checker),
+      declaration: printed,
+      signatures: kind === 'function' ? extractSignatures(symbol, decl, checker) : [],
+      members,
+      references: [...references].sort(),
+      examples: tagsOf(symbol, checker, 'example'),
+      deprecated: tagsOf(symbol, checker, 'deprecated')[0],
+    };
+    symbols.push(apiSymbol);
+
+    if (configTypes.includes(apiSymbol.name)) {
+      members.filter(member => member.kind === 'property').forEach((member) => {
+        const memberDecl = ts.isTypeAliasDeclaration(decl) && ts.isTypeLiteralNode(decl.type)
+          ? decl.type.members.find(m => m.name?.getText(sourceFile) === member.name)
+          : (decl as ts.InterfaceDeclaration).members?.find(m => m.name?.getText(sourceFile) === member.name);
+        const memberSymbol = memberDecl?.name ? checker.getSymbolAtLocation(memberDecl.name) : undefined;
+        const memberRefs = new Set<string>();
+        if (memberDecl) collectReferences(memberDecl, memberRefs);
+        symbols.push({
+          packageName,
+          name: member.name,
+          kind: 'config',
+          description: member.description,
+          declaration: member.text,
+          signatures: [],
+          members: [],
+          references: [...memberRefs].sort(),
+          examples: tagsOf(memberSymbol, checker, 'example'),
+          deprecated: member.deprecated,
+          defaultValue: tagsOf(memberSymbol, checker, 'default')[0] ?? tagsOf(memberSymbol, checker, 'defaultValue')[0],
+          parent: apiSymbol.name,
+        });
+      });
+    }
+  });
+
+  return symbols.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,140 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { ApiSymbol } from './extract';
+import type { GeneratedFiles } from './render';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { checkConfigBuilder, configReferenceData } from './builder';
+import { extractApi } from './extract';
+import { renderPlaceholder, renderReference } from './render';
+
+export type ApiReferencePackage = {
+  name: string;
+  /** Entry `.d.ts` of the published package, relative to the site directory. */
+  types: string;
+};
+
+export type ApiReferenceOptions = {
+  packages?: ApiReferencePackage[];
+  /** Where pages are written, relative to the site directory. Keep it out of git. */
+  outDir?: string;
+  /** Exported types whose properties get one page per option. */
+  configTypes?: string[];
+};
+
+// The docs site lives next to the SDK packages in the monorepo; the env var
+// points the generator at another checkout.
+export const SDK_DIR = process.env.XHUB_CHAT_SDK_DIR ?? '..';
+
+export const DEFAULT_PACKAGES: ApiReferencePackage[] = [
+  { name: '@xhub-chat/core', types: path.join(SDK_DIR, 'packages/core/dist/index.d.ts') },
+  { name: '@xhub-chat/react', types: path.join(SDK_DIR, 'packages/react/dist/index.d.ts') },
+];
+
+const DEFAULT_CONFIG_TYPES = ['ICreateClientOpts', 'IStartClientOpts', 'XHubChatProviderProps'];
+
+/**
+ * Writes `files` into `dir`, touching only files whose content changed and
+ * removing stale ones. The docs plugin watches this folder during
+ * `docusaurus start`, so rewriting everything would trigger a reload loop.
+ */
+export function syncDir(dir: string, files: GeneratedFiles): void {
+  const existing = fs.existsSync(dir)
+    ? (fs.readdirSync(dir, { recursive: true }) as string[]).map(file => file.split(path.sep).join('/'))
+    : [];
+  existing.forEach((file) => {
+    const abs = path.join(dir, file);
+    if (!files.has(file) && fs.statSync(abs).isFile()) fs.rmSync(abs);
+  });
+  files.forEach((content, file) => {
+    const abs = path.join(dir, file);
+    if (fs.existsSync(abs) && fs.readFileSync(abs, 'utf8') === content) return;
+    fs.mkdirSync(path.dirname(abs), { recursive: true });
+    fs.writeFileSync(abs, content);
+  });
+}
+
+/**
+ * Generates one MDX page per exported class, function, type and config
+ * option of the SDK packages from their published type declarations. Pages
+ * are written under `docs/api/generated`, which `apiSidebar` picks up as an
+ * autogenerated section.
+ *
+ * The configuration builder's fields are checked against the extracted
+ * config types, and what the reference knows about each of them is shared
+ * with the builder as global data.
+ *
+ * Generation happens when the plugin is created, before the docs plugin
+ * reads its content, and again in `loadContent` whenever the watched
+ * `.d.ts` files change during `docusaurus start`.
+ */
+export default function pluginApiReference(
+  context: LoadContext,
+  options: ApiReferenceOptions,
+): Plugin<ApiSymbol[]> {
+  const packages = (options.packages ?? DEFAULT_PACKAGES).map(pkg => ({
+    ...pkg,
+    types: path.resolve(context.siteDir, pkg.types),
+  }));
+  const outDir = path.resolve(context.siteDir, options.outDir ?? 'docs/api/generated');
+  const configTypes = options.configTypes ?? DEFAULT_CONFIG_TYPES;
+
+  // Pages are served from the docs plugin's default route, mirroring their path below docs/.
+  const routeBase = `/docs/${path.relative(path.join(context.siteDir, 'docs'), outDir).split(path.sep).join('/')}`;
+
+  const generate = (): ApiSymbol[] => {
+    const missing = packages.filter(pkg => !fs.existsSync(pkg.types));
+    if (missing.length > 0) {
+      logger.warn`API reference: type declarations not found, writing a placeholder instead: path=${missing.map(pkg => pkg.types)}`;
+      syncDir(outDir, renderPlaceholder(missing.map(pkg => path.relative(context.siteDir, pkg.types))));
+      return [];
+    }
+    const symbols = packages.flatMap(pkg => extractApi({ packageName: pkg.name, entry: pkg.types, configTypes }));
+    const problems = checkConfigBuilder(symbols);
+    if (problems.length > 0) {
+      throw new Error(`The configuration builder (src/configBuilder/schema.ts) no longer matches the SDK types:\n- ${problems.join('\n- ')}`);
+    }
+    syncDir(outDir, renderReference(symbols, packages.map(pkg => pkg.name)));
+    logger.info`API reference: generated number=${symbols.length} pages from number=${packages.length} packages`;
+    return symbols;
+  };
+
+  // Plugins load their content in parallel, so the first run cannot wait for
+  // `loadContent`: the docs plugin would already be reading the folder.
+  let initialSymbols: ApiSymbol[] | null = generate();
+
+  return {
+    name: 'api-reference',
+
+    getPathsToWatch() {
+      return packages.map(pkg => pkg.types);
+    },
+
+    async loadContent() {
+      const symbols = initialSymbols ?? generate();
+      initialSymbols = null;
+      return symbols;
+    },
+
+    async contentLoaded({ content, actions }) {
+      actions.setGlobalData(configReferenceData(content, routeBase));
+    },
+  };
+}
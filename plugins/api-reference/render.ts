@@ -0,0 +1,312 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ApiKind, ApiMember, ApiSignature, ApiSymbol } from './extract';
+import path from 'node:path';
+import { CONFIG_FIELDS, configGroupAnchor } from '../../src/configBuilder';
+
+const KIND_DIRS: Record<ApiKind, { dir: string; label: string; title: string }> = {
+  class: { dir: 'classes', label: 'Classes', title: 'Class' },
+  function: { dir: 'functions', label: 'Functions', title: 'Function' },
+  type: { dir: 'types', label: 'Types', title: 'Type' },
+  enum: { dir: 'types', label: 'Types', title: 'Enum' },
+  config: { dir: 'config', label: 'Configuration', title: 'Config option' },
+};
+
+// plugins/typecheck-snippets skips these blocks: declarations are not
+// runnable code, and the SDK's own examples can only be fixed in the SDK.
+const DECLARATION_FENCE = '```ts nocheck';
+const EXAMPLE_FENCE = /^(```(?:ts|tsx|typescript)\b.*)$/gm;
+
+/** Generated file contents keyed by path relative to the output directory. */
+export type GeneratedFiles = Map<string, string>;
+
+function slugify(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase();
+}
+
+function packageDir(packageName: string): string {
+  return packageName.split('/').pop()!;
+}
+
+export function pagePath(symbol: Pick<ApiSymbol, 'packageName' | 'name' | 'kind' | 'parent'>): string {
+  const { dir } = KIND_DIRS[symbol.kind];
+  const file = `${slugify(symbol.name)}.mdx`;
+  return symbol.parent
+    ? path.posix.join(packageDir(symbol.packageName), dir, slugify(symbol.parent), file)
+    : path.posix.join(packageDir(symbol.packageName), dir, file);
+}
+
+/** Escapes prose for MDX while leaving inline code spans untouched. */
+export function escapeProse(text: string): string {
+  return text
+    .split(/(`[^`]*`)/)
+    .map((part, idx) => (idx % 2 === 1
+      ? part
+      : part.replace(/[{}]/g, ch => `\\${ch}`).replace(/</g, '&lt;')))
+    .join('');
+}
+
+function cell(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+}
+
+function code(text: string): string {
+  return `\`${cell(text)}\``;
+}
+
+function firstSentence(text: string): string {
+  const plain = text.replace(/\{@link\s+([^}\s|]+)[^}]*\}/g, '$1').replace(/[`*_]/g, '').split('\n')[0];
+  const match = /^(.+?[.!?])(\s|$)/.exec(plain);
+  return (match ? match[1] : plain).replace(/"/g, '\\"').trim();
+}
+
+class Renderer {
+  private readonly byName = new Map<string, ApiSymbol>();
+
+  constructor(private readonly symbols: ApiSymbol[]) {
+    symbols.filter(symbol => symbol.kind !== 'config').forEach((symbol) => {
+      // Core wins when both packages export a symbol under the same name.
+      if (!this.byName.has(symbol.name)) this.byName.set(symbol.name, symbol);
+    });
+  }
+
+  private linkTo(from: ApiSymbol, target: ApiSymbol, label = code(target.name)): string {
+    const relative = path.posix.relative(path.posix.dirname(pagePath(from)), pagePath(target));
+    return `[${label}](${relative.startsWith('.') ? relative : `./${relative}`})`;
+  }
+
+  /** Prose with `{@link Name}` tags turned into links to generated pages. */
+  private prose(from: ApiSymbol, text: string): string {
+    return escapeProse(text).replace(/\\\{@link\s+([^}\s|]+)(?:\s*\|\s*([^}]+))?\\\}/g, (_match, name: string, label?: string) => {
+      const target = this.byName.get(name);
+      const shown = label ? label.trim() : code(name);
+      return target ? this.linkTo(from, target, shown) : shown;
+    });
+  }
+
+  private deprecation(from: ApiSymbol, deprecated: string | undefined): string[] {
+    if (deprecated === undefined) return [];
+    return [':::warning Deprecated', '', this.prose(from, deprecated || 'This API is deprecated.'), '', ':::', ''];
+  }
+
+  private signatureSection(from: ApiSymbol, sig: ApiSignature, heading: string): string[] {
+    const lines = [heading, '', DECLARATION_FENCE, sig.text, '```', ''];
+    if (sig.parameters.length > 0) {
+      lines.push('| Parameter | Type | Description |', '| --- | --- | --- |');
+      sig.parameters.forEach((param) => {
+        const name = param.optional ? `${param.name}?` : param.name;
+        lines.push(`| ${code(name)} | ${code(param.type)} | ${cell(this.prose(from, param.description)) || '—'} |`);
+      });
+      lines.push('');
+    }
+    lines.push(`**Returns:** ${code(sig.returns)}${sig.returnsDescription ? ` — ${cell(this.prose(from, sig.returnsDescription))}` : ''}`, '');
+    return lines;
+  }
+
+  private memberTable(from: ApiSymbol, members: ApiMember[], options: ApiSymbol[]): string[] {
+    const lines = ['| Property | Type | Description |', '| --- | --- | --- |'];
+    members.forEach((member) => {
+      const option = options.find(o => o.name === member.name);
+      const label = code(member.optional ? `${member.name}?` : member.name);
+      const name = option ? this.linkTo(from, option, label) : label;
+      lines.push(`| ${name} | ${code(member.type)} | ${cell(this.prose(from, member.description)) || '—'} |`);
+    });
+    return [...lines, ''];
+  }
+
+  private memberSections(from: ApiSymbol, members: ApiMember[]): string[] {
+    return members.flatMap(member => [
+      `### ${code(member.kind === 'constructor' ? 'constructor' : member.name)}`,
+      '',
+      ...this.deprecation(from, member.deprecated),
+      DECLARATION_FENCE,
+      member.text,
+      '```',
+      '',
+      ...(member.description ? [this.prose(from, member.description), ''] : []),
+    ]);
+  }
+
+  renderPage(symbol: ApiSymbol): string {
+    const { title } = KIND_DIRS[symbol.kind];
+    const owner = symbol.parent ? this.byName.get(symbol.parent) : undefined;
+    const lines = [
+      '---',
+      `title: ${symbol.parent ? `${symbol.parent}.${symbol.name}` : symbol.name}`,
+      `sidebar_label: ${symbol.name}`,
+      ...(symbol.description ? [`description: "${firstSentence(symbol.description)}"`] : []),
+      'custom_edit_url: null',
+      'status: complete',
+      '---',
+      '',
+      `{/* Generated by plugins/api-reference from ${symbol.packageName}. Edits will be overwritten. */}`,
+      '',
+      `# ${code(symbol.name)}`,
+      '',
+      owner
+        ? `*${title} of ${this.linkTo(symbol, owner)} in \`${symbol.packageName}\`.*`
+        : `*${title} exported from \`${symbol.packageName}\`.*`,
+      '',
+      ...this.deprecation(symbol, symbol.deprecated),
+    ];
+    if (symbol.description) lines.push(this.prose(symbol, symbol.description), '');
+
+    if (symbol.kind === 'function') {
+      symbol.signatures.forEach((sig, idx) => {
+        lines.push(...this.signatureSection(symbol, sig, symbol.signatures.length > 1 ? `## Overload ${idx + 1}` : '## Signature'));
+      });
+    } else {
+      lines.push(DECLARATION_FENCE, symbol.declaration, '```', '');
+    }
+
+    if (symbol.kind === 'config') {
+      lines.push('| Type | Required | Default |', '| --- | --- | --- |');
+      const member = owner?.members.find(m => m.name === symbol.name);
+      lines.push(`| ${code(member?.type ?? 'unknown')} | ${member?.optional ? 'No' : 'Yes'} | ${symbol.defaultValue ? code(symbol.defaultValue) : '—'} |`, '');
+      const field = CONFIG_FIELDS.find(f => f.option?.owner === symbol.parent && f.option.path[0] === symbol.name);
+      if (field) {
+        lines.push(':::tip', '', `Try this option in the [configuration builder](/docs/api/config#${configGroupAnchor(field.group)}).`, '', ':::', '');
+      }
+    }
+
+    const options = this.symbols.filter(s => s.parent === symbol.name && s.packageName === symbol.packageName);
+    const properties = symbol.members.filter(m => m.kind === 'property');
+    const methods = symbol.members.filter(m => m.kind === 'method' || m.kind === 'constructor');
+    const enumMembers = symbol.members.filter(m => m.kind === 'enum-member');
+
+    if (symbol.kind === 'class') {
+      if (properties.length > 0) lines.push('## Properties', '', ...this.memberTable(symbol, properties, options));
+      if (methods.length > 0) lines.push('## Methods', '', ...this.memberSections(symbol, methods));
+    } else if (symbol.kind === 'type') {
+      if (properties.length > 0) lines.push(options.length > 0 ? '## Options' : '## Properties', '', ...this.memberTable(symbol, properties, options));
+      if (methods.length > 0) lines.push('## Methods', '', ...this.memberSections(symbol, methods));
+    } else if (symbol.kind === 'enum' && enumMembers.length > 0) {
+      lines.push('## Members', '', '| Member | Value | Description |', '| --- | --- | --- |');
+      enumMembers.forEach((m) => {
+        lines.push(`| ${code(m.name)} | ${m.type ? code(m.type) : '—'} | ${cell(this.prose(symbol, m.description)) || '—'} |`);
+      });
+      lines.push('');
+    }
+
+    if (symbol.examples.length > 0) {
+      lines.push(symbol.examples.length > 1 ? '## Examples' : '## Example', '');
+      symbol.examples.forEach((example) => {
+        lines.push(example.includes('```') ? example.replace(EXAMPLE_FENCE, '$1 nocheck') : ['```tsx nocheck', example, '```'].join('\n'), '');
+      });
+    }
+
+    const related = symbol.references
+      .map(name => this.byName.get(name))
+      .filter((target): target is ApiSymbol => !!target && target !== symbol && target !== owner);
+    if (related.length > 0) {
+      lines.push('## See also', '', ...related.map(target => `- ${this.linkTo(symbol, target)}`), '');
+    }
+
+    return `${lines.join('\n').trimEnd()}\n`;
+  }
+
+  renderIndex(packageNames: string[]): string {
+    const lines = [
+      '---',
+      'title: Generated Reference',
+      'sidebar_label: Overview',
+      'sidebar_position: 0',
+      'description: Reference generated from the published XHub Chat type declarations',
+      'custom_edit_url: null',
+      'status: complete',
+      '---',
+      '',
+      '# Generated Reference',
+      '',
+      'Every page in this section is generated from the `.d.ts` files published with each package, so signatures always match the released types.',
+      '',
+    ];
+    packageNames.forEach((packageName) => {
+      lines.push(`## \`${packageName}\``, '');
+      (['class', 'function', 'type', 'enum'] as const).forEach((kind) => {
+        const ofKind = this.symbols.filter(s => s.packageName === packageName && s.kind === kind);
+        if (ofKind.length === 0) return;
+        lines.push(`**${kind === 'enum' ? 'Enums' : KIND_DIRS[kind].label}:** ${ofKind.map(s => `[${code(s.name)}](./${pagePath(s)})`).join(', ')}`, '');
+      });
+    });
+    return `${lines.join('\n').trimEnd()}\n`;
+  }
+
+  categories(): GeneratedFiles {
+    const files: GeneratedFiles = new Map();
+    const order: ApiKind[] = ['class', 'function', 'type', 'config'];
+    this.symbols.forEach((symbol) => {
+      const pkg = packageDir(symbol.packageName);
+      files.set(`${pkg}/_category_.json`, category(pkg, symbol.packageName, 1));
+      const { dir, label } = KIND_DIRS[symbol.kind];
+      files.set(`${pkg}/${dir}/_category_.json`, category(`${pkg}-${dir}`, label, order.indexOf(symbol.kind === 'enum' ? 'type' : symbol.kind) + 1));
+      if (symbol.parent) {
+        const parent = slugify(symbol.parent);
+        files.set(`${pkg}/${dir}/${parent}/_category_.json`, category(`${pkg}-${dir}-${parent}`, symbol.parent, 1));
+      }
+    });
+    return files;
+  }
+}
+
+/**
+ * Categories are keyed by their path: both packages have "Functions" and
+ * "Types" folders, and translations need a distinct key for each.
+ */
+function category(key: string, label: string, position: number): string {
+  return `${JSON.stringify({ key, label, position, collapsed: true }, null, 2)}\n`;
+}
+
+/** Builds every page of the reference for the given symbols. */
+export function renderReference(symbols: ApiSymbol[], packageNames: string[]): GeneratedFiles {
+  const renderer = new Renderer(symbols);
+  const files = renderer.categories();
+  files.set('index.mdx', renderer.renderIndex(packageNames));
+  symbols.forEach(symbol => files.set(pagePath(symbol), renderer.renderPage(symbol)));
+  return files;
+}
+
+/** Page shown in place of the reference when the type declarations are missing. */
+export function renderPlaceholder(missing: string[]): GeneratedFiles {
+  const content = [
+    '---',
+    'title: Generated Reference',
+    'sidebar_label: Overview',
+    'sidebar_position: 0',
+    'custom_edit_url: null',
+    'status: stub',
+    '---',
+    '',
+    '# Generated Reference',
+    '',
+    ':::info Type declarations not found',
+    '',
+    'The generated reference is built from the `.d.ts` files of the SDK packages, which were not found when this site was built:',
+    '',
+    ...missing.map(file => `- \`${file}\``),
+    '',
+    'Build the packages in the SDK repository (`npm run build`), or set `XHUB_CHAT_SDK_DIR` to a checkout that contains `packages/core/dist` and `packages/react/dist`, then restart the docs site.',
+    '',
+    ':::',
+    '',
+  ];
+  return new Map([['index.mdx', content.join('\n')]]);
+}
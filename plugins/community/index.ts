@@ -0,0 +1,90 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { CommunityContent } from '../../src/community';
+import fs from 'node:fs';
+import path from 'node:path';
+import { getContentPathList, getPluginI18nPath, readDataFile } from '@docusaurus/utils';
+import { COMMUNITY_PLUGIN, normalizeCommunityContent, validateCommunityContent } from '../../src/community';
+
+export type CommunityOptions = {
+  /** Directory holding the content file, relative to the site. */
+  path?: string;
+  /** YAML or JSON file with `testimonials` and `showcase` lists. */
+  file?: string;
+};
+
+function checkImages(content: CommunityContent, staticDir: string): string[] {
+  const images = [
+    ...content.testimonials.flatMap((entry, idx) => (entry.avatar ? [[`testimonials[${idx}].avatar`, entry.avatar]] : [])),
+    ...content.showcase.map((entry, idx) => [`showcase[${idx}].image`, entry.image]),
+  ];
+  return images.flatMap(([where, image]) => {
+    if (/^[a-z]+:\/\//i.test(image)) return [`${where}: images must be committed under static/, not linked from ${image}`];
+    return fs.existsSync(path.join(staticDir, image)) ? [] : [`${where}: static/${image} does not exist`];
+  });
+}
+
+/**
+ * Loads the homepage testimonials and "Built with XHubChat" showcase from
+ * `data/community.yml` (or `i18n/<locale>/community/community.yml` when
+ * translated), validates them, and exposes them as global data for
+ * src/components/Community. A malformed entry or missing image fails the build.
+ */
+export default function pluginCommunity(
+  context: LoadContext,
+  options: CommunityOptions,
+): Plugin<CommunityContent> {
+  const contentPaths = {
+    contentPath: path.resolve(context.siteDir, options.path ?? 'data'),
+    contentPathLocalized: getPluginI18nPath({
+      localizationDir: context.localizationDir,
+      pluginName: COMMUNITY_PLUGIN,
+    }),
+  };
+  const filePath = options.file ?? 'community.yml';
+
+  return {
+    name: COMMUNITY_PLUGIN,
+
+    getPathsToWatch() {
+      return getContentPathList(contentPaths).map(dir => path.join(dir, filePath));
+    },
+
+    async loadContent() {
+      const data = await readDataFile({ filePath, contentPaths });
+      if (data === undefined) {
+        return { testimonials: [], showcase: [] };
+      }
+      const problems = validateCommunityContent(data);
+      if (problems.length > 0) {
+        throw new Error(`${filePath} is invalid:\n- ${problems.join('\n- ')}`);
+      }
+      const content = normalizeCommunityContent(data as Record<string, unknown>);
+      const missing = checkImages(content, path.join(context.siteDir, 'static'));
+      if (missing.length > 0) {
+        throw new Error(`${filePath} references missing images:\n- ${missing.join('\n- ')}`);
+      }
+      return content;
+    },
+
+    async contentLoaded({ content, actions }) {
+      actions.setGlobalData(content);
+    },
+  };
+}
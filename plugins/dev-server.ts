@@ -0,0 +1,77 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Plugin } from '@docusaurus/types';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+// JSON helpers and middleware mounting shared by the plugins that serve
+// endpoints from the `docusaurus start` dev server.
+
+type ConfigureWebpackResult = Exclude<ReturnType<NonNullable<Plugin['configureWebpack']>>, void>;
+
+type DevServerMiddleware = {
+  name: string;
+  path: string;
+  middleware: (req: IncomingMessage, res: ServerResponse) => void;
+};
+
+export function readJson<T>(req: IncomingMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      try {
+        resolve((raw ? JSON.parse(raw) : {}) as T);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * `configureWebpack` result that mounts `middleware` under `path` on the
+ * `docusaurus start` dev server.
+ */
+export function mountDevMiddleware(
+  name: string,
+  path: string,
+  middleware: DevServerMiddleware['middleware'],
+): ConfigureWebpackResult {
+  const devServer = {
+    setupMiddlewares: (middlewares: DevServerMiddleware[]) => {
+      middlewares.unshift({ name, path, middleware });
+      // Docusaurus' own setupMiddlewares mutates and returns the same
+      // array; webpack-merge concatenates both results, so returning it
+      // again here would register every middleware twice.
+      return [];
+    },
+  };
+  // `devServer` is not part of webpack's Configuration type, but
+  // Docusaurus merges it into the options of `docusaurus start`.
+  return { devServer } as ConfigureWebpackResult;
+}
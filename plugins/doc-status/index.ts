@@ -0,0 +1,146 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { LoadedContent, LoadedVersion } from '@docusaurus/plugin-content-docs';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { DocCoverageEntry, DocStatus, DocStatusData, DocStatusReport, SidebarCoverage } from '../../src/docStatus/types';
+import fs from 'node:fs';
+import path from 'node:path';
+import { normalizeUrl } from '@docusaurus/utils';
+import { DOC_STATUS_PLUGIN, DOC_STATUS_ROUTE, DOC_STATUSES } from '../../src/docStatus/types';
+import { countWords } from '../reading-time';
+
+export type DocStatusOptions = {
+  /** Id of the docs plugin instance to classify. */
+  docsPluginId?: string;
+  /** Docs with fewer words are stubs. */
+  stubWords?: number;
+  /** Docs with fewer words are drafts. */
+  draftWords?: number;
+};
+
+type SidebarNode = {
+  type: string;
+  id?: string;
+  items?: SidebarNode[];
+  link?: { type: string; id?: string };
+};
+
+type NavbarItem = {
+  type?: string;
+  sidebarId?: string;
+  label?: string;
+  items?: NavbarItem[];
+};
+
+const PLACEHOLDER = /\b(coming soon|to be written|work in progress)\b/i;
+
+/** Doc ids in the order a reader meets them in the sidebar. */
+function sidebarDocIds(items: SidebarNode[]): string[] {
+  return items.flatMap(item => [
+    ...(item.type === 'doc' || item.type === 'ref' ? [item.id!] : []),
+    ...(item.link?.type === 'doc' ? [item.link.id!] : []),
+    ...sidebarDocIds(item.items ?? []),
+  ]);
+}
+
+function navbarLabels(items: NavbarItem[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  const visit = (item: NavbarItem) => {
+    if (item.type === 'docSidebar' && item.sidebarId && item.label) labels.set(item.sidebarId, item.label);
+    item.items?.forEach(visit);
+  };
+  items.forEach(visit);
+  return labels;
+}
+
+/**
+ * Classifies every doc as stub, draft or complete. A `status` front matter
+ * field wins; otherwise short pages, and pages saying "coming soon", count
+ * as stubs or drafts depending on their length. Doc pages read the status
+ * from global data to show a banner on stubs and badges in the sidebar, and
+ * `/docs-status` lists the coverage of each sidebar of the current version.
+ */
+export default function pluginDocStatus(
+  context: LoadContext,
+  options: DocStatusOptions,
+): Plugin {
+  const stubWords = options.stubWords ?? 60;
+  const draftWords = options.draftWords ?? 150;
+
+  const classify = (source: string, frontMatter: Record<string, unknown>): { status: DocStatus; words: number; problem?: string } => {
+    const words = countWords(source);
+    const declared = frontMatter.status;
+    if (DOC_STATUSES.includes(declared as DocStatus)) return { status: declared as DocStatus, words };
+    const placeholder = PLACEHOLDER.test(source);
+    const status: DocStatus = words < stubWords || (placeholder && words < draftWords)
+      ? 'stub'
+      : words < draftWords || placeholder ? 'draft' : 'complete';
+    return declared === undefined
+      ? { status, words }
+      : { status, words, problem: `status "${String(declared)}" is not one of ${DOC_STATUSES.join(', ')}` };
+  };
+
+  const coverage = (version: LoadedVersion, entries: Map<string, DocCoverageEntry>): SidebarCoverage[] => {
+    const themeConfig = context.siteConfig.themeConfig as { navbar?: { items?: NavbarItem[] } };
+    const labels = navbarLabels(themeConfig.navbar?.items ?? []);
+    const sidebars = Object.entries(version.sidebars).map(([sidebarId, items]) => ({
+      sidebarId,
+      label: labels.get(sidebarId) ?? sidebarId,
+      docs: [...new Set(sidebarDocIds(items as SidebarNode[]))].flatMap(id => entries.get(id) ?? []),
+    }));
+    const orphans = version.docs.filter(doc => !doc.sidebar && !doc.unlisted).flatMap(doc => entries.get(doc.id) ?? []);
+    return orphans.length > 0 ? [...sidebars, { sidebarId: '', label: 'Not in a sidebar', docs: orphans }] : sidebars;
+  };
+
+  return {
+    name: DOC_STATUS_PLUGIN,
+
+    async allContentLoaded({ allContent, actions }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.[options.docsPluginId ?? 'default'] as LoadedContent | undefined;
+      if (!docsContent) return;
+
+      const pages: Record<string, DocStatus> = {};
+      const problems: string[] = [];
+      let report: DocStatusReport = { sidebars: [] };
+      docsContent.loadedVersions.forEach((version) => {
+        const entries = new Map<string, DocCoverageEntry>();
+        version.docs.forEach((doc) => {
+          const file = path.join(context.siteDir, doc.source.replace(/^@site\//, ''));
+          if (!fs.existsSync(file)) return;
+          const { status, words, problem } = classify(fs.readFileSync(file, 'utf8'), doc.frontMatter);
+          if (problem) problems.push(`${doc.source}: ${problem}`);
+          pages[doc.permalink] = status;
+          entries.set(doc.id, { id: doc.id, title: doc.title, permalink: doc.permalink, status, words });
+        });
+        if (version.versionName === 'current') report = { sidebars: coverage(version, entries) };
+      });
+      if (problems.length > 0) {
+        throw new Error(`Doc status front matter is invalid:\n- ${problems.join('\n- ')}`);
+      }
+
+      actions.setGlobalData({ pages } satisfies DocStatusData);
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, DOC_STATUS_ROUTE]),
+        component: '@site/src/components/DocStatusPage',
+        exact: true,
+        modules: {
+          report: await actions.createData('report.json', JSON.stringify(report)),
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,102 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { EventParameter } from '../../src/eventCatalog';
+import ts from 'typescript';
+import { collectReferences, docOf, loadEntry, tagsOf } from '../api-reference/extract';
+
+export type ExtractedEvent = {
+  name: string;
+  member: string;
+  map: string;
+  description: string;
+  deprecated?: string;
+  /** Value of a `@category` tag on the map entry, if any. */
+  category?: string;
+  listener: string;
+  parameters: EventParameter[];
+  /** Exported types the listener mentions. */
+  references: string[];
+};
+
+export type ExtractEventsOptions = {
+  entry: string;
+  /** Exported types whose properties map event names to listeners. */
+  isEventMap: (name: string) => boolean;
+};
+
+/**
+ * `[RoomEvent.Timeline]: ...` keys are documented by their enum member; plain
+ * string keys are shown as the string itself.
+ */
+function memberOf(decl: ts.Declaration, name: string, sourceFile: ts.SourceFile): string {
+  const key = (decl as ts.NamedDeclaration).name;
+  return key && ts.isComputedPropertyName(key) ? key.expression.getText(sourceFile) : `'${name}'`;
+}
+
+/**
+ * Reads the typed event maps of one package, such as
+ * `ClientEventHandlerMap`, and returns one entry per event they declare.
+ * The listener type of each entry is the event's payload.
+ */
+export function extractEvents({ entry, isEventMap }: ExtractEventsOptions): ExtractedEvent[] {
+  const { checker, moduleSymbol } = loadEntry(entry);
+  const exportedNames = new Set(checker.getExportsOfModule(moduleSymbol).map(exported => exported.getName()));
+
+  return checker.getExportsOfModule(moduleSymbol)
+    .filter(exported => isEventMap(exported.getName()))
+    .flatMap((exported) => {
+      const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      if (!(symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias))) return [];
+
+      return checker.getPropertiesOfType(checker.getDeclaredTypeOfSymbol(symbol)).flatMap((property): ExtractedEvent[] => {
+        const decl = property.valueDeclaration ?? property.declarations?.[0];
+        if (!decl) return [];
+        const sourceFile = decl.getSourceFile();
+        const listenerType = checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(property, decl));
+        const signature = listenerType.getCallSignatures()[0];
+        if (!signature) return [];
+
+        const references = new Set<string>();
+        collectReferences(decl, references);
+        // `@param` tags on the map entry describe the listener's parameters.
+        const paramDocs = new Map(ts.getJSDocTags(decl).filter(ts.isJSDocParameterTag).map(tag => [
+          tag.name.getText(sourceFile),
+          (ts.getTextOfJSDocComment(tag.comment) ?? '').replace(/^-\s*/, '').trim(),
+        ]));
+        return [{
+          name: property.getName(),
+          member: memberOf(decl, property.getName(), sourceFile),
+          map: exported.getName(),
+          description: docOf(property, checker),
+          deprecated: tagsOf(property, checker, 'deprecated')[0],
+          category: tagsOf(property, checker, 'category')[0],
+          listener: checker.typeToString(listenerType, decl, ts.TypeFormatFlags.NoTruncation),
+          parameters: signature.getParameters().map((param) => {
+            const paramDecl = param.valueDeclaration as ts.ParameterDeclaration | undefined;
+            return {
+              name: param.getName(),
+              type: paramDecl?.type?.getText(paramDecl.getSourceFile())
+                ?? checker.typeToString(checker.getTypeOfSymbolAtLocation(param, decl), decl, ts.TypeFormatFlags.NoTruncation),
+              optional: !!paramDecl && (!!paramDecl.questionToken || !!paramDecl.dotDotDotToken),
+              description: docOf(param, checker) || (paramDocs.get(param.getName()) ?? ''),
+            };
+          }),
+          references: [...references].filter(name => exportedNames.has(name)).sort(),
+        }];
+      });
+    });
+}
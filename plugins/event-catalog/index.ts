@@ -0,0 +1,96 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { DEFAULT_PACKAGES, syncDir } from '../api-reference';
+import { extractApi } from '../api-reference/extract';
+import { extractEvents } from './extract';
+import { buildCatalog, renderCatalog, renderCatalogPlaceholder } from './render';
+
+export type EventCatalogOptions = {
+  packageName?: string;
+  /** Entry `.d.ts` of the package, relative to the site directory. */
+  types?: string;
+  /** Exported types read as event maps. Defaults to every `*EventHandlerMap`. */
+  eventMaps?: string[];
+  /** Where the page is written, relative to the site directory. Keep it out of git. */
+  outDir?: string;
+  /** URL of the generated API reference, which payload types link to. */
+  apiBasePath?: string;
+};
+
+/**
+ * Generates the event catalog of `@xhub-chat/core` from the typed event maps
+ * in its type declarations: every event name, its listener payload, when it
+ * fires and how to subscribe from core and React. The page and its data are
+ * written to `docs/packages/core/generated` and rendered by
+ * src/components/EventCatalog, which adds search and domain filters.
+ *
+ * Like the API reference, generation happens when the plugin is created and
+ * again in `loadContent` whenever the watched `.d.ts` file changes.
+ */
+export default function pluginEventCatalog(
+  context: LoadContext,
+  options: EventCatalogOptions,
+): Plugin {
+  const packageName = options.packageName ?? '@xhub-chat/core';
+  const configuredTypes = options.types ?? DEFAULT_PACKAGES.find(pkg => pkg.name === packageName)?.types;
+  if (!configuredTypes) {
+    throw new Error(`Event catalog: no type declarations known for ${packageName}; set the \`types\` option`);
+  }
+  const types = path.resolve(context.siteDir, configuredTypes);
+  const outDir = path.resolve(context.siteDir, options.outDir ?? 'docs/packages/core/generated');
+  const isEventMap = options.eventMaps
+    ? (name: string) => options.eventMaps!.includes(name)
+    : (name: string) => name.endsWith('EventHandlerMap');
+
+  const generate = (): void => {
+    if (!fs.existsSync(types)) {
+      logger.warn`Event catalog: type declarations not found, writing a placeholder instead: path=${types}`;
+      syncDir(outDir, renderCatalogPlaceholder(packageName, path.relative(context.siteDir, types)));
+    } else {
+      const events = extractEvents({ entry: types, isEventMap });
+      const symbols = extractApi({ packageName, entry: types, configTypes: [] });
+      syncDir(outDir, renderCatalog(buildCatalog(events, symbols, packageName, options.apiBasePath ?? '/docs/api/generated')));
+      if (events.length === 0) {
+        logger.warn`Event catalog: no typed event maps found in path=${types}`;
+      } else {
+        logger.info`Event catalog: generated number=${events.length} events of name=${packageName}`;
+      }
+    }
+  };
+
+  // Same as the API reference: the docs plugin reads the folder while other
+  // plugins load, so the first run happens here.
+  generate();
+  let initialRun = true;
+
+  return {
+    name: 'event-catalog',
+
+    getPathsToWatch() {
+      return [types];
+    },
+
+    async loadContent() {
+      if (!initialRun) generate();
+      initialRun = false;
+    },
+  };
+}
@@ -0,0 +1,237 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { DocStatus } from '../../src/docStatus/types';
+import type { CatalogEvent, EventCatalogData, EventDomain } from '../../src/eventCatalog';
+import type { ApiSymbol } from '../api-reference/extract';
+import type { GeneratedFiles } from '../api-reference/render';
+import type { ExtractedEvent } from './extract';
+import { EVENT_DOMAINS } from '../../src/eventCatalog';
+import { pagePath } from '../api-reference/render';
+
+/** Tried in order against the event name and enum member; `rooms` is the fallback. */
+const DOMAIN_RULES: [RegExp, EventDomain][] = [
+  [/sync/i, 'sync'],
+  [/stor(?:e|age)|cache|persist/i, 'storage'],
+  [/post/i, 'posts'],
+  [/timeline|redaction|receipt|^event$/i, 'timeline'],
+];
+
+type Emitter = {
+  variable: string;
+  /** Lines that get the emitter inside a React component, and its parameters. */
+  hook?: { params: string; lines: string[]; from: string };
+  /** The hook result can be null until the emitter is loaded. */
+  nullable?: boolean;
+};
+
+// Keyed by the map name without `EventHandlerMap`. Other emitters are passed
+// into the example hook as an argument.
+const EMITTERS: Record<string, Emitter> = {
+  Client: {
+    variable: 'client',
+    hook: { params: '', lines: ['const { client } = useXHubChat();'], from: 'useXHubChat' },
+  },
+  Room: {
+    variable: 'room',
+    hook: { params: 'roomId: string', lines: ['const room = useRoom(roomId);'], from: 'useRoom' },
+    nullable: true,
+  },
+};
+
+export const PAGE_FILE = 'event-catalog.mdx';
+export const DATA_FILE = 'event-catalog.json';
+
+// `ClientEvent.Sync` is an enum member; a quoted key like `'Room.custom'` is not.
+const ENUM_MEMBER = /^[A-Za-z_$][\w$]*\./;
+
+function enumOf(event: ExtractedEvent): string | null {
+  return ENUM_MEMBER.test(event.member) ? event.member.split('.')[0]! : null;
+}
+
+/** The enum member name, or the event name itself for string keys. */
+function memberKey(event: ExtractedEvent): string {
+  return enumOf(event) ? event.member.split('.').pop()! : event.member.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+function domainOf(event: ExtractedEvent): EventDomain {
+  const tagged = EVENT_DOMAINS.find(domain => domain === event.category?.toLowerCase());
+  if (tagged) return tagged;
+  const keys = [event.name, memberKey(event)];
+  return DOMAIN_RULES.find(([rule]) => keys.some(key => rule.test(key)))?.[1] ?? 'rooms';
+}
+
+function anchorOf(event: ExtractedEvent): string {
+  return event.member.replace(/['"]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function emitterOf(event: ExtractedEvent): Emitter & { type: string } {
+  const type = event.map.replace(/(?:Event)?HandlerMap$/, '') || 'Client';
+  const variable = type.charAt(0).toLowerCase() + type.slice(1);
+  return { variable, ...EMITTERS[type], type };
+}
+
+function handlerName(event: ExtractedEvent): string {
+  const words = memberKey(event).split(/[^a-z0-9]+/i).filter(Boolean);
+  return `on${words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('')}`;
+}
+
+function parameterList(event: ExtractedEvent): string {
+  return event.parameters.map(param => `${param.name}${param.optional ? '?' : ''}: ${param.type}`).join(', ');
+}
+
+/** Import lines for the enum holding the event name and the payload types. */
+function coreImports(event: ExtractedEvent, packageName: string, extraTypes: string[] = []): string[] {
+  const enumName = enumOf(event);
+  const types = [...event.references, ...extraTypes].filter(name => name !== enumName);
+  return [
+    ...(types.length > 0 ? [`import type { ${[...new Set(types)].sort().join(', ')} } from '${packageName}';`] : []),
+    ...(enumName ? [`import { ${enumName} } from '${packageName}';`] : []),
+  ];
+}
+
+function coreExample(event: ExtractedEvent, packageName: string): string {
+  const handler = handlerName(event);
+  const { variable } = emitterOf(event);
+  return [
+    ...coreImports(event, packageName),
+    '',
+    `function ${handler}(${parameterList(event)}) {`,
+    '  // ...',
+    '}',
+    '',
+    `${variable}.on(${event.member}, ${handler});`,
+    '',
+    '// Later, once the updates are no longer needed:',
+    `${variable}.off(${event.member}, ${handler});`,
+  ].join('\n');
+}
+
+function reactExample(event: ExtractedEvent, packageName: string): string {
+  const handler = handlerName(event);
+  const emitter = emitterOf(event);
+  const { variable } = emitter;
+  const params = emitter.hook?.params ?? `${variable}: ${emitter.type} | null`;
+  const nullable = emitter.hook ? !!emitter.nullable : true;
+  const extraTypes = emitter.hook ? [] : [emitter.type];
+  return [
+    ...coreImports(event, packageName, extraTypes),
+    ...(emitter.hook ? [`import { ${emitter.hook.from} } from '@xhub-chat/react';`] : []),
+    `import { useEffect } from 'react';`,
+    '',
+    `function use${handler.slice(2)}Listener(${params}) {`,
+    ...(emitter.hook ? [...emitter.hook.lines.map(line => `  ${line}`), ''] : []),
+    '  useEffect(() => {',
+    ...(nullable ? [`    if (!${variable}) return;`] : []),
+    `    const ${handler} = (${parameterList(event)}) => {`,
+    '      // ...',
+    '    };',
+    `    ${variable}.on(${event.member}, ${handler});`,
+    '    return () => {',
+    `      ${variable}.off(${event.member}, ${handler});`,
+    '    };',
+    `  }, [${variable}]);`,
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Builds the catalog data from the extracted events. `symbols` are the
+ * package's API reference entries; payload types link to their pages there.
+ */
+export function buildCatalog(
+  events: ExtractedEvent[],
+  symbols: ApiSymbol[],
+  packageName: string,
+  apiBasePath: string,
+): EventCatalogData {
+  const byName = new Map(symbols.map(symbol => [symbol.name, symbol]));
+  return {
+    packageName,
+    events: events.map((event): CatalogEvent => ({
+      name: event.name,
+      member: event.member,
+      anchor: anchorOf(event),
+      map: event.map,
+      domain: domainOf(event),
+      description: event.description,
+      deprecated: event.deprecated,
+      listener: event.listener,
+      parameters: event.parameters,
+      payloadTypes: event.references.flatMap((name) => {
+        const symbol = byName.get(name);
+        return symbol
+          ? [{ name, declaration: symbol.declaration, href: `${apiBasePath}/${pagePath(symbol).replace(/\.mdx$/, '')}` }]
+          : [];
+      }),
+      examples: {
+        core: coreExample(event, packageName),
+        react: reactExample(event, packageName),
+      },
+    })).sort((a, b) => a.member.localeCompare(b.member)),
+  };
+}
+
+function page(packageName: string, status: DocStatus, body: string[]): string {
+  return [
+    '---',
+    'title: Event Catalog',
+    'sidebar_label: Event Catalog',
+    `description: Every event ${packageName} emits, with its payload and how to subscribe`,
+    'slug: /packages/core/event-catalog',
+    'custom_edit_url: null',
+    `status: ${status}`,
+    '---',
+    '',
+    ...body,
+  ].join('\n');
+}
+
+/** The catalog page and the data it renders. */
+export function renderCatalog(catalog: EventCatalogData): GeneratedFiles {
+  const content = page(catalog.packageName, 'complete', [
+    `import EventCatalog from '@site/src/components/EventCatalog';`,
+    `import catalog from './${DATA_FILE}';`,
+    '',
+    '# Event Catalog',
+    '',
+    `Every event \`${catalog.packageName}\` emits, generated from the typed event maps in its type declarations. Expand a payload type to see its declaration, and copy the example for core or React to subscribe. For how events fit into the client, see the [Event Handling Guide](/docs/packages/core/guides/events).`,
+    '',
+    '<EventCatalog catalog={catalog} />',
+    '',
+  ]);
+  return new Map([
+    [PAGE_FILE, content],
+    [DATA_FILE, `${JSON.stringify(catalog, null, 2)}\n`],
+  ]);
+}
+
+/** Page shown in place of the catalog when the type declarations are missing. */
+export function renderCatalogPlaceholder(packageName: string, missing: string): GeneratedFiles {
+  const content = page(packageName, 'stub', [
+    '# Event Catalog',
+    '',
+    ':::info Type declarations not found',
+    '',
+    `The event catalog is generated from the typed event maps in \`${missing}\`, which was not found when this site was built.`,
+    '',
+    'Build the packages in the SDK repository (`npm run build`), or set `XHUB_CHAT_SDK_DIR` to a checkout that contains `packages/core/dist`, then restart the docs site. Until then, see the [Event Handling Guide](/docs/packages/core/guides/events).',
+    '',
+    ':::',
+    '',
+  ]);
+  return new Map([[PAGE_FILE, content]]);
+}
@@ -0,0 +1,142 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { LoadedContent } from '@docusaurus/plugin-content-docs';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { FeedbackData, FeedbackReport, FeedbackSubmission } from '../../src/feedback/types';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { normalizeUrl } from '@docusaurus/utils';
+import { FEEDBACK_PLUGIN, FEEDBACK_ROUTE } from '../../src/feedback/types';
+import { validateFeedbackExport, validateFeedbackSubmission } from '../../src/feedback/validate';
+import { mountDevMiddleware, readJson, sendJson } from '../dev-server';
+import { summarizeFeedback } from './report';
+
+export type FeedbackOptions = {
+  /**
+   * Production endpoint the widget POSTs submissions to. Defaults to the
+   * `XHUB_FEEDBACK_ENDPOINT` environment variable; without one, builds
+   * hide the widget.
+   */
+  endpoint?: string;
+  /** Dev server route for the local stand-in. */
+  path?: string;
+  /** Where `docusaurus start` stores submissions, relative to the site. */
+  devFile?: string;
+  /** Exported submissions the report page is built from, relative to the site. */
+  dataFile?: string;
+  /** Id of the docs plugin instance the widget is shown on. */
+  docsPluginId?: string;
+};
+
+function readSubmissions(file: string): FeedbackSubmission[] {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as FeedbackSubmission[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Collects "Was this page helpful?" answers from the doc footer widget.
+ *
+ * - On `docusaurus start`, `POST {path}` appends a submission to `devFile`
+ *   and `GET {path}` lists them, standing in for the production endpoint
+ * - `/docs-feedback` totals the submissions in `dataFile`, an export from
+ *   the production store in the same JSON format as `devFile`
+ */
+export default function pluginFeedback(
+  context: LoadContext,
+  options: FeedbackOptions,
+): Plugin {
+  const devPath = (options.path ?? '/__feedback').replace(/\/$/, '');
+  const devFile = path.resolve(context.siteDir, options.devFile ?? '.feedback/submissions.json');
+  const dataFile = path.resolve(context.siteDir, options.dataFile ?? 'data/feedback.json');
+  const endpoint = options.endpoint ?? process.env.XHUB_FEEDBACK_ENDPOINT ?? null;
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method === 'GET') {
+      sendJson(res, 200, readSubmissions(devFile));
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: `No feedback route for ${req.method}` });
+      return;
+    }
+    const submission = await readJson<FeedbackSubmission>(req);
+    const problems = validateFeedbackSubmission(submission);
+    if (problems.length > 0) {
+      sendJson(res, 400, { error: problems.join('\n') });
+      return;
+    }
+    fs.mkdirSync(path.dirname(devFile), { recursive: true });
+    fs.writeFileSync(devFile, `${JSON.stringify([...readSubmissions(devFile), submission], null, 2)}\n`);
+    logger.info`Feedback rating=${submission.rating} for page=${submission.page} saved to path=${path.relative(context.siteDir, devFile)}`;
+    sendJson(res, 201, {});
+  }
+
+  return {
+    name: FEEDBACK_PLUGIN,
+
+    getPathsToWatch() {
+      return [dataFile];
+    },
+
+    async allContentLoaded({ allContent, actions }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.[options.docsPluginId ?? 'default'] as LoadedContent | undefined;
+      // Permalinks carry the locale's base URL; submissions are keyed without it.
+      const docPages = new Set(docsContent?.loadedVersions.flatMap(version =>
+        version.docs.map(doc => normalizeUrl(['/', doc.permalink.slice(context.baseUrl.length)]))) ?? []);
+
+      const report: FeedbackReport = { pages: [], source: null };
+      if (fs.existsSync(dataFile)) {
+        report.source = path.relative(context.siteDir, dataFile);
+        let data: unknown;
+        try {
+          data = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+        } catch (error) {
+          throw new Error(`${report.source} is not valid JSON: ${(error as Error).message}`);
+        }
+        const problems = validateFeedbackExport(data);
+        if (problems.length > 0) {
+          throw new Error(`${report.source} is invalid:\n- ${problems.join('\n- ')}`);
+        }
+        report.pages = summarizeFeedback(data as FeedbackSubmission[], context.i18n.locales, page => docPages.has(page));
+      }
+
+      actions.setGlobalData({ endpoint, devPath } satisfies FeedbackData);
+      actions.addRoute({
+        path: normalizeUrl([context.baseUrl, FEEDBACK_ROUTE]),
+        component: '@site/src/components/FeedbackReportPage',
+        exact: true,
+        modules: {
+          report: await actions.createData('report.json', JSON.stringify(report)),
+        },
+      });
+    },
+
+    configureWebpack(_config, isServer) {
+      if (isServer) return undefined;
+      return mountDevMiddleware(FEEDBACK_PLUGIN, devPath, (req, res) => {
+        handle(req, res).catch((error: Error) => {
+          sendJson(res, 400, { error: error.message });
+        });
+      });
+    },
+  };
+}
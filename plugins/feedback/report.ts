@@ -0,0 +1,73 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { FeedbackPageSummary, FeedbackSectionSummary, FeedbackSubmission } from '../../src/feedback/types';
+
+// Locale prefixes are dropped so translated pages are counted with the original.
+function stripLocale(page: string, locales: string[]): string {
+  const match = /^\/([^/]+)(\/.*)$/.exec(page);
+  return match && locales.includes(match[1]) ? match[2] : page;
+}
+
+function countRating(summary: { up: number; down: number }, submission: FeedbackSubmission): void {
+  summary[submission.rating] += 1;
+}
+
+/**
+ * Totals the submissions per page and section. Pages with the most down
+ * votes come first, since those are the ones to fix.
+ */
+export function summarizeFeedback(
+  submissions: FeedbackSubmission[],
+  locales: string[],
+  isDoc: (page: string) => boolean,
+): FeedbackPageSummary[] {
+  const pages = new Map<string, FeedbackPageSummary & { bySection: Map<string, FeedbackSectionSummary>; localized: boolean }>();
+  [...submissions]
+    .sort((a, b) => Date.parse(b.submittedAt) - Date.parse(a.submittedAt))
+    .forEach((submission) => {
+      const key = stripLocale(submission.page, locales);
+      const localized = key !== submission.page;
+      const page = pages.get(key)
+        ?? { page: key, title: submission.title, removed: !isDoc(key), up: 0, down: 0, sections: [], comments: [], bySection: new Map(), localized };
+      pages.set(key, page);
+      // Titles of the default locale win over translated ones.
+      if (page.localized && !localized) {
+        page.title = submission.title;
+        page.localized = false;
+      }
+      countRating(page, submission);
+
+      if (submission.section) {
+        const section = page.bySection.get(submission.section)
+          ?? { section: submission.section, title: submission.sectionTitle ?? submission.section, up: 0, down: 0 };
+        page.bySection.set(submission.section, section);
+        countRating(section, submission);
+      }
+      const comment = submission.comment?.trim();
+      if (comment) {
+        const { rating, section, sectionTitle, locale, submittedAt } = submission;
+        page.comments.push({ rating, comment, section, sectionTitle, locale, submittedAt });
+      }
+    });
+
+  return [...pages.values()]
+    .map(({ bySection, localized: _localized, ...page }) => ({
+      ...page,
+      sections: [...bySection.values()].sort((a, b) => b.down - a.down || b.up - a.up),
+    }))
+    .sort((a, b) => b.down - a.down || a.up - b.up || a.page.localeCompare(b.page));
+}
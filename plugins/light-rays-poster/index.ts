@@ -0,0 +1,104 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { RaysConfig, RaysPresetName } from '../../src/components/LightRays/presets';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { parseColor } from '../../src/components/LightRays/color';
+import { resolveRaysConfig } from '../../src/components/LightRays/presets';
+import { renderRaysFrame } from '../../src/components/LightRays/shader';
+import { raysTarget } from '../../src/components/LightRays/state';
+import { encodePng } from './png';
+
+export type PosterSpec = {
+  /** Output path under the `static` directory. */
+  file: string;
+  width: number;
+  height: number;
+  /** Defaults to `hero`, the homepage effect. */
+  preset?: RaysPresetName;
+  /**
+   * Replaces every source's color. Needed for presets whose colors are CSS
+   * variables, which only resolve in the browser.
+   */
+  color?: string;
+  /** Opaque backdrop, for images shown outside the site such as social cards. */
+  background?: string;
+  /** Frame time in seconds; the same spec always produces the same bytes. */
+  time?: number;
+  overrides?: Partial<Omit<RaysConfig, 'sources'>>;
+};
+
+export type LightRaysPosterOptions = {
+  posters?: PosterSpec[];
+};
+
+// Grain does not survive upscaling and makes the PNG five times larger.
+const POSTER_OVERRIDES = { noiseAmount: 0 };
+
+const DEFAULT_POSTERS: PosterSpec[] = [
+  { file: 'img/generated/hero-rays-light.png', width: 800, height: 300, color: '#6366f1', overrides: POSTER_OVERRIDES },
+  { file: 'img/generated/hero-rays-dark.png', width: 800, height: 300, color: '#ffffff', overrides: POSTER_OVERRIDES },
+  { file: 'img/generated/social-card.png', width: 1200, height: 630, color: '#ffffff', background: '#0f172a', overrides: POSTER_OVERRIDES },
+];
+
+function renderPoster(spec: PosterSpec): Buffer {
+  const { width, height } = spec;
+  const config = resolveRaysConfig(spec.preset ?? 'hero', spec.overrides);
+  const colors = config.sources.map(source => parseColor(spec.color ?? source.color));
+  const pixels = renderRaysFrame(raysTarget(config, colors, width, height), width, height, spec.time ?? 2);
+  if (spec.background) {
+    const backdrop = parseColor(spec.background).map(c => c * 255);
+    for (let i = 0; i < pixels.length; i += 4) {
+      const alpha = pixels[i + 3] / 255;
+      for (let c = 0; c < 3; c++) pixels[i + c] = pixels[i + c] * alpha + backdrop[c] * (1 - alpha);
+      pixels[i + 3] = 255;
+    }
+  }
+  return encodePng(width, height, pixels);
+}
+
+/**
+ * Renders still LightRays frames to PNG with the CPU port of the shader, for
+ * the hero poster (no-JS visitors, browsers without WebGL) and the social
+ * card. Files land in `static/img/generated` before the static directory is
+ * copied, and are only rewritten when their bytes change.
+ */
+export default function pluginLightRaysPoster(
+  context: LoadContext,
+  options: LightRaysPosterOptions,
+): Plugin {
+  const posters = options.posters ?? DEFAULT_POSTERS;
+  let written = 0;
+  posters.forEach((spec) => {
+    const abs = path.join(context.siteDir, 'static', spec.file);
+    const png = renderPoster(spec);
+    if (fs.existsSync(abs) && fs.readFileSync(abs).equals(png)) return;
+    fs.mkdirSync(path.dirname(abs), { recursive: true });
+    fs.writeFileSync(abs, png);
+    written++;
+  });
+  if (written > 0) {
+    logger.info`LightRays posters: rendered number=${written} of number=${posters.length} images`;
+  }
+
+  return {
+    name: 'light-rays-poster',
+  };
+}
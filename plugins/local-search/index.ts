@@ -0,0 +1,164 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { AnyNode } from 'cheerio';
+import type { SearchIndex, SearchSection } from '../../src/search';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { load } from 'cheerio';
+import { SEARCH_INDEX_FILE } from '../../src/search';
+
+export type LocalSearchOptions = {
+  /** Route prefix of the docs plugin, relative to the base URL. */
+  docsRouteBasePath?: string;
+  /** Prose kept per section; headings and symbols are always indexed in full. */
+  maxSectionLength?: number;
+};
+
+const IDENTIFIER = /^[A-Z_$][\w$]*(?:\.[A-Z_$][\w$]*)*$/i;
+const CODE_NAMES = /[A-Z_$][\w$]*(?:\.[A-Z_$][\w$]*)*/gi;
+// Keeps code-heavy sections from bloating the index.
+const MAX_MENTIONS = 40;
+
+type SectionDraft = {
+  heading: string;
+  anchor: string;
+  text: string[];
+  symbols: Set<string>;
+  mentions: Set<string>;
+};
+
+function newSection(heading: string, anchor: string): SectionDraft {
+  return { heading, anchor, text: [], symbols: new Set(), mentions: new Set() };
+}
+
+function clean(text: string): string {
+  return text.replace(/\u200B/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * `useTimeline()`, `RoomEvent.Timeline` or `Room<T>` are API names, `true` or
+ * `pnpm` are not: a symbol needs a capital letter or a member access.
+ */
+function toSymbol(raw: string): string | null {
+  const name = clean(raw).replace(/\(.*\)$/, '').replace(/<.*>$/, '');
+  return name.length >= 3 && IDENTIFIER.test(name) && /[A-Z.]/.test(name) ? name : null;
+}
+
+function extractSections(html: string, route: string, maxLength: number): SearchSection[] {
+  const $ = load(html);
+  const classes = ($('html').attr('class') ?? '').split(/\s+/);
+  if (!classes.includes('docs-doc-page')) return [];
+  const version = classes.find(name => name.startsWith('docs-version-'))?.slice('docs-version-'.length) ?? 'current';
+
+  const root = $('.theme-doc-markdown').first();
+  root.find('[data-search-exclude], textarea, script, style, button, .hash-link').remove();
+  const page = clean(root.find('h1').first().text()) || clean($('title').text());
+
+  const sections: SearchSection[] = [];
+  let current = newSection('', '');
+  const flush = () => {
+    const text = clean(current.text.join(' ')).slice(0, maxLength);
+    if (!text && !current.heading) return;
+    const mentions = [...current.mentions].filter(name => !current.symbols.has(name)).slice(0, MAX_MENTIONS);
+    sections.push({
+      page,
+      heading: current.heading,
+      url: current.anchor ? `${route}#${current.anchor}` : route,
+      text,
+      symbols: [...current.symbols],
+      mentions,
+      version,
+    });
+  };
+
+  const visit = (_idx: number, el: AnyNode): void => {
+    const node = $(el);
+    // Components such as the event catalog mark wrappers whose children are sections of their own.
+    if (node.is('[data-search-sections]')) {
+      node.children().each(visit);
+      return;
+    }
+    if (node.is('h2, h3') && node.attr('id')) {
+      flush();
+      const heading = clean(node.text());
+      current = newSection(heading, node.attr('id')!);
+      const symbol = toSymbol(heading);
+      if (symbol) current.symbols.add(symbol);
+      return;
+    }
+    if (node.is('header')) return;
+    // Code blocks contribute API names but not prose, which they would drown.
+    const blocks = node.is('pre') ? node : node.find('pre');
+    blocks.each((_i, pre) => {
+      ($(pre).text().match(CODE_NAMES) ?? []).forEach((name) => {
+        const symbol = toSymbol(name);
+        if (symbol) current.mentions.add(symbol);
+      });
+    });
+    blocks.remove();
+    node.find('code').each((_i, code) => {
+      const symbol = toSymbol($(code).text());
+      if (symbol) current.mentions.add(symbol);
+    });
+    if (!node.is('pre')) current.text.push(node.text());
+  };
+  root.children().each(visit);
+  flush();
+
+  // Generated API pages are named after the symbol they document.
+  const pageSymbol = toSymbol(page);
+  if (pageSymbol && sections[0] && !sections[0].symbols.includes(pageSymbol)) {
+    sections[0].symbols.unshift(pageSymbol);
+  }
+  return sections;
+}
+
+/**
+ * Builds a full-text index of every docs page at `docusaurus build` time and
+ * writes it to `search-index.json` in each locale's output directory. The
+ * navbar search box (src/theme/SearchBar) fetches it on first use, so search
+ * works on the static deployment without a search service.
+ */
+export default function pluginLocalSearch(
+  context: LoadContext,
+  options: LocalSearchOptions,
+): Plugin {
+  const docsBase = `${context.baseUrl}${(options.docsRouteBasePath ?? 'docs').replace(/^\/|\/$/g, '')}`;
+  const maxLength = options.maxSectionLength ?? 1500;
+
+  return {
+    name: 'local-search',
+
+    async postBuild({ outDir, routesPaths }) {
+      const sections: SearchSection[] = [];
+      routesPaths
+        .filter(route => route === docsBase || route.startsWith(`${docsBase}/`))
+        .forEach((route) => {
+          const file = path.join(outDir, route.slice(context.baseUrl.length), 'index.html');
+          if (!fs.existsSync(file)) return;
+          sections.push(...extractSections(fs.readFileSync(file, 'utf8'), route, maxLength));
+        });
+
+      const index: SearchIndex = { sections };
+      await fs.promises.writeFile(path.join(outDir, SEARCH_INDEX_FILE), JSON.stringify(index));
+      logger.info`Local search: indexed number=${sections.length} sections for locale name=${context.i18n.currentLocale}`;
+    },
+  };
+}
@@ -0,0 +1,123 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ScenarioAction, SlidingSyncRequest } from '../../src/mocks/sliding-sync';
+import logger from '@docusaurus/logger';
+import {
+  DEFAULT_SCENARIO,
+  scenarios,
+  SLIDING_SYNC_PATH,
+  SlidingSyncEngine,
+  validateScenario,
+} from '../../src/mocks/sliding-sync';
+import { mountDevMiddleware, readJson, sendJson } from '../dev-server';
+
+export type MockSyncServerOptions = {
+  /** URL prefix the mock server is mounted under. */
+  path?: string;
+  /** Name of the scenario to start with, see src/mocks/sliding-sync/scenarios. */
+  scenario?: string;
+};
+
+type ControlRequest
+  = | { action: 'reset'; scenario?: string }
+    | { action: 'inject'; step: ScenarioAction };
+
+function resolveScenario(name: string) {
+  const scenario = scenarios[name];
+  if (!scenario) {
+    throw new Error(`Unknown mock sync scenario "${name}". Available: ${Object.keys(scenarios).join(', ')}`);
+  }
+  const problems = validateScenario(scenario);
+  if (problems.length > 0) {
+    throw new Error(`Mock sync scenario "${name}" is invalid:\n- ${problems.join('\n- ')}`);
+  }
+  return scenario;
+}
+
+/**
+ * Mounts the sliding sync mock server on the `docusaurus start` dev server.
+ *
+ * - `POST {path}/_matrix/client/unstable/org.matrix.msc3575/sync` answers sync requests
+ * - `GET {path}/scenarios` lists scenarios and the current tick
+ * - `POST {path}/control` resets or switches the scenario, or injects a step on demand
+ *
+ * Production builds are unaffected; demos there use the in-memory transport.
+ */
+export default function pluginMockSyncServer(
+  _context: LoadContext,
+  options: MockSyncServerOptions,
+): Plugin {
+  const basePath = (options.path ?? '/__mock-sync').replace(/\/$/, '');
+  const engine = new SlidingSyncEngine(resolveScenario(options.scenario ?? DEFAULT_SCENARIO));
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // The middleware is mounted at `basePath`, so `req.url` is already relative to it.
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = url.pathname;
+
+    if (route === SLIDING_SYNC_PATH && req.method === 'POST') {
+      const request = await readJson<SlidingSyncRequest>(req);
+      const pos = url.searchParams.get('pos');
+      if (pos && request.pos === undefined) request.pos = pos;
+      const result = engine.handle(request);
+      sendJson(res, result.status, result.body);
+      return;
+    }
+
+    if (route === '/scenarios' && req.method === 'GET') {
+      sendJson(res, 200, {
+        current: engine.scenarioName,
+        tick: engine.currentTick,
+        scenarios: Object.values(scenarios).map(({ name, description }) => ({ name, description })),
+      });
+      return;
+    }
+
+    if (route === '/control' && req.method === 'POST') {
+      const control = await readJson<ControlRequest>(req);
+      if (control.action === 'reset') {
+        engine.reset(control.scenario ? resolveScenario(control.scenario) : undefined);
+        logger.info`Mock sync server reset to scenario name=${engine.scenarioName}`;
+      } else if (control.action === 'inject') {
+        engine.inject(control.step);
+      } else {
+        sendJson(res, 400, { errcode: 'M_BAD_JSON', error: 'Unknown control action' });
+        return;
+      }
+      sendJson(res, 200, { current: engine.scenarioName, tick: engine.currentTick });
+      return;
+    }
+
+    sendJson(res, 404, { errcode: 'M_UNRECOGNIZED', error: `No mock sync route for ${req.method} ${route}` });
+  }
+
+  return {
+    name: 'mock-sync-server',
+
+    configureWebpack(_config, isServer) {
+      if (isServer) return undefined;
+      return mountDevMiddleware('mock-sync-server', basePath, (req, res) => {
+        handle(req, res).catch((error: Error) => {
+          sendJson(res, 400, { errcode: 'M_BAD_JSON', error: error.message });
+        });
+      });
+    },
+  };
+}
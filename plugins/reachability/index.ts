@@ -0,0 +1,171 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadedContent, LoadedVersion } from '@docusaurus/plugin-content-docs';
+import type { LoadContext, Plugin, ReportingSeverity } from '@docusaurus/types';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { load } from 'cheerio';
+
+export type ReachabilityOptions = {
+  /** Id of the docs plugin instance to check. */
+  docsPluginId?: string;
+  /** Defaults to the site's `onBrokenLinks`. */
+  onUnreachable?: ReportingSeverity;
+};
+
+/** Navbar or footer link, as far as reachability is concerned. */
+type NavLink = {
+  type?: string;
+  to?: string;
+  href?: string;
+  sidebarId?: string;
+  docId?: string;
+  items?: NavLink[];
+};
+
+type FooterColumn = { title?: string; items: NavLink[] };
+
+type DocNode = {
+  id: string;
+  permalink: string;
+  sidebar?: string;
+  version: string;
+};
+
+function normalize(url: string): string {
+  const pathname = decodeURI(url.split(/[?#]/)[0]!);
+  return pathname.length > 1 ? pathname.replace(/\/$/, '') : pathname;
+}
+
+function flattenNavLinks(items: NavLink[]): NavLink[] {
+  return items.flatMap(item => [item, ...flattenNavLinks(item.items ?? [])]);
+}
+
+function footerLinks(links: (NavLink | FooterColumn)[]): NavLink[] {
+  return links.flatMap(link => ('title' in link || !('to' in link || 'href' in link) ? link.items ?? [] : [link]));
+}
+
+/**
+ * Sidebars a set of navbar or footer links lead into: a `docSidebar` item
+ * opens its sidebar, and a link to a doc shows that doc's sidebar.
+ */
+function sidebarsReachedBy(links: NavLink[], docs: DocNode[], withBaseUrl: (url: string) => string): Set<string> {
+  const reached = new Set<string>();
+  links.forEach((link) => {
+    if (link.type === 'docSidebar' && link.sidebarId) reached.add(link.sidebarId);
+    const target = link.type === 'doc'
+      ? docs.find(doc => doc.id === link.docId)
+      : link.to ? docs.find(doc => normalize(doc.permalink) === normalize(withBaseUrl(link.to!))) : undefined;
+    if (target?.sidebar) reached.add(target.sidebar);
+  });
+  return reached;
+}
+
+function collectDocs(versions: LoadedVersion[]): DocNode[] {
+  return versions.flatMap(version => version.docs
+    .filter(doc => !doc.unlisted)
+    .map(doc => ({ id: doc.id, permalink: doc.permalink, sidebar: doc.sidebar, version: version.versionName })));
+}
+
+/**
+ * Follows every internal link of the built site from the homepage and
+ * returns the routes it reaches. Links are read from the HTML, so the
+ * navbar, footer, sidebars and page content all count.
+ */
+function crawl(outDir: string, baseUrl: string, routesPaths: string[]): Set<string> {
+  const routes = new Map(routesPaths.map(route => [normalize(route), route]));
+  const seen = new Set<string>();
+  const queue = [normalize(baseUrl)];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const route = routes.get(current);
+    if (seen.has(current) || route === undefined) continue;
+    seen.add(current);
+    const file = path.join(outDir, route.slice(baseUrl.length), 'index.html');
+    if (!fs.existsSync(file)) continue;
+    const $ = load(fs.readFileSync(file, 'utf8'));
+    $('a[href]').each((_idx, el) => {
+      const href = $(el).attr('href')!;
+      if (/^[a-z]+:/i.test(href) || href.startsWith('//')) return;
+      const target = normalize(new URL(href, `http://site${route}`).pathname);
+      if (!seen.has(target) && routes.has(target)) queue.push(target);
+    });
+  }
+  return seen;
+}
+
+/**
+ * Checks that every doc can be reached by clicking. When content has loaded
+ * it warns about sidebars no navbar item or footer link leads into, and docs
+ * no sidebar lists. After the build it follows links from the homepage and
+ * reports docs it never reached, with the same severity as `onBrokenLinks`
+ * unless `onUnreachable` says otherwise.
+ */
+export default function pluginReachability(
+  context: LoadContext,
+  options: ReachabilityOptions,
+): Plugin {
+  const severity = options.onUnreachable ?? context.siteConfig.onBrokenLinks;
+  const withBaseUrl = (url: string) => (url.startsWith('/') ? `${context.baseUrl}${url.slice(1)}` : url);
+  let docs: DocNode[] = [];
+
+  return {
+    name: 'reachability',
+
+    async allContentLoaded({ allContent }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.[options.docsPluginId ?? 'default'] as LoadedContent | undefined;
+      if (!docsContent) return;
+      docs = collectDocs(docsContent.loadedVersions);
+
+      const themeConfig = context.siteConfig.themeConfig as {
+        navbar?: { items?: NavLink[] };
+        footer?: { links?: (NavLink | FooterColumn)[] };
+      };
+      const navbar = flattenNavLinks(themeConfig.navbar?.items ?? []);
+      const footer = footerLinks(themeConfig.footer?.links ?? []);
+      const fromNavbar = sidebarsReachedBy(navbar, docs, withBaseUrl);
+      const fromFooter = sidebarsReachedBy(footer, docs, withBaseUrl);
+
+      const multipleVersions = docsContent.loadedVersions.length > 1;
+      const problems: string[] = [];
+      docsContent.loadedVersions.forEach((version) => {
+        const where = multipleVersions ? ` (version ${version.label})` : '';
+        Object.keys(version.sidebars).forEach((sidebarId) => {
+          if (fromNavbar.has(sidebarId)) return;
+          problems.push(fromFooter.has(sidebarId)
+            ? `sidebar "${sidebarId}"${where} is only reachable from the footer`
+            : `sidebar "${sidebarId}"${where} has no navbar item or footer link`);
+        });
+      });
+      docs.filter(doc => !doc.sidebar).forEach((doc) => {
+        problems.push(`doc "${doc.id}" (${doc.permalink}) is not listed in any sidebar`);
+      });
+      if (problems.length > 0) {
+        logger.warn`Reachability: name=${context.i18n.currentLocale} navigation has gaps:\n- ${problems.join('\n- ')}`;
+      }
+    },
+
+    async postBuild({ outDir, routesPaths }) {
+      const reached = crawl(outDir, context.baseUrl, routesPaths);
+      const unreachable = docs.filter(doc => !reached.has(normalize(doc.permalink)));
+      if (unreachable.length === 0) return;
+      logger.report(severity)`Reachability: these docs can only be opened by typing their URL. Add them to a sidebar with a navbar item, or link to them from a reachable page:\n- ${unreachable.map(doc => doc.permalink).join('\n- ')}`;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadedContent } from '@docusaurus/plugin-content-docs';
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { ReadingTime, ReadingTimeData } from '../../src/reading/types';
+import fs from 'node:fs';
+import path from 'node:path';
+import { READING_TIME_PLUGIN, WORDS_PER_MINUTE } from '../../src/reading/types';
+
+export type ReadingTimeOptions = {
+  /** Id of the docs plugin instance to measure. */
+  docsPluginId?: string;
+  wordsPerMinute?: number;
+};
+
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu;
+
+/**
+ * Counts the words a reader actually sees in an MDX source: front matter,
+ * imports, comments and JSX tags are dropped, link targets and images too.
+ * Code is kept, since reading an example takes at least as long as prose.
+ */
+export function countWords(source: string): number {
+  const text = source
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/^(?:import|export)\s.*$/gm, '')
+    .replace(/<!--[\s\S]*?-->|\{\/\*[\s\S]*?\*\/\}/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<\/?[A-Z][^>]*>|<\/?[a-z][\w-]*(?:\s[^>]*)?>/g, ' ');
+  return text.match(WORD)?.length ?? 0;
+}
+
+/**
+ * Measures every doc's reading time once content is loaded and exposes it as
+ * global data keyed by permalink, so doc pages can show "5 min read" without
+ * shipping or scanning the text in the browser. See src/reading.
+ */
+export default function pluginReadingTime(
+  context: LoadContext,
+  options: ReadingTimeOptions,
+): Plugin {
+  const wordsPerMinute = options.wordsPerMinute ?? WORDS_PER_MINUTE;
+
+  return {
+    name: READING_TIME_PLUGIN,
+
+    async allContentLoaded({ allContent, actions }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.[options.docsPluginId ?? 'default'] as LoadedContent | undefined;
+      const pages: Record<string, ReadingTime> = {};
+      docsContent?.loadedVersions.forEach((version) => {
+        version.docs.forEach((doc) => {
+          const file = path.join(context.siteDir, doc.source.replace(/^@site\//, ''));
+          if (!fs.existsSync(file)) return;
+          const words = countWords(fs.readFileSync(file, 'utf8'));
+          pages[doc.permalink] = { words, minutes: Math.max(1, Math.round(words / wordsPerMinute)) };
+        });
+      });
+      actions.setGlobalData({ pages } satisfies ReadingTimeData);
+    },
+  };
+}
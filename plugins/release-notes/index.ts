@@ -0,0 +1,125 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { ApiReferencePackage } from '../api-reference';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { DEFAULT_PACKAGES as API_PACKAGES, SDK_DIR, syncDir } from '../api-reference';
+import { extractApi } from '../api-reference/extract';
+import { pagePath } from '../api-reference/render';
+import { gitReleaseDate, parseChangelog } from './parse';
+import { groupReleases, packageTag, renderPlaceholder, renderPosts } from './render';
+
+export type ReleaseNotesPackage = {
+  name: string;
+  /** `CHANGELOG.md` of the package, relative to the site directory. */
+  changelog: string;
+};
+
+export type ReleaseNotesOptions = {
+  packages?: ReleaseNotesPackage[];
+  /** Where posts are written, relative to the site directory. Keep it out of git. */
+  outDir?: string;
+  /** Declarations used to link `Symbol` mentions to their API page. */
+  apiPackages?: ApiReferencePackage[];
+  /** Route of the generated API reference. */
+  apiRoute?: string;
+};
+
+const DEFAULT_PACKAGES: ReleaseNotesPackage[] = [
+  { name: '@xhub-chat/core', changelog: path.join(SDK_DIR, 'packages/core/CHANGELOG.md') },
+  { name: '@xhub-chat/react', changelog: path.join(SDK_DIR, 'packages/react/CHANGELOG.md') },
+];
+
+/** API page URL of every symbol whose declarations are available, by name. */
+function apiLinks(siteDir: string, packages: ApiReferencePackage[], apiRoute: string): Map<string, string> {
+  const links = new Map<string, string>();
+  packages
+    .map(pkg => ({ ...pkg, types: path.resolve(siteDir, pkg.types) }))
+    .filter(pkg => fs.existsSync(pkg.types))
+    .flatMap(pkg => extractApi({ packageName: pkg.name, entry: pkg.types, configTypes: [] }))
+    .forEach((symbol) => {
+      // Core wins when both packages export a symbol under the same name, like the reference itself.
+      if (!links.has(symbol.name)) links.set(symbol.name, `${apiRoute}/${pagePath(symbol).replace(/\.mdx$/, '')}`);
+    });
+  return links;
+}
+
+/**
+ * Turns the SDK changelogs into release-note posts for the blog, one per
+ * version, tagged by package and change type. Mentions of exported symbols
+ * in `code` link to their generated API page. Posts are written to
+ * `blog/generated` when the plugin is created, before the blog plugin reads
+ * its content, and again in `loadContent` whenever a changelog changes
+ * during `docusaurus start`.
+ */
+export default function pluginReleaseNotes(
+  context: LoadContext,
+  options: ReleaseNotesOptions,
+): Plugin {
+  const packages = (options.packages ?? DEFAULT_PACKAGES).map(pkg => ({
+    ...pkg,
+    changelog: path.resolve(context.siteDir, pkg.changelog),
+  }));
+  const outDir = path.resolve(context.siteDir, options.outDir ?? 'blog/generated');
+
+  const generate = (): void => {
+    const found = packages.filter(pkg => fs.existsSync(pkg.changelog));
+    const missing = packages.filter(pkg => !found.includes(pkg));
+    if (missing.length > 0) {
+      logger.warn`Release notes: changelogs not found: path=${missing.map(pkg => pkg.changelog)}`;
+    }
+    if (found.length === 0) {
+      // The blog needs at least one post for its routes, and the navbar links to them.
+      syncDir(outDir, renderPlaceholder(missing.map(pkg => path.relative(context.siteDir, pkg.changelog)), new Date().toISOString().slice(0, 10)));
+    } else {
+      const releases = found.flatMap(pkg => parseChangelog(pkg.name, fs.readFileSync(pkg.changelog, 'utf8')).flatMap((release) => {
+        const date = release.date ?? gitReleaseDate(pkg.changelog, release.version);
+        if (!date) {
+          logger.warn`Release notes: skipping name=${`${pkg.name}@${release.version}`}, its date is neither in the heading nor in git history`;
+          return [];
+        }
+        return [{ ...release, date }];
+      }));
+      const groups = groupReleases(releases);
+      syncDir(outDir, renderPosts(groups, {
+        apiLinks: apiLinks(context.siteDir, options.apiPackages ?? API_PACKAGES, options.apiRoute ?? '/docs/api/generated'),
+        packageLinks: new Map(found.map(pkg => [pkg.name, `/docs/packages/${packageTag(pkg.name)}/`])),
+      }));
+      logger.info`Release notes: generated number=${groups.length} posts from number=${found.length} changelogs`;
+    }
+  };
+
+  // Plugins load their content in parallel, so the first run cannot wait for
+  // `loadContent`: the blog plugin would already be reading the folder.
+  generate();
+  let initialRun = true;
+
+  return {
+    name: 'release-notes',
+
+    getPathsToWatch() {
+      return packages.map(pkg => pkg.changelog);
+    },
+
+    async loadContent() {
+      if (!initialRun) generate();
+      initialRun = false;
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import { execFileSync } from 'node:child_process';
+import path from 'node:path';
+
+export type ChangeType = 'breaking' | 'feature' | 'fix' | 'other';
+
+export type ChangelogEntry = {
+  type: ChangeType;
+  /** Markdown of the list item, continuation lines dedented. */
+  text: string;
+};
+
+export type ChangelogRelease = {
+  packageName: string;
+  version: string;
+  /** `YYYY-MM-DD`, when the heading or git history says. */
+  date?: string;
+  entries: ChangelogEntry[];
+};
+
+// Section headings written by Changesets and by Keep a Changelog.
+const SECTION_TYPES: Record<string, ChangeType> = {
+  'major changes': 'breaking',
+  'breaking changes': 'breaking',
+  'breaking': 'breaking',
+  'removed': 'breaking',
+  'minor changes': 'feature',
+  'features': 'feature',
+  'added': 'feature',
+  'patch changes': 'fix',
+  'bug fixes': 'fix',
+  'fixes': 'fix',
+  'fixed': 'fix',
+};
+
+const RELEASE_HEADING = /^##\s+\[?v?(\d+\.\d+\.\d+[\w.+-]*)\]?(.*)$/;
+const DATE = /\d{4}-\d{2}-\d{2}/;
+// Changesets prefixes entries with the commit that added them.
+const COMMIT_PREFIX = /^[0-9a-f]{7,40}:\s+/;
+
+function sectionType(heading: string): ChangeType {
+  return SECTION_TYPES[heading.replace(/[^\w\s]/g, '').trim().toLowerCase()] ?? 'other';
+}
+
+/**
+ * Reads the releases of a Changesets or Keep a Changelog `CHANGELOG.md`,
+ * newest first as written. Sections other than versions, like
+ * "Unreleased", are skipped.
+ */
+export function parseChangelog(packageName: string, source: string): ChangelogRelease[] {
+  const releases: ChangelogRelease[] = [];
+  let release: ChangelogRelease | undefined;
+  let type: ChangeType = 'other';
+  let entry: ChangelogEntry | undefined;
+
+  source.split(/\r?\n/).forEach((line) => {
+    if (/^##\s/.test(line)) {
+      const heading = RELEASE_HEADING.exec(line);
+      release = heading ? { packageName, version: heading[1]!, date: DATE.exec(heading[2]!)?.[0], entries: [] } : undefined;
+      if (release) releases.push(release);
+      type = 'other';
+      entry = undefined;
+    } else if (/^###\s/.test(line)) {
+      type = sectionType(line.slice(4));
+      entry = undefined;
+    } else if (release && /^[-*]\s/.test(line)) {
+      entry = { type, text: line.slice(2).trim().replace(COMMIT_PREFIX, '') };
+      release.entries.push(entry);
+    } else if (entry && (/^\s/.test(line) || line === '')) {
+      entry.text += `\n${line.replace(/^ {1,2}/, '')}`;
+    } else {
+      entry = undefined;
+    }
+  });
+  releases.forEach(r => r.entries.forEach((e) => {
+    e.text = e.text.trimEnd();
+  }));
+  return releases;
+}
+
+/**
+ * Date of the commit that added `## <version>` to the changelog. Changesets
+ * headings carry no date, so this is the release date as far as the
+ * monorepo knows. Undefined outside a git checkout.
+ */
+export function gitReleaseDate(changelog: string, version: string): string | undefined {
+  try {
+    const out = execFileSync('git', ['log', '--reverse', '--format=%cs', '-S', `## ${version}`, '--', path.basename(changelog)], {
+      cwd: path.dirname(changelog),
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    return out.split('\n')[0] || undefined;
+  } catch {
+    return undefined;
+  }
+}
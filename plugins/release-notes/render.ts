@@ -0,0 +1,191 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { GeneratedFiles } from '../api-reference/render';
+import type { ChangelogEntry, ChangelogRelease, ChangeType } from './parse';
+import { escapeProse } from '../api-reference/render';
+
+/** Releases of one or more packages published together on the same day. */
+export type ReleaseGroup = {
+  version: string;
+  date: string;
+  releases: ChangelogRelease[];
+};
+
+export type RenderOptions = {
+  /** Page URL of each documented API symbol, by name. */
+  apiLinks: Map<string, string>;
+  /** Overview page URL of each package, by package name. */
+  packageLinks: Map<string, string>;
+};
+
+const SECTIONS: { type: ChangeType; title: string }[] = [
+  { type: 'breaking', title: '⚠️ Breaking changes' },
+  { type: 'feature', title: '✨ Features' },
+  { type: 'fix', title: '🐛 Fixes' },
+  { type: 'other', title: 'Other changes' },
+];
+
+const COUNT_LABELS: Record<ChangeType, [string, string]> = {
+  breaking: ['breaking change', 'breaking changes'],
+  feature: ['feature', 'features'],
+  fix: ['fix', 'fixes'],
+  other: ['other change', 'other changes'],
+};
+
+/** Tag of a package in blog/tags.yml: `@xhub-chat/core` is `core`. */
+export function packageTag(packageName: string): string {
+  return packageName.split('/').pop()!;
+}
+
+const NUMERIC = /^\d+$/;
+
+/**
+ * Orders two semver versions, so `1.10.0` comes after `1.9.0` and a
+ * prerelease before its release. Build metadata is ignored.
+ */
+export function compareVersions(a: string, b: string): number {
+  const split = (version: string) => {
+    const [core, ...pre] = version.split('+')[0]!.split('-');
+    return { core: core!.split('.').map(Number), pre: pre.length > 0 ? pre.join('-').split('.') : [] };
+  };
+  const left = split(a);
+  const right = split(b);
+  for (let i = 0; i < 3; i++) {
+    const diff = (left.core[i] ?? 0) - (right.core[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  if (left.pre.length === 0 || right.pre.length === 0) return right.pre.length - left.pre.length;
+  for (let i = 0; i < Math.max(left.pre.length, right.pre.length); i++) {
+    const x = left.pre[i];
+    const y = right.pre[i];
+    if (x === undefined || y === undefined) return x === undefined ? -1 : 1;
+    if (x === y) continue;
+    // Numeric identifiers sort numerically and before alphanumeric ones.
+    if (NUMERIC.test(x) && NUMERIC.test(y)) return Number(x) - Number(y);
+    if (NUMERIC.test(x) !== NUMERIC.test(y)) return NUMERIC.test(x) ? -1 : 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+/** Groups releases sharing a version and date into one post, newest first. */
+export function groupReleases(releases: (ChangelogRelease & { date: string })[]): ReleaseGroup[] {
+  const groups = new Map<string, ReleaseGroup>();
+  releases.forEach((release) => {
+    const key = `${release.date} ${release.version}`;
+    if (!groups.has(key)) groups.set(key, { version: release.version, date: release.date, releases: [] });
+    groups.get(key)!.releases.push(release);
+  });
+  return [...groups.values()].sort((a, b) => b.date.localeCompare(a.date) || compareVersions(b.version, a.version));
+}
+
+function join(parts: string[]): string {
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts.at(-1)}` : parts[0] ?? '';
+}
+
+function summarize(entries: ChangelogEntry[]): string {
+  const parts = SECTIONS.flatMap(({ type }) => {
+    const count = entries.filter(entry => entry.type === type).length;
+    return count > 0 ? [`${count} ${COUNT_LABELS[type][count === 1 ? 0 : 1]}`] : [];
+  });
+  return parts.length > 0 ? join(parts) : 'No notable changes';
+}
+
+/**
+ * Escapes an entry for MDX and links `Symbol` code spans to their API page.
+ * Fenced code blocks inside the entry are kept as written.
+ */
+function renderEntry(entry: ChangelogEntry, apiLinks: Map<string, string>): string {
+  const text = entry.text
+    .split(/(^```[\s\S]*?^```)/m)
+    .map((part, idx) => (idx % 2 === 1
+      ? part
+      : escapeProse(part).replace(/(?<!\[)`(\w+)(\(\))?`/g, (match, name: string) => {
+        const url = apiLinks.get(name);
+        return url ? `[${match}](${url})` : match;
+      })))
+    .join('');
+  return `- ${text.split('\n').join('\n  ')}`;
+}
+
+function postSlug(group: ReleaseGroup): string {
+  return group.releases.length === 1 ? `${packageTag(group.releases[0]!.packageName)}-${group.version}` : group.version;
+}
+
+/** Builds one blog post per release group, keyed by file name. */
+export function renderPosts(groups: ReleaseGroup[], { apiLinks, packageLinks }: RenderOptions): GeneratedFiles {
+  const files: GeneratedFiles = new Map();
+  groups.forEach((group) => {
+    const entries = group.releases.flatMap(release => release.entries);
+    const types = SECTIONS.map(section => section.type).filter(type => type !== 'other' && entries.some(entry => entry.type === type));
+    const packageNames = group.releases.map(release => release.packageName);
+    const title = packageNames.length === 1 ? `${packageNames[0]} ${group.version}` : `XHub Chat ${group.version}`;
+    const summary = `${summarize(entries)} in ${join(packageNames.map(name => `\`${name}\``))}.`;
+
+    const lines = [
+      '---',
+      `title: "${title}"`,
+      `slug: ${postSlug(group)}`,
+      `date: ${group.date}`,
+      'authors: [xhub-chat]',
+      `tags: [${[...packageNames.map(packageTag), ...types].join(', ')}]`,
+      `description: "${summary.replace(/`/g, '')}"`,
+      '---',
+      '',
+      summary,
+      '',
+      '<!-- truncate -->',
+    ];
+    group.releases.forEach((release) => {
+      const packageLink = packageLinks.get(release.packageName);
+      lines.push('', `## ${packageLink ? `[${release.packageName}](${packageLink})` : release.packageName}`);
+      SECTIONS.forEach(({ type, title: sectionTitle }) => {
+        const sectionEntries = release.entries.filter(entry => entry.type === type);
+        if (sectionEntries.length === 0) return;
+        lines.push('', `### ${sectionTitle}`, '', ...sectionEntries.map(entry => renderEntry(entry, apiLinks)));
+      });
+    });
+    files.set(`${group.date}-${postSlug(group)}.md`, `${lines.join('\n')}\n`);
+  });
+  return files;
+}
+
+/** Post shown in place of the release notes when no changelog was found. */
+export function renderPlaceholder(missing: string[], date: string): GeneratedFiles {
+  const content = [
+    '---',
+    'title: Release notes',
+    'slug: welcome',
+    `date: ${date}`,
+    'authors: [xhub-chat]',
+    '---',
+    '',
+    'Release notes are generated from the changelogs of the SDK packages, which were not found when this site was built.',
+    '',
+    '<!-- truncate -->',
+    '',
+    ':::info Changelogs not found',
+    '',
+    ...missing.map(file => `- \`${file}\``),
+    '',
+    'Set `XHUB_CHAT_SDK_DIR` to a checkout of the SDK repository, then restart the docs site.',
+    '',
+    ':::',
+    '',
+  ];
+  return new Map([[`${date}-welcome.md`, content.join('\n')]]);
+}
@@ -0,0 +1,153 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ApiReferencePackage } from '../api-reference';
+import type { TwoslashError, TwoslashHover, TwoslashQuery, TwoslashResult } from '../../src/components/TwoslashCode/types';
+import path from 'node:path';
+import ts from 'typescript';
+import { compilerOptions, isUnresolvedImport } from '../typecheck-snippets';
+
+export type TwoslashLanguage = 'ts' | 'tsx';
+
+export type TwoslashOutput = {
+  result: TwoslashResult;
+  /** Errors not listed in `// @errors:`, with their line in the original block. */
+  unexpected: TwoslashError[];
+  /** Codes listed in `// @errors:` that the block does not raise, with the line of the directive. */
+  unraised: { code: number; line: number }[];
+};
+
+export type Twoslasher = (code: string, language: TwoslashLanguage) => TwoslashOutput;
+
+const ERRORS_DIRECTIVE = /^\s*\/\/\s*@errors:\s*([\d\s,]*)$/;
+const CUT_DIRECTIVE = /^\s*\/\/\s*---cut---\s*$/;
+const QUERY = /^\s*\/\/\s*\^\?\s*$/;
+
+/**
+ * Creates a compiler for twoslash blocks. One language service is shared by
+ * every block, so the lib and SDK declarations are parsed once per build.
+ */
+export function createTwoslasher(siteDir: string, packages: ApiReferencePackage[]): Twoslasher {
+  const options = compilerOptions(packages);
+  const sdkModules = new Set(packages.map(pkg => pkg.name));
+  // Inside the site directory so `react` resolves from its node_modules.
+  const dir = path.join(siteDir, '.docusaurus', 'twoslash');
+  const files = new Map<string, { text: string; version: number }>();
+  let version = 0;
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => [...files.keys()],
+    getScriptVersion: fileName => String(files.get(fileName)?.version ?? 0),
+    getScriptSnapshot: (fileName) => {
+      const text = files.get(fileName)?.text ?? ts.sys.readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => siteDir,
+    getDefaultLibFileName: ts.getDefaultLibFilePath,
+    fileExists: fileName => files.has(fileName) || ts.sys.fileExists(fileName),
+    readFile: fileName => files.get(fileName)?.text ?? ts.sys.readFile(fileName),
+    readDirectory: ts.sys.readDirectory,
+  };
+  const service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  return (code, language) => {
+    // Strip twoslash comments, remembering where each kept line came from.
+    const expected = new Map<number, number>();
+    const kept: string[] = [];
+    const origin: number[] = [];
+    const queryAt: { line: number; start: number }[] = [];
+    let cut = 0;
+    code.split('\n').forEach((line, index) => {
+      const errors = ERRORS_DIRECTIVE.exec(line);
+      if (errors) {
+        errors[1]!.split(/[\s,]+/).filter(Boolean).forEach(errorCode => expected.set(Number(errorCode), index));
+      } else if (CUT_DIRECTIVE.test(line)) {
+        cut = kept.length;
+      } else if (QUERY.test(line) && kept.length > 0) {
+        queryAt.push({ line: kept.length - 1, start: line.indexOf('^') });
+      } else {
+        kept.push(line);
+        origin.push(index);
+      }
+    });
+
+    const fileName = path.join(dir, `snippet.${language}`);
+    files.clear();
+    files.set(fileName, { text: kept.join('\n'), version: ++version });
+    const sourceFile = service.getProgram()!.getSourceFile(fileName)!;
+    const quickInfo = (position: number) => {
+      const info = service.getQuickInfoAtPosition(fileName, position);
+      return info && {
+        text: ts.displayPartsToString(info.displayParts),
+        docs: ts.displayPartsToString(info.documentation) || undefined,
+      };
+    };
+
+    // Diagnostics come first: quick info on a JSX tag name before the file
+    // is checked leaves the checker resolving it as a plain identifier.
+    const errors: TwoslashError[] = [];
+    const unexpected: TwoslashError[] = [];
+    const raised = new Set<number>();
+    [...service.getSyntacticDiagnostics(fileName), ...service.getSemanticDiagnostics(fileName)].forEach((diagnostic) => {
+      if (diagnostic.start === undefined || isUnresolvedImport(diagnostic, sdkModules)) return;
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start);
+      const error = {
+        line,
+        start: character,
+        length: Math.min(diagnostic.length ?? 1, kept[line]!.length - character) || 1,
+        code: diagnostic.code,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      };
+      if (!expected.has(diagnostic.code)) {
+        unexpected.push({ ...error, line: origin[line]! });
+        return;
+      }
+      raised.add(diagnostic.code);
+      if (line >= cut) {
+        errors.push({ ...error, line: line - cut });
+      }
+    });
+    const unraised = [...expected]
+      .filter(([code]) => !raised.has(code))
+      .map(([code, line]) => ({ code, line }));
+
+    const hovers: TwoslashHover[] = [];
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node)) {
+        const start = node.getStart(sourceFile);
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+        const info = line >= cut ? quickInfo(start) : undefined;
+        if (info) hovers.push({ line: line - cut, start: character, length: node.getWidth(sourceFile), ...info });
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    const queries: TwoslashQuery[] = queryAt
+      .filter(query => query.line >= cut && query.start < kept[query.line]!.length)
+      .flatMap((query) => {
+        const info = quickInfo(sourceFile.getPositionOfLineAndCharacter(query.line, query.start));
+        return info ? [{ line: query.line - cut, start: query.start, text: info.text }] : [];
+      });
+
+    return {
+      result: { code: kept.slice(cut).join('\n'), hovers, queries, errors },
+      unexpected,
+      unraised,
+    };
+  };
+}
@@ -0,0 +1,130 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { Code, Parent, Root } from 'mdast';
+import type { MdxJsxAttribute, MdxJsxFlowElement } from 'mdast-util-mdx-jsx';
+import type { VFile } from 'vfile';
+import type { ApiReferencePackage } from '../api-reference';
+import type { TwoslashLanguage, Twoslasher } from './compile';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { DEFAULT_PACKAGES } from '../api-reference';
+import { createTwoslasher } from './compile';
+
+export type RemarkTwoslashOptions = {
+  /** Defaults to the current directory, where `docusaurus build` runs. */
+  siteDir?: string;
+  /** Packages whose types show up in hovers. Defaults to the API reference ones. */
+  packages?: ApiReferencePackage[];
+};
+
+const LANGUAGES: Record<string, TwoslashLanguage> = {
+  ts: 'ts',
+  typescript: 'ts',
+  tsx: 'tsx',
+};
+
+// Created on the first twoslash block, so pages without one cost nothing.
+let twoslasher: Twoslasher | undefined;
+// Without the SDK declarations its types are `any`, so expected errors cannot occur.
+let declarationsMissing = false;
+
+function getTwoslasher(options: RemarkTwoslashOptions): Twoslasher {
+  if (!twoslasher) {
+    const siteDir = options.siteDir ?? process.cwd();
+    const packages = (options.packages ?? DEFAULT_PACKAGES).map(pkg => ({
+      ...pkg,
+      types: path.resolve(siteDir, pkg.types),
+    }));
+    const missing = packages.filter(pkg => !fs.existsSync(pkg.types));
+    declarationsMissing = missing.length > 0;
+    if (declarationsMissing) {
+      logger.warn`Twoslash: type declarations not found, SDK types show as any in code hovers: path=${missing.map(pkg => pkg.types)}`;
+    }
+    twoslasher = createTwoslasher(siteDir, packages.filter(pkg => !missing.includes(pkg)));
+  }
+  return twoslasher;
+}
+
+// Snapshots of released docs (`versioned_docs/version-*` and their translations)
+// are frozen, and the current SDK may have dropped what they describe.
+const FROZEN_DOCS = /(^|\/)(versioned_docs|docusaurus-plugin-content-docs)\/version-[^/]+\//;
+
+function isFrozenDoc(filePath: string, siteDir: string): boolean {
+  return FROZEN_DOCS.test(path.relative(siteDir, filePath).split(path.sep).join('/'));
+}
+
+function attribute(name: string, value: string): MdxJsxAttribute {
+  return { type: 'mdxJsxAttribute', name, value };
+}
+
+/**
+ * Replaces TypeScript code blocks marked `twoslash` with a `TwoslashCode`
+ * element carrying the type information computed for them: quick info for
+ * every identifier, the results of `// ^?` queries and the errors listed in
+ * `// @errors:`. Any other compiler error, or a listed code the block does
+ * not raise, fails the build like a broken link would, except in versioned
+ * docs: they are checked against the current SDK, so their errors are only
+ * reported as warnings.
+ */
+export default function remarkTwoslash(options: RemarkTwoslashOptions = {}) {
+  return (tree: Root, file: VFile) => {
+    const visit = (parent: Parent) => {
+      parent.children.forEach((node, index) => {
+        if ('children' in node) {
+          visit(node);
+          return;
+        }
+        if (node.type !== 'code') return;
+        const { lang, meta, value, position } = node as Code;
+        const language = lang ? LANGUAGES[lang.toLowerCase()] : undefined;
+        if (!language || !meta?.split(/\s+/).includes('twoslash')) return;
+
+        const { result, unexpected, unraised } = getTwoslasher(options)(value, language);
+        if (unexpected.length > 0 || unraised.length > 0) {
+          // The fence is on `position.start.line`, so code line 0 is the next one.
+          const where = (line: number) => `${path.relative(process.cwd(), file.path)}:${(position?.start.line ?? 0) + line + 1}`;
+          const errors = [
+            ...unexpected.map(error => `${where(error.line)} TS${error.code}: ${error.message}`),
+            ...unraised.map(error => `${where(error.line)} TS${error.code} is listed in \`// @errors:\` but not raised`),
+          ];
+          if (isFrozenDoc(file.path, options.siteDir ?? process.cwd())) {
+            logger.warn`Twoslash: a versioned doc no longer type-checks against the current SDK:\n- ${errors.join('\n- ')}`;
+          } else if (unexpected.length === 0 && declarationsMissing) {
+            logger.warn`Twoslash: expected type errors cannot be checked without the SDK type declarations:\n- ${errors.join('\n- ')}`;
+          } else {
+            throw new Error(`Twoslash: the type errors do not match \`// @errors:\`. Fix the example or the listed codes:\n- ${errors.join('\n- ')}`);
+          }
+        }
+        const title = /title=(["'])(.*?)\1/.exec(meta)?.[2];
+        const element: MdxJsxFlowElement = {
+          type: 'mdxJsxFlowElement',
+          name: 'TwoslashCode',
+          attributes: [
+            attribute('language', language),
+            ...(title ? [attribute('title', title)] : []),
+            attribute('data', JSON.stringify(result)),
+          ],
+          children: [],
+          position,
+        };
+        parent.children[index] = element;
+      });
+    };
+    visit(tree);
+  };
+}
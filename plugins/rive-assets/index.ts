@@ -0,0 +1,88 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { LoadContext, Plugin } from '@docusaurus/types';
+import type { RiveAssetSpec } from '../../src/components/RiveAsset/manifest';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import { RIVE_ASSETS } from '../../src/components/RiveAsset/manifest';
+
+// Every .riv file starts with these bytes; anything else is not a Rive export.
+const RIVE_MAGIC = Buffer.from('RIVE');
+
+function checkAsset(staticDir: string, name: string, file: string, magic?: Buffer): string | null {
+  const abs = path.join(staticDir, file);
+  if (!fs.existsSync(abs)) return `${name}: static/${file} does not exist`;
+  if (magic && !fs.readFileSync(abs).subarray(0, magic.length).equals(magic)) {
+    return `${name}: static/${file} is not a Rive file`;
+  }
+  return null;
+}
+
+/**
+ * Rive stores artboard, state and input names as plain UTF-8, so a name that
+ * is not in the file was renamed in the editor and would silently never match.
+ */
+function checkNames(staticDir: string, name: string, spec: RiveAssetSpec): string[] {
+  const abs = path.join(staticDir, spec.src);
+  if (!fs.existsSync(abs)) return [];
+  const bytes = fs.readFileSync(abs);
+  const names = [
+    ...(spec.artboard ? [spec.artboard] : []),
+    ...Object.values(spec.states ?? {}),
+    ...Object.values(spec.inputs ?? {}),
+  ];
+  return names
+    .filter(riveName => !bytes.includes(riveName))
+    .map(riveName => `${name}: "${riveName}" does not appear in static/${spec.src}`);
+}
+
+/**
+ * Checks the Rive manifest (src/components/RiveAsset/manifest.ts) against the
+ * static directory when the site loads, so a renamed or forgotten `.riv` file
+ * or fallback SVG, or a state renamed in the Rive editor, fails
+ * `docusaurus build` instead of showing an empty box or a dead button.
+ */
+export default function pluginRiveAssets(context: LoadContext): Plugin {
+  const staticDir = path.join(context.siteDir, 'static');
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  Object.entries(RIVE_ASSETS as Record<string, RiveAssetSpec>).forEach(([name, spec]) => {
+    const fileProblems = [
+      checkAsset(staticDir, name, spec.src, RIVE_MAGIC),
+      ...checkNames(staticDir, name, spec),
+    ].filter(problem => problem !== null);
+    // A pending asset renders its fallback, so a missing file is expected until it lands.
+    (spec.pending ? warnings : problems).push(...fileProblems);
+    const fallbackProblem = checkAsset(staticDir, name, spec.fallback);
+    if (fallbackProblem) problems.push(fallbackProblem);
+    if (spec.pending && fileProblems.length === 0) {
+      warnings.push(`${name}: static/${spec.src} exists now, remove \`pending\` from its manifest entry`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`Rive assets are missing or invalid:\n- ${problems.join('\n- ')}`);
+  }
+  if (warnings.length > 0) {
+    logger.warn`Rive assets marked as pending:\n- ${warnings.join('\n- ')}`;
+  }
+
+  return {
+    name: 'rive-assets',
+  };
+}
@@ -0,0 +1,120 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import ts from 'typescript';
+
+export type SnippetLanguage = 'ts' | 'tsx';
+
+export type CodeBlock = {
+  language: SnippetLanguage;
+  code: string;
+  /** 1-based line of the first code line in the source file. */
+  line: number;
+  /** Columns of fence indentation stripped from every code line. */
+  indent: number;
+  /** Function body rather than a module: wrapped before checking. */
+  fragment: boolean;
+};
+
+export type SnippetModule = {
+  text: string;
+  /** Code line index for each line of `text`, or -1 for wrapper lines. */
+  lines: number[];
+};
+
+const LANGUAGES: Record<string, SnippetLanguage> = {
+  ts: 'ts',
+  typescript: 'ts',
+  tsx: 'tsx',
+};
+
+const FENCE = /^( *)(`{3,}|~{3,})\s*([\w-]*)(.*)$/;
+
+/** Bare words of a fence meta string, ignoring quoted values like `title="..."`. */
+function metaFlags(meta: string): Set<string> {
+  return new Set(meta.replace(/"[^"]*"|'[^']*'/g, ' ').split(/\s+/).filter(Boolean));
+}
+
+/**
+ * Finds fenced TypeScript blocks in a Markdown or MDX source. Blocks whose
+ * meta contains `nocheck` are left out, and so are `twoslash` blocks, which
+ * plugins/remark-twoslash checks while rendering them. `fragment` marks a
+ * block that only holds statements from inside a component or async function.
+ */
+export function extractCodeBlocks(source: string): CodeBlock[] {
+  const lines = source.split(/\r?\n/);
+  const blocks: CodeBlock[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const open = FENCE.exec(lines[i]!);
+    if (!open) continue;
+    const [, indent, fence, lang, meta] = open as unknown as [string, string, string, string, string];
+    let end = i + 1;
+    while (end < lines.length && !new RegExp(`^ *${fence[0]}{${fence.length},}\\s*$`).test(lines[end]!)) end++;
+    const language = LANGUAGES[lang.toLowerCase()];
+    const flags = metaFlags(meta);
+    if (language && !flags.has('nocheck') && !flags.has('twoslash')) {
+      blocks.push({
+        language,
+        code: lines.slice(i + 1, end).map(line => line.replace(new RegExp(`^ {0,${indent.length}}`), '')).join('\n'),
+        line: i + 2,
+        indent: indent.length,
+        fragment: flags.has('fragment'),
+      });
+    }
+    i = end;
+  }
+  return blocks;
+}
+
+/**
+ * Turns a block into a module the compiler accepts on its own. Fragments
+ * keep their imports and `declare` statements at the top and have the rest
+ * wrapped in an async function, so hooks, `await` and bare JSX all
+ * type-check.
+ */
+export function toModule(block: CodeBlock): SnippetModule {
+  const codeLines = block.code.split('\n');
+  const text: string[] = [];
+  const lines: number[] = [];
+  const push = (line: string, index: number) => {
+    text.push(line);
+    lines.push(index);
+  };
+
+  if (!block.fragment) {
+    codeLines.forEach(push);
+  } else {
+    const file = ts.createSourceFile('fragment.tsx', block.code, ts.ScriptTarget.Latest, false, ts.ScriptKind.TSX);
+    const hoisted = new Set<number>();
+    const isHoisted = (statement: ts.Statement) => ts.isImportDeclaration(statement)
+      || (ts.canHaveModifiers(statement) && !!ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.DeclareKeyword));
+    file.statements.filter(isHoisted).forEach((statement) => {
+      const first = file.getLineAndCharacterOfPosition(statement.getStart(file)).line;
+      const last = file.getLineAndCharacterOfPosition(statement.getEnd()).line;
+      for (let line = first; line <= last; line++) hoisted.add(line);
+    });
+    [...hoisted].sort((a, b) => a - b).forEach(line => push(codeLines[line]!, line));
+    push('export async function Fragment() {', -1);
+    codeLines.forEach((line, index) => {
+      if (!hoisted.has(index)) push(line, index);
+    });
+    push('}', -1);
+  }
+  // Without an import or export the block would be a global script, and
+  // blocks declaring the same names would clash with each other.
+  push('export {};', -1);
+  return { text: text.join('\n'), lines };
+}
@@ -0,0 +1,167 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { LoadedContent } from '@docusaurus/plugin-content-docs';
+import type { LoadContext, Plugin, ReportingSeverity } from '@docusaurus/types';
+import type { ApiReferencePackage } from '../api-reference';
+import type { SnippetModule } from './extract';
+import fs from 'node:fs';
+import path from 'node:path';
+import logger from '@docusaurus/logger';
+import ts from 'typescript';
+import { DEFAULT_PACKAGES } from '../api-reference';
+import { extractCodeBlocks, toModule } from './extract';
+
+export type TypecheckSnippetsOptions = {
+  /** Packages snippets import, resolved to their type declarations. Defaults to the API reference ones. */
+  packages?: ApiReferencePackage[];
+  /** Severity for type errors in snippets. Defaults to `throw`, so drift fails CI. */
+  onError?: ReportingSeverity;
+};
+
+type VirtualFile = SnippetModule & {
+  /** Doc source, relative to the site directory. */
+  source: string;
+  line: number;
+  indent: number;
+};
+
+// "Cannot find module" for imports of the app's own files or third-party
+// packages; only the SDK packages are expected to resolve.
+const MISSING_MODULE_CODES = new Set([2307, 2792]);
+
+// Doc sources already checked by this process. A build runs the plugin once
+// per locale, and untranslated docs share their source with the default one.
+const checked = new Set<string>();
+
+/** Options snippets are compiled with, resolving `packages` to their declarations. */
+export function compilerOptions(packages: ApiReferencePackage[]): ts.CompilerOptions {
+  return {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+    types: ['node'],
+    paths: Object.fromEntries(packages.map(pkg => [pkg.name, [pkg.types]])),
+  };
+}
+
+/** Whether `diagnostic` only says that an import of something other than `sdkModules` did not resolve. */
+export function isUnresolvedImport(diagnostic: ts.Diagnostic, sdkModules: Set<string>): boolean {
+  if (!MISSING_MODULE_CODES.has(diagnostic.code) || !diagnostic.file || diagnostic.start === undefined) return false;
+  const specifier = diagnostic.file.text.slice(diagnostic.start + 1, diagnostic.start + diagnostic.length! - 1);
+  return !sdkModules.has(specifier);
+}
+
+/**
+ * Compiles every snippet in one program and returns its errors, mapped back
+ * to `file:line:column` in the doc they came from.
+ */
+function check(files: Map<string, VirtualFile>, packages: ApiReferencePackage[]): string[] {
+  const options = compilerOptions(packages);
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const file = files.get(fileName);
+    return file
+      ? ts.createSourceFile(fileName, file.text, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  };
+  host.fileExists = fileName => files.has(fileName) || fileExists.call(host, fileName);
+  host.readFile = fileName => files.get(fileName)?.text ?? readFile.call(host, fileName);
+
+  const program = ts.createProgram([...files.keys()], options, host);
+  const sdkModules = new Set(packages.map(pkg => pkg.name));
+  return ts.getPreEmitDiagnostics(program).flatMap((diagnostic) => {
+    const file = diagnostic.file && files.get(diagnostic.file.fileName);
+    if (!file || diagnostic.start === undefined) return [];
+    if (isUnresolvedImport(diagnostic, sdkModules)) return [];
+    const position = diagnostic.file!.getLineAndCharacterOfPosition(diagnostic.start);
+    const codeLine = file.lines[position.line] ?? -1;
+    const line = file.line + Math.max(codeLine, 0);
+    const column = codeLine === -1 ? 1 : position.character + file.indent + 1;
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n  ');
+    return [`${file.source}:${line}:${column} TS${diagnostic.code}: ${message}`];
+  });
+}
+
+/**
+ * Type-checks the TypeScript code blocks of the docs against the SDK's type
+ * declarations after the build, so an API change that breaks an example is
+ * reported with the doc and line to fix. Fence meta controls each block:
+ * `nocheck` skips it and `fragment` checks it as the body of a function.
+ *
+ * Only the current docs are checked: versioned docs are snapshots of
+ * released SDKs and are not updated when the API changes.
+ *
+ * Imports other than the SDK packages are left unresolved on purpose:
+ * examples import the reader's own components and third-party libraries.
+ */
+export default function pluginTypecheckSnippets(
+  context: LoadContext,
+  options: TypecheckSnippetsOptions,
+): Plugin {
+  const packages = (options.packages ?? DEFAULT_PACKAGES).map(pkg => ({
+    ...pkg,
+    types: path.resolve(context.siteDir, pkg.types),
+  }));
+  const severity = options.onError ?? 'throw';
+  let sources: string[] = [];
+
+  return {
+    name: 'typecheck-snippets',
+
+    async allContentLoaded({ allContent }) {
+      const docsContent = allContent['docusaurus-plugin-content-docs']?.default as LoadedContent | undefined;
+      // Released versions are frozen snapshots; only the current docs must follow the SDK.
+      sources = (docsContent?.loadedVersions ?? [])
+        .filter(version => version.versionName === 'current')
+        .flatMap(version => version.docs.map(doc => doc.source.replace(/^@site\//, '')))
+        .filter(source => !checked.has(source));
+    },
+
+    async postBuild() {
+      if (sources.length === 0) return;
+      const missing = packages.filter(pkg => !fs.existsSync(pkg.types));
+      if (missing.length > 0) {
+        logger.warn`Code blocks: type declarations not found, skipping the type check: path=${missing.map(pkg => pkg.types)}`;
+        return;
+      }
+
+      const files = new Map<string, VirtualFile>();
+      sources.forEach((source) => {
+        checked.add(source);
+        extractCodeBlocks(fs.readFileSync(path.join(context.siteDir, source), 'utf8')).forEach((block, index) => {
+          // Virtual files sit in the site directory so `react` resolves from its node_modules.
+          const fileName = path.join(context.siteDir, '.docusaurus', 'typecheck-snippets', `${source}.${index}.${block.language}`);
+          files.set(fileName, { ...toModule(block), source, line: block.line, indent: block.indent });
+        });
+      });
+
+      const errors = check(files, packages);
+      if (errors.length > 0) {
+        logger.report(severity)`Code blocks: number=${errors.length} type errors in the docs. Fix the example, or mark the fence with \`fragment\` or \`nocheck\`:\n- ${errors.join('\n- ')}`;
+      } else {
+        logger.info`Code blocks: type-checked number=${files.size} blocks from number=${sources.length} docs`;
+      }
+    },
+  };
+}
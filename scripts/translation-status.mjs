@@ -0,0 +1,105 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+// Reports which docs pages are untranslated or out of date for each
+// non-English locale. A translation is out of date when its English source
+// was committed after the translation last was.
+//
+// Usage: `npm run translation-status [-- --locale vi] [-- --check]`
+// With `--check` the script exits non-zero when a translation is out of date,
+// which suits CI. Untranslated pages never fail the check: Docusaurus serves
+// the English page for them.
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+const siteDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const docsDir = path.join(siteDir, 'docs');
+// Pages written by plugins/api-reference and plugins/event-catalog are regenerated on every build.
+const IGNORED_DIRS = ['api/generated', 'packages/core/generated'];
+
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const localeArg = args.includes('--locale') ? args[args.indexOf('--locale') + 1] : undefined;
+
+function listDocs(dir, prefix = '') {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      return IGNORED_DIRS.includes(rel) ? [] : listDocs(path.join(dir, entry.name), rel);
+    }
+    return /\.mdx?$/.test(entry.name) ? [rel] : [];
+  });
+}
+
+/** Unix time of the last commit touching `file`, or now when it has uncommitted changes. */
+function lastChanged(file) {
+  const rel = path.relative(siteDir, file);
+  const dirty = execFileSync('git', ['status', '--porcelain', '--', rel], { cwd: siteDir, encoding: 'utf8' }).trim();
+  if (dirty) return Math.floor(Date.now() / 1000);
+  const committed = execFileSync('git', ['log', '-1', '--format=%ct', '--', rel], { cwd: siteDir, encoding: 'utf8' }).trim();
+  return committed ? Number(committed) : Math.floor(Date.now() / 1000);
+}
+
+const i18nDir = path.join(siteDir, 'i18n');
+const locales = localeArg
+  ? [localeArg]
+  : fs.existsSync(i18nDir) ? fs.readdirSync(i18nDir).filter(name => name !== 'en') : [];
+if (locales.length === 0) {
+  console.log('[translation-status] No translated locales found under i18n/.');
+  process.exit(0);
+}
+
+const sources = listDocs(docsDir);
+let outdatedTotal = 0;
+
+locales.forEach((locale) => {
+  const translatedDir = path.join(i18nDir, locale, 'docusaurus-plugin-content-docs/current');
+  const missing = [];
+  const outdated = [];
+  let upToDate = 0;
+
+  sources.forEach((rel) => {
+    const translated = path.join(translatedDir, rel);
+    if (!fs.existsSync(translated)) {
+      missing.push(rel);
+    } else if (lastChanged(path.join(docsDir, rel)) > lastChanged(translated)) {
+      outdated.push(rel);
+    } else {
+      upToDate += 1;
+    }
+  });
+  outdatedTotal += outdated.length;
+
+  console.log(`\n${locale}: ${upToDate}/${sources.length} up to date, ${outdated.length} out of date, ${missing.length} untranslated`);
+  if (outdated.length > 0) {
+    console.log('\n  Out of date (English changed since the last translation commit):');
+    outdated.forEach(rel => console.log(`    - docs/${rel}`));
+  }
+  if (missing.length > 0) {
+    console.log('\n  Untranslated:');
+    missing.forEach(rel => console.log(`    - docs/${rel}`));
+  }
+});
+
+if (check && outdatedTotal > 0) {
+  console.error(`\n[translation-status] ${outdatedTotal} translation(s) are out of date.`);
+  process.exit(1);
+}
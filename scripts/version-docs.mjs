@@ -0,0 +1,69 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+// Snapshots docs/ and sidebars.ts as a new docs version when an SDK version
+// ships. Usage: `npm run version-docs [-- <version>]`. Without a version the
+// one in the SDK's packages/react/package.json is used.
+
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { fileURLToPath } from 'node:url';
+
+const siteDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const sdkDir = path.resolve(siteDir, process.env.XHUB_CHAT_SDK_DIR ?? '..');
+
+function fail(message) {
+  console.error(`[version-docs] ${message}`);
+  process.exit(1);
+}
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+const reactPackage = path.join(sdkDir, 'packages/react/package.json');
+const version = process.argv[2] ?? (fs.existsSync(reactPackage) ? readJson(reactPackage).version : undefined);
+if (!version) {
+  fail(`No version given and ${reactPackage} was not found. Pass one: npm run version-docs -- 1.4.0`);
+}
+if (!/^\d+\.\d+\.\d+(?:-[0-9A-Z.-]+)?$/i.test(version)) {
+  fail(`"${version}" is not a semver version.`);
+}
+
+const versionsFile = path.join(siteDir, 'versions.json');
+const existing = fs.existsSync(versionsFile) ? readJson(versionsFile) : [];
+if (existing.includes(version)) {
+  fail(`Docs for ${version} were already snapshotted. Delete versioned_docs/version-${version} and its versions.json entry to redo it.`);
+}
+
+// The snapshot includes docs/api/generated, so the released type
+// declarations must be there or the version would freeze a placeholder.
+const missingTypes = ['core', 'react']
+  .map(pkg => path.join(sdkDir, 'packages', pkg, 'dist/index.d.ts'))
+  .filter(file => !fs.existsSync(file));
+if (missingTypes.length > 0) {
+  fail(`Build the SDK first, type declarations are missing:\n- ${missingTypes.join('\n- ')}`);
+}
+
+const result = spawnSync('npx', ['docusaurus', 'docs:version', version], { cwd: siteDir, stdio: 'inherit' });
+if (result.status !== 0) {
+  process.exit(result.status ?? 1);
+}
+
+console.log(`[version-docs] Snapshotted docs for ${version}. Commit versions.json, versioned_docs/ and versioned_sidebars/.`);
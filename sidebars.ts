@@ -65,6 +65,7 @@ const sidebars: SidebarsConfig = {
         'api/classes',
         'api/utils',
         'api/config',
+        { type: 'autogenerated', dirName: 'api/generated' },
       ],
     },
   ],
@@ -102,9 +103,11 @@ const sidebars: SidebarsConfig = {
             {
               type: 'category',
               label: 'Guides',
+              key: 'core-guides',
               items: [
                 'packages/core/guides/storage',
                 'packages/core/guides/events',
+                'packages/core/generated/event-catalog',
                 'packages/core/guides/sync',
               ],
             },
@@ -121,6 +124,7 @@ const sidebars: SidebarsConfig = {
             {
               type: 'category',
               label: 'Guides',
+              key: 'react-guides',
               items: [
                 'packages/react/guides/provider',
                 'packages/react/guides/state-management',
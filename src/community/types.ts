@@ -0,0 +1,45 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+export type Testimonial = {
+  name: string;
+  /** Job title and company, e.g. "Mobile Lead, Acme". */
+  role: string;
+  quote: string;
+  /** Square image under `static`; initials are shown without one. */
+  avatar?: string;
+  /** Profile or company page. */
+  url?: string;
+};
+
+export type ShowcaseEntry = {
+  title: string;
+  description: string;
+  /** 16:9 screenshot under `static`. */
+  image: string;
+  /** Site path or absolute URL. */
+  url: string;
+  tags?: string[];
+};
+
+/** Global data of the community plugin, loaded from `data/community.yml`. */
+export type CommunityContent = {
+  testimonials: Testimonial[];
+  showcase: ShowcaseEntry[];
+};
+
+export const COMMUNITY_PLUGIN = 'community';
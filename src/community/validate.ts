@@ -0,0 +1,106 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { CommunityContent, ShowcaseEntry, Testimonial } from './types';
+
+type Field = {
+  key: string;
+  required: boolean;
+  type: 'string' | 'string[]';
+};
+
+const TESTIMONIAL_FIELDS: Field[] = [
+  { key: 'name', required: true, type: 'string' },
+  { key: 'role', required: true, type: 'string' },
+  { key: 'quote', required: true, type: 'string' },
+  { key: 'avatar', required: false, type: 'string' },
+  { key: 'url', required: false, type: 'string' },
+];
+
+const SHOWCASE_FIELDS: Field[] = [
+  { key: 'title', required: true, type: 'string' },
+  { key: 'description', required: true, type: 'string' },
+  { key: 'image', required: true, type: 'string' },
+  { key: 'url', required: true, type: 'string' },
+  { key: 'tags', required: false, type: 'string[]' },
+];
+
+// Long quotes unbalance the masonry columns; trim them to the point.
+export const MAX_QUOTE_LENGTH = 400;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkFields(entry: unknown, fields: Field[], where: string): string[] {
+  if (!isRecord(entry)) return [`${where}: must be an object`];
+  const problems: string[] = [];
+  const known = new Set(fields.map(field => field.key));
+  Object.keys(entry).filter(key => !known.has(key)).forEach((key) => {
+    problems.push(`${where}: unknown field "${key}"`);
+  });
+  fields.forEach(({ key, required, type }) => {
+    const value = entry[key];
+    if (value === undefined) {
+      if (required) problems.push(`${where}: "${key}" is required`);
+      return;
+    }
+    const valid = type === 'string'
+      ? typeof value === 'string' && value.trim() !== ''
+      : Array.isArray(value) && value.every(item => typeof item === 'string');
+    if (!valid) problems.push(`${where}: "${key}" must be a ${type === 'string' ? 'non-empty string' : 'list of strings'}`);
+  });
+  return problems;
+}
+
+function checkList(data: Record<string, unknown>, key: string, fields: Field[]): string[] {
+  const list = data[key];
+  if (list === undefined) return [];
+  if (!Array.isArray(list)) return [`${key}: must be a list`];
+  return list.flatMap((entry, idx) => checkFields(entry, fields, `${key}[${idx}]`));
+}
+
+/**
+ * Checks a parsed `community.yml` and returns one line per problem, empty
+ * when the file is valid. Both lists are optional.
+ */
+export function validateCommunityContent(data: unknown): string[] {
+  if (!isRecord(data)) return ['the file must contain an object with "testimonials" and "showcase" lists'];
+  const problems = [
+    ...Object.keys(data)
+      .filter(key => key !== 'testimonials' && key !== 'showcase')
+      .map(key => `unknown top-level key "${key}"`),
+    ...checkList(data, 'testimonials', TESTIMONIAL_FIELDS),
+    ...checkList(data, 'showcase', SHOWCASE_FIELDS),
+  ];
+  if (Array.isArray(data.testimonials)) {
+    (data.testimonials as Partial<Testimonial>[]).forEach((entry, idx) => {
+      if (typeof entry?.quote === 'string' && entry.quote.length > MAX_QUOTE_LENGTH) {
+        problems.push(`testimonials[${idx}]: "quote" is longer than ${MAX_QUOTE_LENGTH} characters`);
+      }
+    });
+  }
+  return problems;
+}
+
+/** Fills in the optional lists of a file that passed `validateCommunityContent`. */
+export function normalizeCommunityContent(data: Record<string, unknown>): CommunityContent {
+  return {
+    testimonials: (data.testimonials as Testimonial[] | undefined) ?? [],
+    showcase: (data.showcase as ShowcaseEntry[] | undefined) ?? [],
+  };
+}
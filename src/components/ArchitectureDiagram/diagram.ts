@@ -0,0 +1,212 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import { translate } from '@docusaurus/Translate';
+
+export type ArchitectureLayerId = 'react' | 'client' | 'events' | 'sync' | 'storage' | 'server';
+
+export type ArchitectureLayer = {
+  id: ArchitectureLayerId;
+  title: string;
+  /** Main classes, shown under the title in the box. */
+  subtitle: string;
+  responsibilities: string[];
+  links: { label: string; to: string }[];
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+
+/** Where each layer sits in the 780×400 drawing. */
+export const LAYER_BOXES: Record<ArchitectureLayerId, Box> = {
+  react: { x: 40, y: 20, width: 460, height: 60 },
+  client: { x: 40, y: 130, width: 460, height: 60 },
+  events: { x: 40, y: 250, width: 140, height: 60 },
+  sync: { x: 200, y: 250, width: 140, height: 60 },
+  storage: { x: 360, y: 250, width: 140, height: 60 },
+  server: { x: 600, y: 130, width: 160, height: 180 },
+};
+
+export type FlowEdgeId = 'send' | 'echo' | 'render' | 'request' | 'ack' | 'confirm' | 'persist';
+
+/** Data-flow arrows as SVG paths, drawn from source to target. */
+export const FLOW_EDGES: Record<FlowEdgeId, string> = {
+  send: 'M 270 80 V 130',
+  echo: 'M 110 190 V 250',
+  render: 'M 40 280 H 20 V 50 H 40',
+  request: 'M 500 160 H 600',
+  ack: 'M 680 310 V 350 H 270 V 310',
+  confirm: 'M 250 250 V 190',
+  persist: 'M 430 190 V 250',
+};
+
+export type FlowStep = {
+  edge: FlowEdgeId;
+  caption: string;
+  /** How the message looks in the UI once the step is done; `null` before it is rendered. */
+  status: 'sending' | 'sent' | null;
+};
+
+/**
+ * Sending a message, from the call in a component to the tick that confirms
+ * it. Mirrors "Sending a Message" in the architecture deep dive.
+ */
+export function getSendFlow(): FlowStep[] {
+  return [
+    {
+      edge: 'send',
+      status: null,
+      caption: translate({ id: 'architecture.flow.send', message: 'A component calls sendTextMessage()' }),
+    },
+    {
+      edge: 'echo',
+      status: null,
+      caption: translate({ id: 'architecture.flow.echo', message: 'The client adds a local echo to the room with status "sending"' }),
+    },
+    {
+      edge: 'render',
+      status: 'sending',
+      caption: translate({ id: 'architecture.flow.render', message: 'Optimistic UI: the message shows at once, marked as sending' }),
+    },
+    {
+      edge: 'request',
+      status: 'sending',
+      caption: translate({ id: 'architecture.flow.request', message: 'The event is sent to the server over HTTP' }),
+    },
+    {
+      edge: 'ack',
+      status: 'sending',
+      caption: translate({ id: 'architecture.flow.ack', message: 'The server acknowledges it in the next sync response' }),
+    },
+    {
+      edge: 'confirm',
+      status: 'sending',
+      caption: translate({ id: 'architecture.flow.confirm', message: 'The local echo takes the server event id' }),
+    },
+    {
+      edge: 'persist',
+      status: 'sending',
+      caption: translate({ id: 'architecture.flow.persist', message: 'The room is saved to IndexedDB' }),
+    },
+    {
+      edge: 'echo',
+      status: 'sending',
+      caption: translate({ id: 'architecture.flow.update', message: 'A timeline event reports the new status "sent"' }),
+    },
+    {
+      edge: 'render',
+      status: 'sent',
+      caption: translate({ id: 'architecture.flow.sent', message: 'The UI marks the message as sent' }),
+    },
+  ];
+}
+
+/**
+ * Layer titles, responsibilities and links. Everything goes through
+ * `translate()`, so add the Vietnamese text to `i18n/vi/code.json` with any
+ * change here.
+ */
+export function getArchitectureLayers(): ArchitectureLayer[] {
+  const deepDive = (anchor: string) => ({
+    label: translate({ id: 'architecture.link.deepDive', message: 'Architecture deep dive' }),
+    to: `/docs/advanced/architecture-deep-dive#${anchor}`,
+  });
+  return [
+    {
+      id: 'react',
+      title: translate({ id: 'architecture.layer.react.title', message: 'React bindings' }),
+      subtitle: 'XHubChatProvider · useRooms · useTimeline',
+      responsibilities: [
+        translate({ id: 'architecture.layer.react.provider', message: 'Shares one client with every component through XHubChatProvider' }),
+        translate({ id: 'architecture.layer.react.hooks', message: 'Hooks subscribe to client and room events and re-render on changes' }),
+        translate({ id: 'architecture.layer.react.optimistic', message: 'Renders local echoes right away, before the server answers' }),
+      ],
+      links: [
+        { label: translate({ id: 'architecture.link.hooks', message: 'React hooks' }), to: '/docs/packages/react/hooks' },
+        { label: translate({ id: 'architecture.link.provider', message: 'Provider' }), to: '/docs/packages/react/provider' },
+      ],
+    },
+    {
+      id: 'client',
+      title: translate({ id: 'architecture.layer.client.title', message: 'Core client' }),
+      subtitle: 'XHubChatClient',
+      responsibilities: [
+        translate({ id: 'architecture.layer.client.wiring', message: 'Creates the store, HTTP API and sync engine and wires them together' }),
+        translate({ id: 'architecture.layer.client.api', message: 'Exposes rooms, timelines and send methods as one API' }),
+        translate({ id: 'architecture.layer.client.lifecycle', message: 'Starts from the cache, then syncs; stops and cleans up on shutdown' }),
+      ],
+      links: [
+        { label: translate({ id: 'architecture.link.core', message: 'Core package' }), to: '/docs/packages/core' },
+        { label: translate({ id: 'architecture.link.lifecycle', message: 'Client lifecycle' }), to: '/docs/advanced/lifecycle' },
+        deepDive('1-xhubchatclient'),
+      ],
+    },
+    {
+      id: 'events',
+      title: translate({ id: 'architecture.layer.events.title', message: 'Events' }),
+      subtitle: 'TypedEventEmitter',
+      responsibilities: [
+        translate({ id: 'architecture.layer.events.typed', message: 'Typed client and room events, so listeners get the right arguments' }),
+        translate({ id: 'architecture.layer.events.changes', message: 'Reports new timeline events, sync state, typing and membership changes' }),
+        translate({ id: 'architecture.layer.events.status', message: 'Carries local echo status updates to the UI' }),
+      ],
+      links: [
+        { label: translate({ id: 'architecture.link.events', message: 'Event handling guide' }), to: '/docs/packages/core/guides/events' },
+        deepDive('4-event-system'),
+      ],
+    },
+    {
+      id: 'sync',
+      title: translate({ id: 'architecture.layer.sync.title', message: 'Sync' }),
+      subtitle: 'SyncApi · SlidingSync',
+      responsibilities: [
+        translate({ id: 'architecture.layer.sync.loop', message: 'Runs the sliding sync loop and reconnects after errors' }),
+        translate({ id: 'architecture.layer.sync.lists', message: 'Keeps room lists and room subscriptions up to date' }),
+        translate({ id: 'architecture.layer.sync.apply', message: 'Applies server responses, including acknowledgements of sent events' }),
+      ],
+      links: [
+        { label: translate({ id: 'architecture.link.sync', message: 'Sync protocol guide' }), to: '/docs/packages/core/guides/sync' },
+        deepDive('3-sync-engine'),
+      ],
+    },
+    {
+      id: 'storage',
+      title: translate({ id: 'architecture.layer.storage.title', message: 'Storage' }),
+      subtitle: 'MemoryStore · IndexedDB',
+      responsibilities: [
+        translate({ id: 'architecture.layer.storage.memory', message: 'Holds rooms, events and the sync token in memory' }),
+        translate({ id: 'architecture.layer.storage.indexeddb', message: 'Persists them to IndexedDB from a web worker' }),
+        translate({ id: 'architecture.layer.storage.restore', message: 'Restores the cache at startup, so rooms show before the first sync' }),
+      ],
+      links: [
+        { label: translate({ id: 'architecture.link.storage', message: 'Storage guide' }), to: '/docs/packages/core/guides/storage' },
+        deepDive('2-store-architecture'),
+      ],
+    },
+    {
+      id: 'server',
+      title: translate({ id: 'architecture.layer.server.title', message: 'XHub server' }),
+      subtitle: 'HTTP · sliding sync',
+      responsibilities: [
+        translate({ id: 'architecture.layer.server.send', message: 'Accepts sent events over the HTTP API' }),
+        translate({ id: 'architecture.layer.server.sync', message: 'Returns new events and acknowledgements in sync responses' }),
+      ],
+      links: [
+        { label: translate({ id: 'architecture.link.sync', message: 'Sync protocol guide' }), to: '/docs/packages/core/guides/sync' },
+        { label: translate({ id: 'architecture.link.mockServer', message: 'Testing against a mock server' }), to: '/docs/packages/core/guides/sync#testing-against-a-mock-server' },
+      ],
+    },
+  ];
+}
@@ -0,0 +1,211 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { KeyboardEvent, ReactNode } from 'react';
+import type { ArchitectureLayer, ArchitectureLayerId, FlowEdgeId } from './diagram';
+import Link from '@docusaurus/Link';
+import { translate } from '@docusaurus/Translate';
+import { useMotion } from '@site/src/utils/MotionProvider';
+import clsx from 'clsx';
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { FLOW_EDGES, getArchitectureLayers, getSendFlow, LAYER_BOXES } from './diagram';
+import styles from './styles.module.css';
+
+type ArchitectureDiagramProps = {
+  /** Layer whose details are open on load. */
+  layer?: ArchitectureLayerId;
+};
+
+// Time the message spends on each arrow, then at the arrow head.
+const STEP_MS = 900;
+const PAUSE_MS = 400;
+// How long the finished flow stays on screen before the diagram resets.
+const HOLD_MS = 2000;
+
+function onActivate(action: () => void) {
+  return (event: KeyboardEvent) => {
+    if (event.key !== 'Enter' && event.key !== ' ') return;
+    event.preventDefault();
+    action();
+  };
+}
+
+function LayerBox({ layer, selected, onSelect }: { layer: ArchitectureLayer; selected: boolean; onSelect: () => void }) {
+  const { x, y, width, height } = LAYER_BOXES[layer.id];
+  return (
+    <g
+      className={clsx(styles.layer, styles[layer.id], selected && styles.selected)}
+      role="button"
+      tabIndex={0}
+      aria-pressed={selected}
+      onClick={onSelect}
+      onKeyDown={onActivate(onSelect)}
+    >
+      <rect x={x} y={y} width={width} height={height} rx={8} />
+      <text x={x + width / 2} y={y + 26} className={styles.layerTitle}>{layer.title}</text>
+      <text x={x + width / 2} y={y + 44} className={styles.layerSubtitle}>{layer.subtitle}</text>
+    </g>
+  );
+}
+
+function LayerPanel({ layer, onClose }: { layer: ArchitectureLayer; onClose: () => void }) {
+  return (
+    <div className={styles.panel}>
+      <div className={styles.panelHeader}>
+        <span className={styles.panelTitle}>{layer.title}</span>
+        <button
+          type="button"
+          className="clean-btn"
+          aria-label={translate({ id: 'architecture.panel.close', message: 'Close', description: 'Closes the layer details of the architecture diagram' })}
+          onClick={onClose}
+        >
+          ×
+        </button>
+      </div>
+      <ul>
+        {layer.responsibilities.map(item => <li key={item}>{item}</li>)}
+      </ul>
+      <div className={styles.panelLinks}>
+        {layer.links.map(link => <Link key={link.to} to={link.to}>{`${link.label} →`}</Link>)}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The SDK's layers as an SVG. Clicking a layer opens its responsibilities
+ * and the guides about it; hovering or focusing a data-flow arrow follows a
+ * message from the send call through optimistic UI to the server's
+ * acknowledgement. With reduced motion the message jumps from step to step.
+ */
+export default function ArchitectureDiagram({ layer }: ArchitectureDiagramProps): ReactNode {
+  const layers = useMemo(() => getArchitectureLayers(), []);
+  const flow = useMemo(() => getSendFlow(), []);
+  const { reduceMotion } = useMotion();
+  const [selected, setSelected] = useState<ArchitectureLayerId | null>(layer ?? null);
+  // Index into `flow` while a message is on its way, `flow.length` once it arrived.
+  const [step, setStep] = useState<number | null>(null);
+  const [point, setPoint] = useState<{ x: number; y: number } | null>(null);
+  const pathRefs = useRef<Partial<Record<FlowEdgeId, SVGPathElement | null>>>({});
+  // Marker ids must be unique per diagram and valid in `url(#...)`.
+  const markerId = `arch-${useId().replace(/\W/g, '')}`;
+
+  useEffect(() => {
+    if (step === null) return;
+    if (step >= flow.length) {
+      setPoint(null);
+      const timer = setTimeout(() => setStep(null), HOLD_MS);
+      return () => clearTimeout(timer);
+    }
+    const path = pathRefs.current[flow[step].edge];
+    if (!path) return;
+    const length = path.getTotalLength();
+    const moveTo = (t: number) => {
+      const { x, y } = path.getPointAtLength(length * t);
+      setPoint({ x, y });
+    };
+    let frame: number | null = null;
+    if (reduceMotion) {
+      moveTo(1);
+    } else {
+      const start = performance.now();
+      const tick = (now: number) => {
+        const t = Math.min((now - start) / STEP_MS, 1);
+        moveTo(t);
+        frame = t < 1 ? requestAnimationFrame(tick) : null;
+      };
+      frame = requestAnimationFrame(tick);
+    }
+    const timer = setTimeout(() => setStep(step + 1), STEP_MS + PAUSE_MS);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [step, flow, reduceMotion]);
+
+  const play = () => {
+    if (step === null) setStep(0);
+  };
+  const toggle = (id: ArchitectureLayerId) => setSelected(prev => (prev === id ? null : id));
+
+  const activeEdge = step !== null ? flow[step]?.edge : undefined;
+  const status = step !== null ? flow[step - 1]?.status ?? null : null;
+  const caption = step === null
+    ? translate({
+        id: 'architecture.hint',
+        message: 'Click a layer for its responsibilities. Hover or focus an arrow to follow a message being sent.',
+        description: 'The caption of the architecture diagram before a message is sent',
+      })
+    : `${Math.min(step + 1, flow.length)}/${flow.length} · ${flow[Math.min(step, flow.length - 1)].caption}`;
+  const playLabel = translate({ id: 'architecture.flow.play', message: 'Follow a message being sent', description: 'Accessible name of the data-flow arrows of the architecture diagram' });
+  const current = layers.find(item => item.id === selected);
+  const react = LAYER_BOXES.react;
+
+  return (
+    <figure className={styles.diagram}>
+      <svg
+        viewBox="0 0 780 400"
+        className={styles.svg}
+        role="group"
+        aria-label={translate({ id: 'architecture.label', message: 'XHub Chat architecture', description: 'Accessible name of the architecture diagram' })}
+      >
+        <defs>
+          {['', '-active'].map(suffix => (
+            <marker key={suffix} id={markerId + suffix} viewBox="0 0 10 10" refX={9} refY={5} markerWidth={7} markerHeight={7} orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" className={suffix ? styles.arrowHeadActive : styles.arrowHead} />
+            </marker>
+          ))}
+        </defs>
+        {(Object.entries(FLOW_EDGES) as [FlowEdgeId, string][]).map(([edge, d]) => (
+          <g
+            key={edge}
+            className={clsx(styles.edge, activeEdge === edge && styles.active)}
+            role="button"
+            tabIndex={0}
+            aria-label={`${playLabel}: ${flow.find(item => item.edge === edge)?.caption}`}
+            onMouseEnter={play}
+            onFocus={play}
+            onClick={play}
+            onKeyDown={onActivate(play)}
+          >
+            <path d={d} className={styles.edgeHit} />
+            <path
+              d={d}
+              ref={(el) => {
+                pathRefs.current[edge] = el;
+              }}
+              className={styles.edgeLine}
+              markerEnd={`url(#${markerId}${activeEdge === edge ? '-active' : ''})`}
+            />
+          </g>
+        ))}
+        {layers.map(item => (
+          <LayerBox key={item.id} layer={item} selected={item.id === selected} onSelect={() => toggle(item.id)} />
+        ))}
+        {status && (
+          <text x={react.x + react.width - 12} y={react.y + react.height + 18} className={clsx(styles.bubble, styles[status])}>
+            {status === 'sending'
+              ? translate({ id: 'architecture.message.sending', message: '“On my way!” · sending…', description: 'The example message of the architecture diagram before the server confirmed it' })
+              : translate({ id: 'architecture.message.sent', message: '“On my way!” · sent ✓', description: 'The example message of the architecture diagram once the server confirmed it' })}
+          </text>
+        )}
+        {point && <circle cx={point.x} cy={point.y} r={7} className={styles.message} />}
+      </svg>
+      <figcaption className={styles.caption} aria-live="polite">{caption}</figcaption>
+      {current && <LayerPanel layer={current} onClose={() => setSelected(null)} />}
+    </figure>
+  );
+}
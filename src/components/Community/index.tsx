@@ -0,0 +1,112 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { CommunityContent, ShowcaseEntry, Testimonial } from '@site/src/community';
+import type { ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import Translate from '@docusaurus/Translate';
+import useBaseUrl from '@docusaurus/useBaseUrl';
+import { usePluginData } from '@docusaurus/useGlobalData';
+import { COMMUNITY_PLUGIN } from '@site/src/community';
+import Heading from '@theme/Heading';
+import clsx from 'clsx';
+import styles from './styles.module.css';
+
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]!.toUpperCase()).join('');
+}
+
+function ShowcaseCard({ title, description, image, url, tags }: ShowcaseEntry): ReactNode {
+  const imageUrl = useBaseUrl(`/${image}`);
+  return (
+    <Link to={url} className={styles.showcaseCard}>
+      <img className={styles.showcaseImage} src={imageUrl} alt="" loading="lazy" width={640} height={360} />
+      <div className={styles.showcaseBody}>
+        <Heading as="h3" className={styles.showcaseTitle}>{title}</Heading>
+        <p className={styles.text}>{description}</p>
+        {tags && tags.length > 0 && (
+          <ul className={styles.tags}>
+            {tags.map(tag => <li key={tag} className="badge badge--secondary">{tag}</li>)}
+          </ul>
+        )}
+      </div>
+    </Link>
+  );
+}
+
+function TestimonialCard({ name, role, quote, avatar, url }: Testimonial): ReactNode {
+  const avatarUrl = useBaseUrl(avatar ? `/${avatar}` : '');
+  const author = url ? <Link to={url}>{name}</Link> : name;
+  return (
+    <figure className={styles.testimonial}>
+      <blockquote className={styles.quote}>{quote}</blockquote>
+      <figcaption className={styles.author}>
+        {avatar
+          ? <img className={styles.avatar} src={avatarUrl} alt="" loading="lazy" width={48} height={48} />
+          : <span className={clsx(styles.avatar, styles.initials)} aria-hidden="true">{initials(name)}</span>}
+        <span>
+          <span className={styles.name}>{author}</span>
+          <span className={styles.role}>{role}</span>
+        </span>
+      </figcaption>
+    </figure>
+  );
+}
+
+/**
+ * "Built with XHubChat" showcase and testimonials from `data/community.yml`,
+ * loaded and validated by plugins/community. Either part is left out while
+ * its list is empty, and the whole section when both are.
+ */
+export default function Community(): ReactNode {
+  const { testimonials, showcase } = usePluginData(COMMUNITY_PLUGIN) as CommunityContent;
+  if (testimonials.length === 0 && showcase.length === 0) return null;
+
+  return (
+    <section className={styles.community}>
+      <div className="container">
+        {showcase.length > 0 && (
+          <div className={styles.part}>
+            <div className={clsx('text--center', styles.intro)}>
+              <Heading as="h2" className={styles.heading}>
+                <Translate id="homepage.community.showcase.heading">Built with XHub Chat</Translate>
+              </Heading>
+              <p className={styles.text}>
+                <Translate id="homepage.community.showcase.subheading">Example apps you can read, run and copy from</Translate>
+              </p>
+            </div>
+            <div className={styles.showcase}>
+              {showcase.map(entry => <ShowcaseCard key={entry.url} {...entry} />)}
+            </div>
+          </div>
+        )}
+        {testimonials.length > 0 && (
+          <div className={styles.part}>
+            <div className={clsx('text--center', styles.intro)}>
+              <Heading as="h2" className={styles.heading}>
+                <Translate id="homepage.community.testimonials.heading">Loved by Developers</Translate>
+              </Heading>
+            </div>
+            <div className={styles.masonry}>
+              {testimonials.map(entry => <TestimonialCard key={entry.name} {...entry} />)}
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
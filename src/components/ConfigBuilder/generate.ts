@@ -0,0 +1,190 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ConfigField, ConfigOwner, ConfigValue, ConfigValues } from '@site/src/configBuilder';
+import { CONFIG_FIELDS, CONFIG_GROUPS, isConfigFieldVisible } from '@site/src/configBuilder';
+
+export type ConfigTarget = 'core' | 'react' | 'nextjs';
+
+export type ConfigSnippet = {
+  /** File name shown above the code, if the code belongs in a specific file. */
+  title?: string;
+  language: string;
+  code: string;
+};
+
+/** Option values as code, nested by property path. */
+type OptionTree = Map<string, string | OptionTree>;
+
+const NEXT_URL_ENV = 'NEXT_PUBLIC_CHAT_URL';
+
+function literal(value: ConfigValue): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'` : String(value);
+}
+
+/** Code for one field, or null when the option is left out. */
+function expressionOf(field: ConfigField, values: ConfigValues, target: ConfigTarget): string | null {
+  const value = values[field.id];
+  if (field.id === 'authMode') return value === 'provider' ? 'refreshAccessToken' : null;
+  if (field.id === 'logLevel') return value === 'sdk' ? null : 'log';
+  if (field.id === 'baseUrl' && target === 'nextjs') return `process.env.${NEXT_URL_ENV}!`;
+  if (typeof value === 'string' && value.trim() === '') return null;
+  if (field.sdkDefault !== undefined && value === field.sdkDefault) return null;
+  return literal(typeof value === 'string' ? value.trim() : value);
+}
+
+function optionTree(owner: ConfigOwner, values: ConfigValues, target: ConfigTarget): OptionTree {
+  const tree: OptionTree = new Map();
+  // Derived options, such as the token provider, follow the plain options of their group.
+  const fields = CONFIG_FIELDS
+    .filter(field => field.option?.owner === owner && isConfigFieldVisible(field, values))
+    .sort((a, b) => CONFIG_GROUPS.indexOf(a.group) - CONFIG_GROUPS.indexOf(b.group)
+      || Number(!!a.option!.derived) - Number(!!b.option!.derived));
+  fields.forEach((field) => {
+    const expression = expressionOf(field, values, target);
+    if (expression === null) return;
+    const path = field.option!.path;
+    let node = tree;
+    path.slice(0, -1).forEach((key) => {
+      if (!(node.get(key) instanceof Map)) node.set(key, new Map());
+      node = node.get(key) as OptionTree;
+    });
+    node.set(path.at(-1)!, expression);
+  });
+  return tree;
+}
+
+function renderTree(tree: OptionTree, indent = ''): string {
+  if (tree.size === 0) return '{}';
+  const inner = `${indent}  `;
+  const lines = [...tree].map(([key, value]) => `${inner}${key}: ${typeof value === 'string' ? value : renderTree(value, inner)},`);
+  return ['{', ...lines, `${indent}}`].join('\n');
+}
+
+function loggerSetup(values: ConfigValues): { imports: string[]; lines: string[] } {
+  if (values.logLevel === 'sdk') return { imports: [], lines: [] };
+  return { imports: [`import log from 'loglevel';`], lines: [`log.setLevel(${literal(values.logLevel)});`, ''] };
+}
+
+function tokenProvider(values: ConfigValues): string[] {
+  if (values.authMode !== 'provider') return [];
+  return [
+    '// Called by the client when the access token expires.',
+    'async function refreshAccessToken(refreshToken: string) {',
+    `  const response = await fetch(${literal(String(values.refreshUrl).trim())}, {`,
+    `    method: 'POST',`,
+    `    headers: { 'Content-Type': 'application/json' },`,
+    '    body: JSON.stringify({ refreshToken }),',
+    '  });',
+    '  if (!response.ok) {',
+    '    throw new Error(`Token refresh failed with ${response.status}`);',
+    '  }',
+    '  return response.json() as Promise<{ accessToken: string; refreshToken?: string }>;',
+    '}',
+    '',
+  ];
+}
+
+function coreSnippets(values: ConfigValues): ConfigSnippet[] {
+  const logger = loggerSetup(values);
+  const start = optionTree('IStartClientOpts', values, 'core');
+  const code = [
+    `import { createClient } from '@xhub-chat/core';`,
+    ...logger.imports,
+    '',
+    ...logger.lines,
+    ...tokenProvider(values),
+    `const client = createClient(${renderTree(optionTree('ICreateClientOpts', values, 'core'))});`,
+    '',
+    `await client.startClient(${start.size > 0 ? renderTree(start) : ''});`,
+  ];
+  return [{ language: 'ts', code: code.join('\n') }];
+}
+
+/** Module-level options and the provider element, shared by the React and Next.js output. */
+function providerParts(values: ConfigValues, target: ConfigTarget): { declarations: string[]; element: string[] } {
+  const start = optionTree('IStartClientOpts', values, target);
+  const props = start.size > 0 ? 'clientOptions={clientOptions} startOptions={startOptions}' : 'clientOptions={clientOptions}';
+  return {
+    declarations: [
+      ...loggerSetup(values).lines,
+      ...tokenProvider(values),
+      `const clientOptions: ICreateClientOpts = ${renderTree(optionTree('ICreateClientOpts', values, target))};`,
+      '',
+      ...(start.size > 0 ? [`const startOptions: IStartClientOpts = ${renderTree(start)};`, ''] : []),
+    ],
+    element: [
+      '  return (',
+      `    <XHubChatProvider ${props}>`,
+      '      {children}',
+      '    </XHubChatProvider>',
+      '  );',
+    ],
+  };
+}
+
+function typeImports(values: ConfigValues, target: ConfigTarget): string {
+  const types = optionTree('IStartClientOpts', values, target).size > 0 ? 'ICreateClientOpts, IStartClientOpts' : 'ICreateClientOpts';
+  return `import type { ${types} } from '@xhub-chat/react';`;
+}
+
+function reactSnippets(values: ConfigValues): ConfigSnippet[] {
+  const { declarations, element } = providerParts(values, 'react');
+  const code = [
+    typeImports(values, 'react'),
+    `import type { ReactNode } from 'react';`,
+    `import { XHubChatProvider } from '@xhub-chat/react';`,
+    ...loggerSetup(values).imports,
+    '',
+    ...declarations,
+    'export function ChatProvider({ children }: { children: ReactNode }) {',
+    ...element,
+    '}',
+  ];
+  return [{ title: 'src/ChatProvider.tsx', language: 'tsx', code: code.join('\n') }];
+}
+
+/** Same layout as the providers file in the Next.js guide. */
+function nextSnippets(values: ConfigValues): ConfigSnippet[] {
+  const { declarations, element } = providerParts(values, 'nextjs');
+  const code = [
+    `'use client';`,
+    '',
+    typeImports(values, 'nextjs'),
+    `import { XHubChatProvider } from '@xhub-chat/react';`,
+    ...loggerSetup(values).imports,
+    '',
+    ...declarations,
+    'export function Providers({ children }: { children: React.ReactNode }) {',
+    ...element,
+    '}',
+  ];
+  return [
+    { title: 'app/providers.tsx', language: 'tsx', code: code.join('\n') },
+    { title: '.env.local', language: 'bash', code: `${NEXT_URL_ENV}=${String(values.baseUrl).trim()}` },
+  ];
+}
+
+export function generateConfigCode(values: ConfigValues, target: ConfigTarget): ConfigSnippet[] {
+  switch (target) {
+    case 'core':
+      return coreSnippets(values);
+    case 'react':
+      return reactSnippets(values);
+    case 'nextjs':
+      return nextSnippets(values);
+  }
+}
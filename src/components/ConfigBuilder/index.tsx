@@ -0,0 +1,258 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ConfigField, ConfigGroup, ConfigOptionReference, ConfigReferenceData, ConfigValue, ConfigValues } from '@site/src/configBuilder';
+import type { ReactNode } from 'react';
+import type { ConfigTarget } from './generate';
+import type { ConfigIssue } from './rules';
+import Link from '@docusaurus/Link';
+import Translate from '@docusaurus/Translate';
+import { usePluginData } from '@docusaurus/useGlobalData';
+import {
+  API_REFERENCE_PLUGIN,
+  CONFIG_FIELDS,
+  CONFIG_GROUPS,
+  configGroupAnchor,
+  configOptionKey,
+  initialConfigValues,
+  isConfigFieldVisible,
+} from '@site/src/configBuilder';
+import CodeBlock from '@theme/CodeBlock';
+import Heading from '@theme/Heading';
+import TabItem from '@theme/TabItem';
+import Tabs from '@theme/Tabs';
+import clsx from 'clsx';
+import { useMemo, useState } from 'react';
+import { generateConfigCode } from './generate';
+import { configChoiceLabel, configFieldHelp, configFieldLabel, configGroupLabel } from './labels';
+import { validateConfig } from './rules';
+import styles from './styles.module.css';
+
+type FieldProps = {
+  field: ConfigField;
+  value: ConfigValue;
+  issue?: ConfigIssue;
+  reference?: ConfigOptionReference;
+  onChange: (value: ConfigValue) => void;
+};
+
+const TARGETS: { value: ConfigTarget; label: string }[] = [
+  { value: 'core', label: '@xhub-chat/core' },
+  { value: 'react', label: 'XHubChatProvider' },
+  { value: 'nextjs', label: 'Next.js' },
+];
+
+function Control({ field, value, issue, onChange }: FieldProps) {
+  const id = `config-field-${field.id}`;
+  const common = {
+    'id': id,
+    'aria-invalid': issue?.severity === 'error',
+    'aria-describedby': `${id}-help`,
+  };
+  switch (field.control.kind) {
+    case 'text':
+      return (
+        <input
+          {...common}
+          type="text"
+          className={styles.input}
+          value={String(value)}
+          placeholder={field.control.placeholder}
+          spellCheck={false}
+          onChange={e => onChange(e.target.value)}
+        />
+      );
+    case 'number':
+      return (
+        <input
+          {...common}
+          type="number"
+          className={styles.input}
+          value={Number.isFinite(value) ? Number(value) : ''}
+          min={field.control.min}
+          max={field.control.max}
+          step={field.control.step ?? 1}
+          onChange={e => onChange(e.target.value === '' ? Number.NaN : Number(e.target.value))}
+        />
+      );
+    case 'select':
+      return (
+        <select {...common} className={styles.input} value={String(value)} onChange={e => onChange(e.target.value)}>
+          {field.control.choices.map(choice => (
+            <option key={choice} value={choice}>{configChoiceLabel(field.id, choice)}</option>
+          ))}
+        </select>
+      );
+    case 'toggle':
+      return <input {...common} type="checkbox" checked={value === true} onChange={e => onChange(e.target.checked)} />;
+  }
+}
+
+function Field(props: FieldProps) {
+  const { field, issue, reference } = props;
+  const help = configFieldHelp(field.id);
+  const toggle = field.control.kind === 'toggle';
+  return (
+    <div className={clsx(styles.field, toggle && styles.toggle)}>
+      {toggle && <Control {...props} />}
+      <label htmlFor={`config-field-${field.id}`} className={styles.label}>
+        {configFieldLabel(field.id)}
+        {field.required && <span className={styles.required} aria-hidden>*</span>}
+      </label>
+      {!toggle && <Control {...props} />}
+      <div id={`config-field-${field.id}-help`} className={styles.help}>
+        {issue && <p className={clsx(styles.issue, styles[issue.severity])}>{issue.message}</p>}
+        {help && <p>{help}</p>}
+        {field.option && !field.option.derived && (
+          <p className={styles.sdk}>
+            <code>{configOptionKey(field.option)}</code>
+            {reference && (
+              <>
+                {': '}
+                <code>{reference.type}</code>
+                {reference.description && <> — {reference.description}</>}
+                {' '}
+                <Link to={reference.href}>
+                  <Translate id="configBuilder.reference" description="Link from a configuration builder field to the generated API page">Reference</Translate>
+                </Link>
+              </>
+            )}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function GroupFields({ group, values, issues, options, onChange }: {
+  group: ConfigGroup;
+  values: ConfigValues;
+  issues: ConfigIssue[];
+  options: ConfigReferenceData['options'];
+  onChange: (field: ConfigField, value: ConfigValue) => void;
+}) {
+  const anchor = configGroupAnchor(group);
+  return (
+    <fieldset className={styles.group} aria-labelledby={anchor}>
+      <Heading as="h3" id={anchor} className={styles.groupHeading}>{configGroupLabel(group)}</Heading>
+      <div className={styles.fields}>
+        {CONFIG_FIELDS.filter(field => field.group === group && isConfigFieldVisible(field, values)).map(field => (
+          <Field
+            key={field.id}
+            field={field}
+            value={values[field.id]}
+            issue={issues.find(issue => issue.field === field.id)}
+            reference={field.option ? options[configOptionKey(field.option)] : undefined}
+            onChange={value => onChange(field, value)}
+          />
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+function Output({ values, target }: { values: ConfigValues; target: ConfigTarget }) {
+  if (target !== 'core' && values.environment === 'node') {
+    return (
+      <p className={styles.note}>
+        <Translate id="configBuilder.nodeReact" description="Shown instead of React output when the builder targets Node.js">
+          React output needs a browser. Switch "Runs in" to Browser, or use the @xhub-chat/core output.
+        </Translate>
+      </p>
+    );
+  }
+  return (
+    <>
+      {generateConfigCode(values, target).map(snippet => (
+        <CodeBlock key={snippet.title ?? snippet.language} language={snippet.language} title={snippet.title}>
+          {snippet.code}
+        </CodeBlock>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Form for the options of `createClient` and `XHubChatProvider` that checks
+ * combinations and writes the matching setup code. Fields come from
+ * src/configBuilder/schema.ts, which the api-reference plugin checks against
+ * the SDK's types; when the declarations were found, each field also shows
+ * the type and doc comment of its option.
+ */
+export default function ConfigBuilder(): ReactNode {
+  const [values, setValues] = useState<ConfigValues>(initialConfigValues);
+  const { options } = usePluginData(API_REFERENCE_PLUGIN) as ConfigReferenceData;
+  const issues = useMemo(() => validateConfig(values), [values]);
+  const errors = issues.filter(issue => issue.severity === 'error');
+  const warnings = issues.filter(issue => issue.severity === 'warning');
+
+  const update = (field: ConfigField, value: ConfigValue) => setValues(current => ({ ...current, [field.id]: value }));
+
+  return (
+    <div className={styles.builder}>
+      <form className={styles.form} onSubmit={e => e.preventDefault()} noValidate>
+        {CONFIG_GROUPS.map(group => (
+          <GroupFields key={group} group={group} values={values} issues={issues} options={options} onChange={update} />
+        ))}
+        <button type="button" className="button button--secondary button--sm" onClick={() => setValues(initialConfigValues())}>
+          <Translate id="configBuilder.reset" description="Button that restores the configuration builder defaults">Reset to defaults</Translate>
+        </button>
+      </form>
+
+      <section className={styles.output} aria-live="polite">
+        <Heading as="h3" id="config-output">
+          <Translate id="configBuilder.output" description="Heading of the generated code in the configuration builder">Generated code</Translate>
+        </Heading>
+        {errors.length > 0
+          ? (
+              <div className="alert alert--danger">
+                <Translate
+                  id="configBuilder.errors"
+                  description="Shown instead of the generated code while the configuration has errors"
+                  values={{ count: errors.length }}
+                >
+                  {'Fix {count} problem(s) above to get the code:'}
+                </Translate>
+                <ul className={styles.issueList}>
+                  {errors.map(issue => <li key={issue.field}><strong>{configFieldLabel(issue.field)}:</strong> {issue.message}</li>)}
+                </ul>
+              </div>
+            )
+          : (
+              <Tabs groupId="config-builder-target" className={styles.tabs}>
+                {TARGETS.map(target => (
+                  <TabItem key={target.value} value={target.value} label={target.label}>
+                    <Output values={values} target={target.value} />
+                  </TabItem>
+                ))}
+              </Tabs>
+            )}
+        {warnings.length > 0 && (
+          <div className="alert alert--warning">
+            <ul className={styles.issueList}>
+              {warnings.map(issue => <li key={issue.field}><strong>{configFieldLabel(issue.field)}:</strong> {issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+        <p className={styles.note}>
+          <Translate id="configBuilder.secrets" description="Note under the generated code of the configuration builder">
+            Tokens typed here stay in your browser. Load real tokens from your auth flow instead of committing them.
+          </Translate>
+        </p>
+      </section>
+    </div>
+  );
+}
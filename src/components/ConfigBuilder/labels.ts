@@ -0,0 +1,119 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ConfigFieldId, ConfigGroup } from '@site/src/configBuilder';
+import { translate } from '@docusaurus/Translate';
+
+export function configGroupLabel(group: ConfigGroup): string {
+  switch (group) {
+    case 'connection':
+      return translate({ id: 'configBuilder.group.connection', message: 'Connection', description: 'Configuration builder section for the server and user' });
+    case 'auth':
+      return translate({ id: 'configBuilder.group.auth', message: 'Authentication', description: 'Configuration builder section for access tokens' });
+    case 'storage':
+      return translate({ id: 'configBuilder.group.storage', message: 'Storage', description: 'Configuration builder section for the store backend' });
+    case 'sync':
+      return translate({ id: 'configBuilder.group.sync', message: 'Sync', description: 'Configuration builder section for sync options' });
+    case 'logging':
+      return translate({ id: 'configBuilder.group.logging', message: 'Logging', description: 'Configuration builder section for the logger' });
+  }
+}
+
+export function configFieldLabel(id: ConfigFieldId): string {
+  switch (id) {
+    case 'environment':
+      return translate({ id: 'configBuilder.field.environment', message: 'Runs in', description: 'Configuration builder field: browser or Node.js' });
+    case 'baseUrl':
+      return translate({ id: 'configBuilder.field.baseUrl', message: 'Server URL', description: 'Configuration builder field: baseUrl' });
+    case 'userId':
+      return translate({ id: 'configBuilder.field.userId', message: 'User ID', description: 'Configuration builder field: userId' });
+    case 'deviceId':
+      return translate({ id: 'configBuilder.field.deviceId', message: 'Device ID', description: 'Configuration builder field: deviceId' });
+    case 'authMode':
+      return translate({ id: 'configBuilder.field.authMode', message: 'Access token', description: 'Configuration builder field: static token or token provider' });
+    case 'accessToken':
+      return translate({ id: 'configBuilder.field.accessToken', message: 'Initial access token', description: 'Configuration builder field: accessToken' });
+    case 'refreshToken':
+      return translate({ id: 'configBuilder.field.refreshToken', message: 'Refresh token', description: 'Configuration builder field: refreshToken' });
+    case 'refreshUrl':
+      return translate({ id: 'configBuilder.field.refreshUrl', message: 'Token refresh endpoint', description: 'Configuration builder field: URL the token provider calls' });
+    case 'storeType':
+      return translate({ id: 'configBuilder.field.storeType', message: 'Backend', description: 'Configuration builder field: store.type' });
+    case 'storeDbName':
+      return translate({ id: 'configBuilder.field.storeDbName', message: 'Database name', description: 'Configuration builder field: store.dbName' });
+    case 'storeWorkerApi':
+      return translate({ id: 'configBuilder.field.storeWorkerApi', message: 'Run IndexedDB in a Web Worker', description: 'Configuration builder field: store.workerApi' });
+    case 'syncEnabled':
+      return translate({ id: 'configBuilder.field.syncEnabled', message: 'Sync with the server', description: 'Configuration builder field: sync.enabled' });
+    case 'slidingSync':
+      return translate({ id: 'configBuilder.field.slidingSync', message: 'Use sliding sync', description: 'Configuration builder field: sync.slidingSync' });
+    case 'initialSyncLimit':
+      return translate({ id: 'configBuilder.field.initialSyncLimit', message: 'Initial sync limit', description: 'Configuration builder field: initialSyncLimit' });
+    case 'pollTimeout':
+      return translate({ id: 'configBuilder.field.pollTimeout', message: 'Poll timeout (ms)', description: 'Configuration builder field: pollTimeout' });
+    case 'lazyLoadMembers':
+      return translate({ id: 'configBuilder.field.lazyLoadMembers', message: 'Lazy-load room members', description: 'Configuration builder field: lazyLoadMembers' });
+    case 'logLevel':
+      return translate({ id: 'configBuilder.field.logLevel', message: 'Log level', description: 'Configuration builder field: logger level' });
+  }
+}
+
+/** Short help shown under a field; the SDK's own doc comment is shown next to it when known. */
+export function configFieldHelp(id: ConfigFieldId): string | null {
+  switch (id) {
+    case 'environment':
+      return translate({ id: 'configBuilder.help.environment', message: 'Node.js has no IndexedDB and no React output.', description: 'Help of the configuration builder environment field' });
+    case 'userId':
+      return translate({ id: 'configBuilder.help.userId', message: 'Full user ID, such as @alice:example.com.', description: 'Help of the configuration builder userId field' });
+    case 'deviceId':
+      return translate({ id: 'configBuilder.help.deviceId', message: 'Leave empty to let the server assign one.', description: 'Help of the configuration builder deviceId field' });
+    case 'authMode':
+      return translate({ id: 'configBuilder.help.authMode', message: 'A token provider fetches a new access token from your backend when the current one expires.', description: 'Help of the configuration builder auth mode field' });
+    case 'refreshUrl':
+      return translate({ id: 'configBuilder.help.refreshUrl', message: 'Your backend endpoint that exchanges the refresh token for a new access token.', description: 'Help of the configuration builder refresh URL field' });
+    case 'storeType':
+      return translate({ id: 'configBuilder.help.storeType', message: 'IndexedDB keeps rooms between visits, so they show before the first sync finishes.', description: 'Help of the configuration builder store type field' });
+    case 'initialSyncLimit':
+      return translate({ id: 'configBuilder.help.initialSyncLimit', message: 'Events loaded per room by the first sync.', description: 'Help of the configuration builder initialSyncLimit field' });
+    case 'pollTimeout':
+      return translate({ id: 'configBuilder.help.pollTimeout', message: 'How long the server may hold a sync request open when nothing changes.', description: 'Help of the configuration builder pollTimeout field' });
+    case 'logLevel':
+      return translate({ id: 'configBuilder.help.logLevel', message: 'Anything other than the SDK default passes a loglevel logger.', description: 'Help of the configuration builder log level field' });
+    default:
+      return null;
+  }
+}
+
+export function configChoiceLabel(id: ConfigFieldId, choice: string): string {
+  switch (`${id}:${choice}`) {
+    case 'environment:browser':
+      return translate({ id: 'configBuilder.choice.browser', message: 'Browser', description: 'Configuration builder choice: runs in the browser' });
+    case 'environment:node':
+      return translate({ id: 'configBuilder.choice.node', message: 'Node.js', description: 'Configuration builder choice: runs in Node.js' });
+    case 'authMode:static':
+      return translate({ id: 'configBuilder.choice.static', message: 'Static token', description: 'Configuration builder choice: fixed access token' });
+    case 'authMode:provider':
+      return translate({ id: 'configBuilder.choice.provider', message: 'Token provider', description: 'Configuration builder choice: refresh tokens with a function' });
+    case 'storeType:indexeddb':
+      return 'IndexedDB';
+    case 'storeType:memory':
+      return translate({ id: 'configBuilder.choice.memory', message: 'In memory', description: 'Configuration builder choice: in-memory store' });
+    case 'logLevel:sdk':
+      return translate({ id: 'configBuilder.choice.sdkLogger', message: 'SDK default', description: 'Configuration builder choice: do not pass a logger' });
+    default:
+      return choice;
+  }
+}
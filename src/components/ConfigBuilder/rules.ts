@@ -0,0 +1,123 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ConfigFieldId, ConfigValues } from '@site/src/configBuilder';
+import { translate } from '@docusaurus/Translate';
+import { CONFIG_FIELDS, isConfigFieldVisible } from '@site/src/configBuilder';
+
+export type ConfigIssue = {
+  field: ConfigFieldId;
+  /** Errors block the generated code, warnings are shown next to it. */
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+const USER_ID = /^@[^:\s]+:[^\s]+$/;
+const DB_NAME = /^[\w.-]+$/;
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+// Below this the client re-polls so often that idle tabs keep the server busy.
+const MIN_POLL_TIMEOUT = 5000;
+
+function parseUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function fieldChecks(values: ConfigValues): ConfigIssue[] {
+  return CONFIG_FIELDS.filter(field => isConfigFieldVisible(field, values)).flatMap((field): ConfigIssue[] => {
+    const value = values[field.id];
+    if (field.required && String(value).trim() === '') {
+      return [{
+        field: field.id,
+        severity: 'error',
+        message: translate({ id: 'configBuilder.rule.required', message: 'This option is required.', description: 'Configuration builder error for an empty required field' }),
+      }];
+    }
+    if (field.control.kind === 'number' && (typeof value !== 'number' || !Number.isFinite(value) || value < field.control.min || value > field.control.max)) {
+      return [{
+        field: field.id,
+        severity: 'error',
+        message: translate(
+          { id: 'configBuilder.rule.range', message: 'Enter a number from {min} to {max}.', description: 'Configuration builder error for a number out of range' },
+          { min: field.control.min, max: field.control.max },
+        ),
+      }];
+    }
+    return [];
+  });
+}
+
+/** Checks single values and combinations the SDK would reject or handle badly. */
+export function validateConfig(values: ConfigValues): ConfigIssue[] {
+  const issues = fieldChecks(values);
+  const add = (field: ConfigFieldId, severity: ConfigIssue['severity'], message: string) => {
+    if (!issues.some(issue => issue.field === field && issue.severity === 'error')) issues.push({ field, severity, message });
+  };
+  const node = values.environment === 'node';
+
+  const url = parseUrl(String(values.baseUrl));
+  if (String(values.baseUrl).trim() !== '' && (!url || !['http:', 'https:'].includes(url.protocol))) {
+    add('baseUrl', 'error', translate({ id: 'configBuilder.rule.baseUrl', message: 'Use an absolute http:// or https:// URL.', description: 'Configuration builder error for an invalid server URL' }));
+  } else if (url?.protocol === 'http:' && !LOCAL_HOSTS.includes(url.hostname)) {
+    add('baseUrl', 'warning', translate({ id: 'configBuilder.rule.insecure', message: 'Access tokens would be sent unencrypted. Use https:// outside local development.', description: 'Configuration builder warning for a plain http server URL' }));
+  }
+  if (String(values.userId).trim() !== '' && !USER_ID.test(String(values.userId))) {
+    add('userId', 'error', translate({ id: 'configBuilder.rule.userId', message: 'User IDs look like @localpart:server.', description: 'Configuration builder error for a malformed user ID' }));
+  }
+  if (/\s/.test(String(values.deviceId))) {
+    add('deviceId', 'error', translate({ id: 'configBuilder.rule.deviceId', message: 'Device IDs cannot contain spaces.', description: 'Configuration builder error for a device ID with whitespace' }));
+  }
+
+  if (values.authMode === 'provider') {
+    if (String(values.refreshToken).trim() === '') {
+      add('refreshToken', 'error', translate({ id: 'configBuilder.rule.refreshToken', message: 'A token provider needs a refresh token to exchange.', description: 'Configuration builder error for a token provider without refresh token' }));
+    }
+    if (String(values.refreshUrl).trim() === '') {
+      add('refreshUrl', 'error', translate({ id: 'configBuilder.rule.refreshUrl', message: 'Enter the endpoint the token provider calls.', description: 'Configuration builder error for a token provider without endpoint' }));
+    } else if (node && !parseUrl(String(values.refreshUrl))) {
+      add('refreshUrl', 'error', translate({ id: 'configBuilder.rule.refreshUrlNode', message: 'Node.js has no page origin to resolve a relative URL against. Use an absolute URL.', description: 'Configuration builder error for a relative refresh URL in Node.js' }));
+    }
+  }
+
+  if (values.storeType === 'indexeddb') {
+    if (node) {
+      add('storeType', 'error', translate({ id: 'configBuilder.rule.indexeddbNode', message: 'IndexedDB does not exist in Node.js. Use the in-memory store.', description: 'Configuration builder error for IndexedDB in Node.js' }));
+    }
+    if (!DB_NAME.test(String(values.storeDbName))) {
+      add('storeDbName', 'error', translate({ id: 'configBuilder.rule.dbName', message: 'Use letters, digits, dots, dashes and underscores.', description: 'Configuration builder error for an invalid database name' }));
+    }
+  }
+
+  if (!values.syncEnabled && values.storeType === 'memory') {
+    add('syncEnabled', 'error', translate({ id: 'configBuilder.rule.noData', message: 'With sync off and an in-memory store the client never has any rooms. Turn sync on or use IndexedDB.', description: 'Configuration builder error for sync off with the memory store' }));
+  } else if (!values.syncEnabled) {
+    add('syncEnabled', 'warning', translate({ id: 'configBuilder.rule.offline', message: 'The client only shows what IndexedDB cached in earlier sessions.', description: 'Configuration builder warning for sync off' }));
+  }
+  if (values.syncEnabled && typeof values.pollTimeout === 'number' && values.pollTimeout > 0 && values.pollTimeout < MIN_POLL_TIMEOUT) {
+    add('pollTimeout', 'warning', translate(
+      { id: 'configBuilder.rule.pollTimeout', message: 'Timeouts under {min} ms make idle clients poll the server constantly.', description: 'Configuration builder warning for a short poll timeout' },
+      { min: MIN_POLL_TIMEOUT },
+    ));
+  }
+
+  if (values.logLevel === 'debug' || values.logLevel === 'trace') {
+    add('logLevel', 'warning', translate({ id: 'configBuilder.rule.verbose', message: 'Verbose logs include room and event IDs. Lower the level for production builds.', description: 'Configuration builder warning for debug or trace logging' }));
+  }
+  return issues;
+}
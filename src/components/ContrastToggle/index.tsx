@@ -0,0 +1,70 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ContrastMode } from '@site/src/utils/contrast';
+import type { ReactNode } from 'react';
+import { translate } from '@docusaurus/Translate';
+import { applyContrastMode, readContrastMode } from '@site/src/utils/contrast';
+import clsx from 'clsx';
+import { useEffect, useState } from 'react';
+import styles from './styles.module.css';
+
+type ContrastToggleProps = {
+  className?: string;
+};
+
+/** Navbar button that switches the high-contrast palette on top of light or dark mode. */
+export default function ContrastToggle({ className }: ContrastToggleProps): ReactNode {
+  // The init script may already have applied a mode before hydration.
+  const [mode, setMode] = useState<ContrastMode>('normal');
+  useEffect(() => setMode(readContrastMode()), []);
+
+  const high = mode === 'high';
+  const label = high
+    ? translate({
+        id: 'theme.contrast.disable',
+        message: 'Switch to normal contrast',
+        description: 'The label of the navbar button that returns to normal contrast',
+      })
+    : translate({
+        id: 'theme.contrast.enable',
+        message: 'Switch to high contrast',
+        description: 'The label of the navbar button that enables high contrast',
+      });
+
+  return (
+    <div className={clsx(styles.toggle, className)}>
+      <button
+        type="button"
+        className={clsx('clean-btn', styles.button)}
+        aria-pressed={high}
+        aria-label={label}
+        title={label}
+        onClick={() => {
+          const next = high ? 'normal' : 'high';
+          applyContrastMode(next);
+          setMode(next);
+        }}
+      >
+        <svg viewBox="0 0 24 24" width={22} height={22} aria-hidden="true">
+          <circle cx="12" cy="12" r="9" fill="none" stroke="currentColor" strokeWidth="2" />
+          <path d="M12 3a9 9 0 0 1 0 18z" fill="currentColor" />
+        </svg>
+      </button>
+    </div>
+  );
+}
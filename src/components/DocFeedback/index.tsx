@@ -0,0 +1,179 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { FeedbackRating } from '@site/src/feedback';
+import type { ReactNode } from 'react';
+import Translate, { translate } from '@docusaurus/Translate';
+import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
+import { useDoc } from '@docusaurus/plugin-content-docs/client';
+import { loadSentRating, MAX_COMMENT_LENGTH, saveSentRating, useFeedbackAdapter } from '@site/src/feedback';
+import { useReadingProgress } from '@site/src/reading';
+import clsx from 'clsx';
+import { useEffect, useId, useState } from 'react';
+import styles from './styles.module.css';
+
+type Status = 'idle' | 'sending' | 'sent' | 'failed';
+
+// TOC entries hold heading HTML; submissions and the report want plain text.
+function plainText(html: string): string {
+  return html.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').trim();
+}
+
+function RatingButton({ rating, selected, onClick }: { rating: FeedbackRating; selected: boolean; onClick: () => void }) {
+  const label = rating === 'up'
+    ? translate({ id: 'theme.docs.feedback.yes', message: 'Yes', description: 'The thumbs up answer to "Was this page helpful?"' })
+    : translate({ id: 'theme.docs.feedback.no', message: 'No', description: 'The thumbs down answer to "Was this page helpful?"' });
+  return (
+    <button
+      type="button"
+      className={clsx('button button--sm', selected ? 'button--primary' : 'button--secondary', styles.rating)}
+      aria-pressed={selected}
+      onClick={onClick}
+    >
+      <span aria-hidden>{rating === 'up' ? '👍' : '👎'}</span>
+      {' '}
+      {label}
+    </button>
+  );
+}
+
+/**
+ * "Was this page helpful?" at the bottom of every doc. A rating opens an
+ * optional comment and the section it is about, preset to the heading the
+ * reader was on; nothing is sent until they confirm. Renders nothing when
+ * the site collects no feedback.
+ */
+export default function DocFeedback(): ReactNode {
+  const adapter = useFeedbackAdapter();
+  const { metadata, toc } = useDoc();
+  const { i18n } = useDocusaurusContext();
+  const progress = useReadingProgress();
+  const [rating, setRating] = useState<FeedbackRating | null>(null);
+  const [comment, setComment] = useState('');
+  const [section, setSection] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const id = useId();
+
+  useEffect(() => {
+    const sent = loadSentRating(metadata.permalink);
+    setRating(sent);
+    setStatus(sent ? 'sent' : 'idle');
+    setComment('');
+  }, [metadata.permalink]);
+
+  if (!adapter) return null;
+
+  const choose = (next: FeedbackRating) => {
+    if (rating === null) setSection(progress?.current ?? '');
+    setRating(next);
+  };
+
+  const submit = async () => {
+    if (!rating) return;
+    const heading = toc.find(item => item.id === section);
+    setStatus('sending');
+    try {
+      await adapter.submit({
+        page: metadata.permalink,
+        title: metadata.title,
+        rating,
+        ...(comment.trim() ? { comment: comment.trim() } : {}),
+        section: heading?.id ?? null,
+        ...(heading ? { sectionTitle: plainText(heading.value) } : {}),
+        locale: i18n.currentLocale,
+        submittedAt: new Date().toISOString(),
+      });
+      saveSentRating(metadata.permalink, rating);
+      setStatus('sent');
+    } catch {
+      setStatus('failed');
+    }
+  };
+
+  if (status === 'sent') {
+    return (
+      <section className={styles.feedback} aria-live="polite">
+        <p className={styles.thanks}>
+          <Translate id="theme.docs.feedback.thanks" description="Shown after the reader sent feedback about a doc">
+            Thanks for your feedback!
+          </Translate>
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className={styles.feedback} aria-labelledby={`${id}-question`}>
+      <div className={styles.question}>
+        <h2 id={`${id}-question`} className={styles.title}>
+          <Translate id="theme.docs.feedback.question" description="The question at the bottom of every doc">
+            Was this page helpful?
+          </Translate>
+        </h2>
+        <RatingButton rating="up" selected={rating === 'up'} onClick={() => choose('up')} />
+        <RatingButton rating="down" selected={rating === 'down'} onClick={() => choose('down')} />
+      </div>
+      {rating && (
+        <form
+          className={styles.form}
+          onSubmit={(event) => {
+            event.preventDefault();
+            void submit();
+          }}
+        >
+          {toc.length > 0 && (
+            <label className={styles.field}>
+              <Translate id="theme.docs.feedback.section" description="Label of the section picker in the doc feedback form">
+                Which part?
+              </Translate>
+              <select value={section} onChange={event => setSection(event.target.value)}>
+                <option value="">
+                  {translate({ id: 'theme.docs.feedback.wholePage', message: 'The whole page', description: 'Section picker option for feedback about the entire doc' })}
+                </option>
+                {toc.map(item => <option key={item.id} value={item.id}>{plainText(item.value)}</option>)}
+              </select>
+            </label>
+          )}
+          <label className={styles.field}>
+            {rating === 'up'
+              ? translate({ id: 'theme.docs.feedback.comment.up', message: 'What helped? (optional)', description: 'Label of the comment box after a thumbs up' })
+              : translate({ id: 'theme.docs.feedback.comment.down', message: 'What was missing or wrong? (optional)', description: 'Label of the comment box after a thumbs down' })}
+            <textarea
+              value={comment}
+              maxLength={MAX_COMMENT_LENGTH}
+              rows={3}
+              onChange={event => setComment(event.target.value)}
+            />
+          </label>
+          <div className={styles.actions}>
+            <button type="submit" className="button button--primary button--sm" disabled={status === 'sending'}>
+              <Translate id="theme.docs.feedback.send" description="The button that sends doc feedback">
+                Send feedback
+              </Translate>
+            </button>
+            {status === 'failed' && (
+              <span role="alert" className={styles.error}>
+                <Translate id="theme.docs.feedback.failed" description="Shown when doc feedback could not be sent">
+                  Your feedback could not be sent. Please try again.
+                </Translate>
+              </span>
+            )}
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
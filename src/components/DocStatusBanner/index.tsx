@@ -0,0 +1,56 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import { useDoc } from '@docusaurus/plugin-content-docs/client';
+import { DOC_STATUS_ROUTE, useDocStatus } from '@site/src/docStatus';
+import Admonition from '@theme/Admonition';
+
+/** Tells readers a stub page does not cover its topic yet. Renders nothing on other docs. */
+export default function DocStatusBanner(): ReactNode {
+  const { metadata } = useDoc();
+  const status = useDocStatus(metadata.permalink);
+  if (status !== 'stub') return null;
+
+  return (
+    <Admonition
+      type="info"
+      title={translate({
+        id: 'theme.docs.status.banner.title',
+        message: 'Coming soon',
+        description: 'The title of the banner on doc pages that only hold a placeholder',
+      })}
+    >
+      <Translate
+        id="theme.docs.status.banner.body"
+        description="The banner on doc pages that only hold a placeholder"
+        values={{
+          statusLink: (
+            <Link to={`/${DOC_STATUS_ROUTE}`}>
+              <Translate id="theme.docs.status.banner.link" description="The link to the documentation status page in the stub banner">
+                documentation status
+              </Translate>
+            </Link>
+          ),
+        }}
+      >
+        {'This page is a placeholder and does not cover its topic yet. See the {statusLink} for what is documented so far.'}
+      </Translate>
+    </Admonition>
+  );
+}
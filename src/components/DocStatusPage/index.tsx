@@ -0,0 +1,120 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { DocCoverageEntry, DocStatus, DocStatusReport, SidebarCoverage } from '@site/src/docStatus';
+import type { ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import { DOC_STATUSES, docStatusLabel } from '@site/src/docStatus';
+import Heading from '@theme/Heading';
+import Layout from '@theme/Layout';
+import clsx from 'clsx';
+import styles from './styles.module.css';
+
+type DocStatusPageProps = {
+  report: DocStatusReport;
+};
+
+function countByStatus(docs: DocCoverageEntry[]): Record<DocStatus, number> {
+  return Object.fromEntries(DOC_STATUSES.map(status => [status, docs.filter(doc => doc.status === status).length])) as Record<DocStatus, number>;
+}
+
+/** Stacked bar of stub, draft and complete pages, with the complete share as text. */
+function CoverageBar({ docs }: { docs: DocCoverageEntry[] }) {
+  const counts = countByStatus(docs);
+  return (
+    <div className={styles.coverage}>
+      <div className={styles.bar} aria-hidden>
+        {DOC_STATUSES.map(status => counts[status] > 0 && (
+          <span key={status} className={styles[status]} style={{ flexGrow: counts[status] }} />
+        ))}
+      </div>
+      <span className={styles.summary}>
+        <Translate
+          id="docStatus.coverage"
+          description="Coverage of a sidebar on the documentation status page"
+          values={{ complete: counts.complete, total: docs.length, percent: docs.length ? Math.round((counts.complete / docs.length) * 100) : 0 }}
+        >
+          {'{complete} of {total} pages complete ({percent}%)'}
+        </Translate>
+      </span>
+    </div>
+  );
+}
+
+function sidebarLabel(sidebar: SidebarCoverage): string {
+  return sidebar.sidebarId
+    ? sidebar.label
+    : translate({ id: 'docStatus.orphans', message: 'Not in a sidebar', description: 'Heading of the docs no sidebar lists on the documentation status page' });
+}
+
+function SidebarSection({ sidebar }: { sidebar: SidebarCoverage }) {
+  return (
+    <section className={styles.section}>
+      <Heading as="h2">{sidebarLabel(sidebar)}</Heading>
+      <CoverageBar docs={sidebar.docs} />
+      <table className={styles.table}>
+        <thead>
+          <tr>
+            <th><Translate id="docStatus.table.page" description="Page column header on the documentation status page">Page</Translate></th>
+            <th><Translate id="docStatus.table.status" description="Status column header on the documentation status page">Status</Translate></th>
+            <th><Translate id="docStatus.table.words" description="Word count column header on the documentation status page">Words</Translate></th>
+          </tr>
+        </thead>
+        <tbody>
+          {sidebar.docs.map(doc => (
+            <tr key={doc.id}>
+              <td><Link to={doc.permalink}>{doc.title}</Link></td>
+              <td><span className={clsx(styles.badge, styles[doc.status])}>{docStatusLabel(doc.status)}</span></td>
+              <td>{doc.words}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+/**
+ * Generated by plugins/doc-status: how much of each sidebar of the current
+ * docs is written, so unfinished pages can be tracked down.
+ */
+export default function DocStatusPage({ report }: DocStatusPageProps): ReactNode {
+  const title = translate({ id: 'docStatus.title', message: 'Documentation Status', description: 'The title of the documentation status page' });
+  const allDocs = [...new Map(report.sidebars.flatMap(sidebar => sidebar.docs).map(doc => [doc.id, doc])).values()];
+
+  return (
+    <Layout
+      title={title}
+      description={translate({
+        id: 'docStatus.description',
+        message: 'Which documentation pages are complete, drafts or stubs',
+        description: 'The SEO description of the documentation status page',
+      })}
+    >
+      <main className={clsx('container', styles.page)}>
+        <Heading as="h1">{title}</Heading>
+        <p>
+          <Translate id="docStatus.intro" description="The introduction of the documentation status page">
+            Pages are stubs when they only hold a placeholder and drafts when they cover part of their topic. Stubs show a banner, and sidebars badge both.
+          </Translate>
+        </p>
+        <CoverageBar docs={allDocs} />
+        {report.sidebars.map(sidebar => <SidebarSection key={sidebar.sidebarId} sidebar={sidebar} />)}
+      </main>
+    </Layout>
+  );
+}
@@ -0,0 +1,239 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { CatalogEvent, EventCatalogData, EventDomain, EventPayloadType } from '@site/src/eventCatalog';
+import type { ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import { EVENT_DOMAINS } from '@site/src/eventCatalog';
+import CodeBlock from '@theme/CodeBlock';
+import Heading from '@theme/Heading';
+import TabItem from '@theme/TabItem';
+import Tabs from '@theme/Tabs';
+import clsx from 'clsx';
+import { useDeferredValue, useMemo, useState } from 'react';
+import styles from './styles.module.css';
+
+type EventCatalogProps = {
+  /** Written by plugins/event-catalog next to the generated page. */
+  catalog: EventCatalogData;
+};
+
+function domainLabel(domain: EventDomain): string {
+  switch (domain) {
+    case 'rooms':
+      return translate({ id: 'eventCatalog.domain.rooms', message: 'Rooms', description: 'Event catalog filter for room events' });
+    case 'timeline':
+      return translate({ id: 'eventCatalog.domain.timeline', message: 'Timeline', description: 'Event catalog filter for timeline events' });
+    case 'posts':
+      return translate({ id: 'eventCatalog.domain.posts', message: 'Posts', description: 'Event catalog filter for post events' });
+    case 'sync':
+      return translate({ id: 'eventCatalog.domain.sync', message: 'Sync', description: 'Event catalog filter for sync events' });
+    case 'storage':
+      return translate({ id: 'eventCatalog.domain.storage', message: 'Storage', description: 'Event catalog filter for storage events' });
+  }
+}
+
+/** Text the search box matches against. */
+function searchText(event: CatalogEvent): string {
+  return [event.name, event.member, event.map, event.description, event.listener, ...event.parameters.map(param => param.name)]
+    .join(' ')
+    .toLowerCase();
+}
+
+/** Doc comments may hold `code`; everything else is shown as plain text. */
+function Prose({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(`[^`]*`)/).map((part, idx) => (idx % 2 === 1 ? <code key={idx}>{part.slice(1, -1)}</code> : part))}
+    </>
+  );
+}
+
+/**
+ * Declarations such as a whole class are long and shared by many events, so
+ * they are only highlighted once expanded.
+ */
+function PayloadType({ type }: { type: EventPayloadType }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <details className={styles.type} onToggle={e => setOpen(e.currentTarget.open)}>
+      <summary><code>{type.name}</code></summary>
+      {open && <CodeBlock language="ts">{type.declaration}</CodeBlock>}
+      <Link to={type.href}>
+        <Translate id="eventCatalog.apiLink" description="Link from an expanded payload type to its API reference page" values={{ name: type.name }}>
+          {'{name} in the API reference'}
+        </Translate>
+      </Link>
+    </details>
+  );
+}
+
+function Payload({ event }: { event: CatalogEvent }) {
+  if (event.parameters.length === 0) {
+    return (
+      <p className={styles.muted}>
+        <Translate id="eventCatalog.noPayload" description="Shown for events whose listener takes no arguments">
+          Listeners are called without arguments.
+        </Translate>
+      </p>
+    );
+  }
+  return (
+    <>
+      <table className={styles.params}>
+        <thead>
+          <tr>
+            <th><Translate id="eventCatalog.table.argument" description="Argument column of the event payload table">Argument</Translate></th>
+            <th><Translate id="eventCatalog.table.type" description="Type column of the event payload table">Type</Translate></th>
+            <th><Translate id="eventCatalog.table.description" description="Description column of the event payload table">Description</Translate></th>
+          </tr>
+        </thead>
+        <tbody>
+          {event.parameters.map(param => (
+            <tr key={param.name}>
+              <td><code>{param.optional ? `${param.name}?` : param.name}</code></td>
+              <td><code>{param.type}</code></td>
+              <td>{param.description ? <Prose text={param.description} /> : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {event.payloadTypes.map(type => <PayloadType key={type.name} type={type} />)}
+    </>
+  );
+}
+
+function EventEntry({ event }: { event: CatalogEvent }) {
+  return (
+    <article className={styles.event} data-search-sections>
+      <Heading as="h3" id={event.anchor} className={styles.eventHeading}>
+        <code>{event.member}</code>
+      </Heading>
+      <div className={styles.meta} data-search-exclude>
+        <span className={clsx(styles.domain, styles[event.domain])}>{domainLabel(event.domain)}</span>
+        <span>
+          <Translate id="eventCatalog.name" description="Label before the string value an event is emitted with">Name:</Translate>
+          {' '}
+          <code>{`'${event.name}'`}</code>
+        </span>
+        <span>
+          <Translate id="eventCatalog.map" description="Label before the typed event map an event is declared in">Declared in:</Translate>
+          {' '}
+          <code>{event.map}</code>
+        </span>
+      </div>
+      {event.deprecated !== undefined && (
+        <div className="alert alert--warning">
+          <strong><Translate id="eventCatalog.deprecated" description="Label of a deprecated event">Deprecated.</Translate></strong>
+          {' '}
+          {event.deprecated && <Prose text={event.deprecated} />}
+        </div>
+      )}
+      <p>
+        {event.description
+          ? <Prose text={event.description} />
+          : <span className={styles.muted}><Translate id="eventCatalog.undocumented" description="Shown when an event has no doc comment">The SDK does not document when this event fires yet.</Translate></span>}
+      </p>
+      <CodeBlock language="ts" title={translate({ id: 'eventCatalog.listener', message: 'Listener', description: 'Title of the listener type code block' })}>
+        {event.listener}
+      </CodeBlock>
+      <Payload event={event} />
+      <Tabs groupId="event-catalog-example">
+        <TabItem value="core" label="@xhub-chat/core">
+          <CodeBlock language="ts">{event.examples.core}</CodeBlock>
+        </TabItem>
+        <TabItem value="react" label="@xhub-chat/react">
+          <CodeBlock language="tsx">{event.examples.react}</CodeBlock>
+        </TabItem>
+      </Tabs>
+    </article>
+  );
+}
+
+/**
+ * Searchable list of the events in the generated catalog, filterable by
+ * domain. Every entry is rendered on the server so the site search indexes
+ * them; filters only hide entries in the browser.
+ */
+export default function EventCatalog({ catalog }: EventCatalogProps): ReactNode {
+  const [query, setQuery] = useState('');
+  const [domain, setDomain] = useState<EventDomain | null>(null);
+  const deferredQuery = useDeferredValue(query.trim().toLowerCase());
+
+  const indexed = useMemo(() => catalog.events.map(event => ({ event, text: searchText(event) })), [catalog]);
+  const counts = useMemo(
+    () => Object.fromEntries(EVENT_DOMAINS.map(d => [d, catalog.events.filter(event => event.domain === d).length])) as Record<EventDomain, number>,
+    [catalog],
+  );
+  const words = deferredQuery.split(/\s+/).filter(Boolean);
+  const visible = indexed
+    .filter(({ event, text }) => (!domain || event.domain === domain) && words.every(word => text.includes(word)))
+    .map(({ event }) => event);
+
+  return (
+    <div className={styles.catalog} data-search-sections>
+      <div className={styles.controls} data-search-exclude>
+        <input
+          type="search"
+          className={styles.search}
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder={translate({ id: 'eventCatalog.search', message: 'Search events, payloads and descriptions', description: 'Placeholder of the event catalog search box' })}
+          aria-label={translate({ id: 'eventCatalog.searchLabel', message: 'Search events', description: 'Accessible label of the event catalog search box' })}
+        />
+        <div className={styles.domains} role="group" aria-label={translate({ id: 'eventCatalog.domains', message: 'Filter by domain', description: 'Accessible label of the event catalog domain filters' })}>
+          <button type="button" className={clsx(styles.chip, !domain && styles.active)} aria-pressed={!domain} onClick={() => setDomain(null)}>
+            <Translate id="eventCatalog.domain.all" description="Event catalog filter that shows every domain">All</Translate>
+            {' '}
+            <span className={styles.count}>{catalog.events.length}</span>
+          </button>
+          {EVENT_DOMAINS.map(d => (
+            <button
+              key={d}
+              type="button"
+              className={clsx(styles.chip, domain === d && styles.active)}
+              aria-pressed={domain === d}
+              disabled={counts[d] === 0}
+              onClick={() => setDomain(domain === d ? null : d)}
+            >
+              {domainLabel(d)}
+              {' '}
+              <span className={styles.count}>{counts[d]}</span>
+            </button>
+          ))}
+        </div>
+        <p className={styles.summary} aria-live="polite">
+          <Translate
+            id="eventCatalog.summary"
+            description="How many events of the catalog match the search and filter"
+            values={{ count: visible.length, total: catalog.events.length }}
+          >
+            {'Showing {count} of {total} events'}
+          </Translate>
+        </p>
+      </div>
+      {visible.length === 0 && (
+        <p className={styles.muted} data-search-exclude>
+          <Translate id="eventCatalog.empty" description="Shown when no event matches the search and filter">
+            No events match. Try another search or domain.
+          </Translate>
+        </p>
+      )}
+      {visible.map(event => <EventEntry key={event.anchor} event={event} />)}
+    </div>
+  );
+}
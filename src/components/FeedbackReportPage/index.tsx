@@ -0,0 +1,134 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { FeedbackPageSummary, FeedbackReport } from '@site/src/feedback';
+import type { ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import Translate, { translate } from '@docusaurus/Translate';
+import Heading from '@theme/Heading';
+import Layout from '@theme/Layout';
+import clsx from 'clsx';
+import styles from './styles.module.css';
+
+type FeedbackReportPageProps = {
+  report: FeedbackReport;
+};
+
+function helpfulPercent({ up, down }: { up: number; down: number }): number {
+  return up + down > 0 ? Math.round((up / (up + down)) * 100) : 0;
+}
+
+function Votes({ up, down }: { up: number; down: number }) {
+  return (
+    <span className={styles.votes}>
+      <span className={styles.up}>{`👍 ${up}`}</span>
+      <span className={styles.down}>{`👎 ${down}`}</span>
+      <span className={styles.percent}>{`${helpfulPercent({ up, down })}%`}</span>
+    </span>
+  );
+}
+
+function PageSection({ page }: { page: FeedbackPageSummary }) {
+  return (
+    <section className={styles.section}>
+      <div className={styles.pageHeader}>
+        <Heading as="h2" className={styles.pageTitle}>
+          {page.removed ? page.title : <Link to={page.page}>{page.title}</Link>}
+        </Heading>
+        <Votes up={page.up} down={page.down} />
+      </div>
+      {page.removed && (
+        <p className={styles.meta}>
+          <Translate id="feedback.report.removed" description="Note on the feedback report for pages that no longer exist" values={{ page: <code>{page.page}</code> }}>
+            {'{page} no longer exists.'}
+          </Translate>
+        </p>
+      )}
+      {page.sections.length > 0 && (
+        <ul className={styles.sections}>
+          {page.sections.map(section => (
+            <li key={section.section}>
+              {page.removed ? section.title : <Link to={`${page.page}#${section.section}`}>{section.title}</Link>}
+              <Votes up={section.up} down={section.down} />
+            </li>
+          ))}
+        </ul>
+      )}
+      {page.comments.length > 0 && (
+        <ul className={styles.comments}>
+          {page.comments.map(comment => (
+            <li key={`${comment.submittedAt}-${comment.comment}`} className={clsx(styles.comment, styles[comment.rating])}>
+              <blockquote>{comment.comment}</blockquote>
+              <span className={styles.meta}>
+                {[comment.sectionTitle, comment.locale, comment.submittedAt.slice(0, 10)].filter(Boolean).join(' · ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Generated by plugins/feedback from the exported data file: how helpful
+ * readers found each doc, which sections they pointed at, and what they said.
+ */
+export default function FeedbackReportPage({ report }: FeedbackReportPageProps): ReactNode {
+  const title = translate({ id: 'feedback.report.title', message: 'Docs Feedback', description: 'The title of the feedback report page' });
+  const totals = report.pages.reduce((sum, page) => ({ up: sum.up + page.up, down: sum.down + page.down }), { up: 0, down: 0 });
+
+  return (
+    <Layout
+      title={title}
+      description={translate({
+        id: 'feedback.report.description',
+        message: 'What readers said about each documentation page',
+        description: 'The SEO description of the feedback report page',
+      })}
+    >
+      <main className={clsx('container', styles.page)}>
+        <Heading as="h1">{title}</Heading>
+        {report.pages.length === 0
+          ? (
+              <p>
+                <Translate
+                  id="feedback.report.empty"
+                  description="Shown on the feedback report page when there is no exported data"
+                  values={{ file: <code>{report.source ?? 'data/feedback.json'}</code> }}
+                >
+                  {'No feedback yet. Export the submissions to {file} and rebuild the site.'}
+                </Translate>
+              </p>
+            )
+          : (
+              <>
+                <p className={styles.summary}>
+                  <Translate
+                    id="feedback.report.summary"
+                    description="Totals at the top of the feedback report page"
+                    values={{ count: totals.up + totals.down, pages: report.pages.length, percent: helpfulPercent(totals) }}
+                  >
+                    {'{count} answers on {pages} pages, {percent}% helpful. Pages with the most thumbs down come first.'}
+                  </Translate>
+                </p>
+                {report.pages.map(page => <PageSection key={page.page} page={page} />)}
+              </>
+            )}
+      </main>
+    </Layout>
+  );
+}
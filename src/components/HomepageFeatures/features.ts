@@ -0,0 +1,165 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import { translate } from '@docusaurus/Translate';
+
+export type FeatureAccent = 'indigo' | 'pink' | 'sky' | 'green' | 'sunset' | 'teal';
+
+export type FeatureSnippet = {
+  /** Prism language name. */
+  language: 'ts' | 'tsx';
+  /** A few lines at most; the card grows to fit, it does not scroll. */
+  code: string;
+};
+
+export type Feature = {
+  /** Stable key, also used in the card's element id. */
+  id: string;
+  emoji: string;
+  title: string;
+  /** Plain text; `backticked` words render as inline code. */
+  description: string;
+  /** Gradient family for the icon and title; see `styles.module.css`. */
+  accent: FeatureAccent;
+  /** Docs page the card opens, as a site path with optional `#anchor`. */
+  to: string;
+  /** Shown when the card is hovered or focused. */
+  snippet?: FeatureSnippet;
+};
+
+/**
+ * The homepage feature cards. Titles and descriptions go through
+ * `translate()`, so add the Vietnamese text to `i18n/vi/code.json` with a
+ * new card; the component needs no changes.
+ */
+export function getFeatures(): Feature[] {
+  return [
+    {
+      id: 'fast',
+      emoji: '⚡',
+      accent: 'indigo',
+      title: translate({ id: 'homepage.features.fast.title', message: '⚡ Lightning Fast' }),
+      description: translate({
+        id: 'homepage.features.fast.description',
+        message: 'Built with performance in mind. IndexedDB caching, optimistic UI updates, and efficient state management ensure smooth real-time messaging.',
+      }),
+      to: '/docs/advanced/architecture-deep-dive#performance-optimizations',
+      snippet: {
+        language: 'tsx',
+        code: `const { sendTextMessage } = useTimeline({ roomId });
+
+// Rendered at once as 'sending', confirmed in the background.
+await sendTextMessage('On my way!');`,
+      },
+    },
+    {
+      id: 'typeSafe',
+      emoji: '🎯',
+      accent: 'pink',
+      title: translate({ id: 'homepage.features.typeSafe.title', message: '🎯 Type-Safe' }),
+      description: translate({
+        id: 'homepage.features.typeSafe.description',
+        message: 'Fully typed with TypeScript. Get autocomplete, type checking, and IntelliSense support throughout your development workflow.',
+      }),
+      to: '/docs/api/reference',
+      snippet: {
+        language: 'ts',
+        code: `client.on(RoomEvent.Timeline, (event, room) => {
+  // event: XHubChatEvent, room: Room
+  console.log(room.name, event.getContent().body);
+});`,
+      },
+    },
+    {
+      id: 'reactReady',
+      emoji: '🪝',
+      accent: 'sky',
+      title: translate({ id: 'homepage.features.reactReady.title', message: '🪝 React Ready' }),
+      description: translate(
+        {
+          id: 'homepage.features.reactReady.description',
+          message: 'Powerful React hooks like {useTimeline}, {useRooms}, and {useXHubChat} make integration seamless and intuitive.',
+        },
+        { useTimeline: '`useTimeline`', useRooms: '`useRooms`', useXHubChat: '`useXHubChat`' },
+      ),
+      to: '/docs/packages/react/hooks',
+      snippet: {
+        language: 'tsx',
+        code: `function Inbox() {
+  const { rooms } = useRooms();
+  const { events } = useTimeline({ roomId: rooms[0]?.roomId });
+  return <Timeline events={events} />;
+}`,
+      },
+    },
+    {
+      id: 'offline',
+      emoji: '💾',
+      accent: 'green',
+      title: translate({ id: 'homepage.features.offline.title', message: '💾 Offline First' }),
+      description: translate({
+        id: 'homepage.features.offline.description',
+        message: 'Built-in IndexedDB storage with automatic sync. Your app works offline and syncs seamlessly when back online.',
+      }),
+      to: '/docs/packages/core/guides/storage',
+      snippet: {
+        language: 'ts',
+        code: `const client = createClient({
+  baseUrl: 'https://server.com',
+  store: { type: 'indexeddb', dbName: 'my-chat-app', workerApi: true },
+});`,
+      },
+    },
+    {
+      id: 'realtime',
+      emoji: '🔄',
+      accent: 'sunset',
+      title: translate({ id: 'homepage.features.realtime.title', message: '🔄 Real-time Sync' }),
+      description: translate({
+        id: 'homepage.features.realtime.description',
+        message: 'Sliding sync protocol ensures efficient real-time updates. Get instant message delivery with minimal bandwidth usage.',
+      }),
+      to: '/docs/packages/core/guides/sync',
+      snippet: {
+        language: 'ts',
+        code: `const client = createClient({
+  // ... config
+  sync: { enabled: true, slidingSync: true },
+});`,
+      },
+    },
+    {
+      id: 'extensible',
+      emoji: '🧩',
+      accent: 'teal',
+      title: translate({ id: 'homepage.features.extensible.title', message: '🧩 Extensible' }),
+      description: translate({
+        id: 'homepage.features.extensible.description',
+        message: 'Modular architecture with plugin support. Extend functionality with custom stores, event handlers, and middleware.',
+      }),
+      to: '/docs/advanced/architecture-deep-dive#2-store-architecture',
+      snippet: {
+        language: 'ts',
+        code: `class EncryptedStore implements IStore {
+  storeRoom(room: Room): void { /* ... */ }
+  getRooms(): Room[] { /* ... */ }
+  // ...the rest of IStore
+}`,
+      },
+    },
+  ];
+}
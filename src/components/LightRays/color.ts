@@ -0,0 +1,80 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+export type Rgb = [number, number, number];
+
+const WHITE: Rgb = [1, 1, 1];
+
+function parseHex(value: string): Rgb | null {
+  const m = /^#([a-f\d]{3,4}|[a-f\d]{6}|[a-f\d]{8})$/i.exec(value);
+  if (!m) return null;
+  let hex = m[1];
+  if (hex.length <= 4) hex = [...hex].map(ch => ch + ch).join('');
+  return [0, 2, 4].map(i => Number.parseInt(hex.slice(i, i + 2), 16) / 255) as Rgb;
+}
+
+/** Splits `rgb(1 2 3 / 50%)` or `rgb(1, 2, 3, 0.5)` into its components, alpha dropped. */
+function functionArgs(value: string, names: string[]): string[] | null {
+  const m = /^([a-z]+)\((.*)\)$/i.exec(value);
+  if (!m || !names.includes(m[1].toLowerCase())) return null;
+  const args = m[2].split('/')[0].trim().split(/\s*,\s*|\s+/).filter(Boolean);
+  return args.length >= 3 ? args.slice(0, 3) : null;
+}
+
+function channel(arg: string): number {
+  return arg.endsWith('%') ? Number.parseFloat(arg) / 100 : Number.parseFloat(arg) / 255;
+}
+
+function parseRgb(value: string): Rgb | null {
+  const args = functionArgs(value, ['rgb', 'rgba']);
+  return args ? args.map(channel) as Rgb : null;
+}
+
+function parseHsl(value: string): Rgb | null {
+  const args = functionArgs(value, ['hsl', 'hsla']);
+  if (!args) return null;
+  const h = ((Number.parseFloat(args[0]) % 360) + 360) % 360;
+  const s = Number.parseFloat(args[1]) / 100;
+  const l = Number.parseFloat(args[2]) / 100;
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0), f(8), f(4)];
+}
+
+/**
+ * Parses a CSS color into 0-1 RGB for the shader. Supports `#rgb`, `#rgba`,
+ * `#rrggbb`, `#rrggbbaa`, `rgb()`/`rgba()` and `hsl()`/`hsla()` in comma or
+ * space syntax. Alpha is ignored; anything else comes back as white.
+ */
+export function parseColor(value: string): Rgb {
+  const color = value.trim();
+  const rgb = parseHex(color) ?? parseRgb(color) ?? parseHsl(color);
+  return rgb && rgb.every(c => Number.isFinite(c)) ? rgb.map(c => Math.min(1, Math.max(0, c))) as Rgb : WHITE;
+}
+
+/**
+ * Like `parseColor`, but first resolves `var(--token, fallback)` against
+ * `element`, so the rays can follow the theme's custom properties.
+ */
+export function resolveColor(value: string, element: Element | null): Rgb {
+  const m = /^var\(\s*(--[\w-]+)\s*(?:,\s*(.+))?\)$/.exec(value.trim());
+  if (!m) return parseColor(value);
+  const resolved = element ? getComputedStyle(element).getPropertyValue(m[1]).trim() : '';
+  if (resolved) return resolveColor(resolved, element);
+  return m[2] ? resolveColor(m[2], element) : WHITE;
+}
@@ -15,81 +15,105 @@ Legal Department
 UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
+import type { CSSProperties } from 'react';
+import type { Rgb } from './color';
+import type { RaysConfig, RaysOverrides, RaysPresetName } from './presets';
+import type { RaysState, Vec2 } from './shader';
+import { useMotion } from '@site/src/utils/MotionProvider';
+import { useThemeRevision } from '@site/src/utils/useThemeRevision';
 import { Mesh, Program, Renderer, Triangle } from 'ogl';
 import { useEffect, useRef, useState } from 'react';
+import { resolveColor } from './color';
+import { resolveRaysConfig } from './presets';
+import { FRAGMENT_SHADER, VERTEX_SHADER } from './shader';
+import { raysTarget, stepRaysState } from './state';
 import './LightRays.css';
 
-export type RaysOrigin
-  = | 'top-center'
-    | 'top-left'
-    | 'top-right'
-    | 'right'
-    | 'left'
-    | 'bottom-center'
-    | 'bottom-right'
-    | 'bottom-left';
-
-type LightRaysProps = {
-  raysOrigin?: RaysOrigin;
-  raysColor?: string;
-  raysSpeed?: number;
-  lightSpread?: number;
-  rayLength?: number;
-  pulsating?: boolean;
-  fadeDistance?: number;
-  saturation?: number;
-  followMouse?: boolean;
-  mouseInfluence?: number;
-  noiseAmount?: number;
-  distortion?: number;
+export * from './presets';
+export * from './shader';
+export * from './state';
+
+/** A still image URL, or one per color mode. */
+export type LightRaysPoster = string | { light: string; dark: string };
+
+type LightRaysProps = RaysOverrides & {
+  /** Starting point for every other prop; see `RAYS_PRESETS`. */
+  preset?: RaysPresetName;
+  /** How long prop and theme changes take to blend in, in milliseconds. */
+  transitionMs?: number;
   className?: string;
+  /**
+   * Shown before WebGL starts, without JavaScript, and when WebGL is missing
+   * or its context is lost. Defaults to CSS gradients in the source colors.
+   */
+  poster?: LightRaysPoster;
+  /**
+   * Renders one frame at this time, in seconds, instead of animating. The
+   * pointer is ignored, so the same props always give the same image.
+   */
+  time?: number;
 };
 
-const DEFAULT_COLOR = '#ffffff';
-
-const hexToRgb = (hex: string): [number, number, number] => {
-  const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return m ? [Number.parseInt(m[1], 16) / 255, Number.parseInt(m[2], 16) / 255, Number.parseInt(m[3], 16) / 255] : [1, 1, 1];
+type WebGLState = 'pending' | 'ready' | 'unavailable';
+
+const GRADIENT_POSITION: Record<RaysConfig['sources'][number]['origin'], string> = {
+  'top-center': '50% 0%',
+  'top-left': '0% 0%',
+  'top-right': '100% 0%',
+  'left': '0% 50%',
+  'right': '100% 50%',
+  'bottom-center': '50% 100%',
+  'bottom-left': '0% 100%',
+  'bottom-right': '100% 100%',
 };
 
-const getAnchorAndDir = (
-  origin: RaysOrigin,
-  w: number,
-  h: number,
-): { anchor: [number, number]; dir: [number, number] } => {
-  const outside = 0.2;
-  switch (origin) {
-    case 'top-left':
-      return { anchor: [0, -outside * h], dir: [0, 1] };
-    case 'top-right':
-      return { anchor: [w, -outside * h], dir: [0, 1] };
-    case 'left':
-      return { anchor: [-outside * w, 0.5 * h], dir: [1, 0] };
-    case 'right':
-      return { anchor: [(1 + outside) * w, 0.5 * h], dir: [-1, 0] };
-    case 'bottom-left':
-      return { anchor: [0, (1 + outside) * h], dir: [0, -1] };
-    case 'bottom-center':
-      return { anchor: [0.5 * w, (1 + outside) * h], dir: [0, -1] };
-    case 'bottom-right':
-      return { anchor: [w, (1 + outside) * h], dir: [0, -1] };
-    default: // "top-center"
-      return { anchor: [0.5 * w, -outside * h], dir: [0, 1] };
+let webglSupported: boolean | null = null;
+
+/** Probes once per page; GPU-blocklisted and headless browsers report false. */
+function supportsWebGL(): boolean {
+  if (webglSupported === null) {
+    try {
+      const canvas = document.createElement('canvas');
+      const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+      webglSupported = gl !== null;
+      gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    } catch {
+      webglSupported = false;
+    }
   }
-};
+  return webglSupported;
+}
 
-type Vec2 = [number, number];
-type Vec3 = [number, number, number];
+function RaysFallback({ poster, config }: { poster?: LightRaysPoster; config: RaysConfig }) {
+  if (typeof poster === 'object') {
+    return (
+      <>
+        <div className="light-rays-fallback light-rays-fallback--light" style={{ backgroundImage: `url(${poster.light})` }} />
+        <div className="light-rays-fallback light-rays-fallback--dark" style={{ backgroundImage: `url(${poster.dark})` }} />
+      </>
+    );
+  }
+  const style: CSSProperties = poster
+    ? { backgroundImage: `url(${poster})` }
+    : {
+        backgroundImage: config.sources
+          .map(source => `radial-gradient(ellipse 70% 90% at ${GRADIENT_POSITION[source.origin]}, `
+            + `color-mix(in srgb, ${source.color} 35%, transparent), transparent 70%)`)
+          .join(', '),
+      };
+  return <div className="light-rays-fallback" style={style} />;
+}
 
 type Uniforms = {
   iTime: { value: number };
   iResolution: { value: Vec2 };
-  rayPos: { value: Vec2 };
-  rayDir: { value: Vec2 };
-  raysColor: { value: Vec3 };
-  raysSpeed: { value: number };
-  lightSpread: { value: number };
-  rayLength: { value: number };
+  rayPos: { value: Vec2[] };
+  rayDir: { value: Vec2[] };
+  raysColor: { value: Rgb[] };
+  rayPhase: { value: number[] };
+  lightSpread: { value: number[] };
+  rayLength: { value: number[] };
+  rayIntensity: { value: number[] };
   pulsating: { value: number };
   fadeDistance: { value: number };
   saturation: { value: number };
@@ -99,31 +123,80 @@ type Uniforms = {
   distortion: { value: number };
 };
 
+function writeUniforms(uniforms: Uniforms, state: RaysState, phases: number[]): void {
+  uniforms.rayPos.value = state.sources.map(source => source.anchor);
+  uniforms.rayDir.value = state.sources.map(source => source.dir);
+  uniforms.raysColor.value = state.sources.map(source => source.color);
+  uniforms.rayPhase.value = phases;
+  uniforms.lightSpread.value = state.sources.map(source => source.lightSpread);
+  uniforms.rayLength.value = state.sources.map(source => source.rayLength);
+  uniforms.rayIntensity.value = state.sources.map(source => source.intensity);
+  uniforms.pulsating.value = state.pulsating;
+  uniforms.fadeDistance.value = state.fadeDistance;
+  uniforms.saturation.value = state.saturation;
+  uniforms.mouseInfluence.value = state.mouseInfluence;
+  uniforms.noiseAmount.value = state.noiseAmount;
+  uniforms.distortion.value = state.distortion;
+}
+
 const LightRays: React.FC<LightRaysProps> = ({
-  raysOrigin = 'top-center',
-  raysColor = DEFAULT_COLOR,
-  raysSpeed = 1,
-  lightSpread = 1,
-  rayLength = 2,
-  pulsating = false,
-  fadeDistance = 1.0,
-  saturation = 1.0,
-  followMouse = true,
-  mouseInfluence = 0.1,
-  noiseAmount = 0.0,
-  distortion = 0.0,
+  preset,
+  transitionMs = 600,
   className = '',
+  poster,
+  time,
+  ...overrides
 }) => {
+  const config = resolveRaysConfig(preset, overrides);
+  // Inline `sources` arrays are new on every render; compare by value.
+  const configKey = JSON.stringify(config);
+  const configRef = useRef(config);
+  configRef.current = config;
+  const transitionRef = useRef(transitionMs);
+  transitionRef.current = transitionMs;
+
   const containerRef = useRef<HTMLDivElement>(null);
+  const canvasHostRef = useRef<HTMLDivElement>(null);
   const uniformsRef = useRef<Uniforms | null>(null);
   const rendererRef = useRef<Renderer | null>(null);
+  // What is on screen, and what it is easing towards.
+  const stateRef = useRef<RaysState | null>(null);
+  const targetRef = useRef<RaysState | null>(null);
   const mouseRef = useRef({ x: 0.5, y: 0.5 });
   const smoothMouseRef = useRef({ x: 0.5, y: 0.5 });
   const animationIdRef = useRef<number | null>(null);
+  const loopRef = useRef<((t: number) => void) | null>(null);
   const meshRef = useRef<Mesh | null>(null);
   const cleanupFunctionRef = useRef<(() => void) | null>(null);
   const [isVisible, setIsVisible] = useState(false);
   const observerRef = useRef<IntersectionObserver | null>(null);
+  const themeRevision = useThemeRevision();
+  const { animate } = useMotion();
+  // Read inside the render loop, so pausing does not tear down the WebGL context.
+  const animateRef = useRef(animate && time === undefined);
+  const timeRef = useRef(time);
+  const [webgl, setWebgl] = useState<WebGLState>('pending');
+  // Bumped on `webglcontextrestored` to rebuild the renderer.
+  const [contextGeneration, setContextGeneration] = useState(0);
+
+  // Lays the current props out on the canvas, resolving CSS colors against the live theme.
+  const computeTarget = (): RaysState | null => {
+    const container = containerRef.current;
+    const renderer = rendererRef.current;
+    if (!container || !renderer) return null;
+    const { sources } = configRef.current;
+    const colors = sources.map(source => resolveColor(source.color, container));
+    const { clientWidth: wCSS, clientHeight: hCSS } = container;
+    return raysTarget(configRef.current, colors, wCSS * renderer.dpr, hCSS * renderer.dpr);
+  };
+
+  // Restarts a loop that stopped itself: it either keeps animating or draws
+  // one frame with the latest target.
+  const requestFrame = () => {
+    if (loopRef.current && animationIdRef.current === null) {
+      animationIdRef.current = requestAnimationFrame(loopRef.current);
+    }
+  };
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -148,6 +221,10 @@ const LightRays: React.FC<LightRaysProps> = ({
 
   useEffect(() => {
     if (!isVisible || !containerRef.current) return;
+    if (!supportsWebGL()) {
+      setWebgl('unavailable');
+      return;
+    }
 
     if (cleanupFunctionRef.current) {
       cleanupFunctionRef.current();
@@ -159,155 +236,77 @@ const LightRays: React.FC<LightRaysProps> = ({
 
       await new Promise(resolve => setTimeout(resolve, 10));
 
-      if (!containerRef.current) return;
-
-      const renderer = new Renderer({
-        dpr: Math.min(window.devicePixelRatio, 2),
-        alpha: true,
-      });
+      if (!containerRef.current || !canvasHostRef.current) return;
+
+      let renderer: Renderer;
+      try {
+        renderer = new Renderer({
+          dpr: Math.min(window.devicePixelRatio, 2),
+          alpha: true,
+        });
+      } catch (error) {
+        // The probe passed but this context was refused, e.g. too many open contexts.
+        console.warn('WebGL unavailable, showing the poster instead:', error);
+        setWebgl('unavailable');
+        return;
+      }
       rendererRef.current = renderer;
 
       const gl = renderer.gl;
       gl.canvas.style.width = '100%';
       gl.canvas.style.height = '100%';
 
-      while (containerRef.current.firstChild) {
-        containerRef.current.removeChild(containerRef.current.firstChild);
-      }
-      containerRef.current.appendChild(gl.canvas);
-
-      const vert = `
-attribute vec2 position;
-varying vec2 vUv;
-void main() {
-  vUv = position * 0.5 + 0.5;
-  gl_Position = vec4(position, 0.0, 1.0);
-}`;
-
-      const frag = `precision highp float;
-
-uniform float iTime;
-uniform vec2  iResolution;
-
-uniform vec2  rayPos;
-uniform vec2  rayDir;
-uniform vec3  raysColor;
-uniform float raysSpeed;
-uniform float lightSpread;
-uniform float rayLength;
-uniform float pulsating;
-uniform float fadeDistance;
-uniform float saturation;
-uniform vec2  mousePos;
-uniform float mouseInfluence;
-uniform float noiseAmount;
-uniform float distortion;
-
-varying vec2 vUv;
-
-float noise(vec2 st) {
-  return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
-}
-
-float rayStrength(vec2 raySource, vec2 rayRefDirection, vec2 coord,
-                  float seedA, float seedB, float speed) {
-  vec2 sourceToCoord = coord - raySource;
-  vec2 dirNorm = normalize(sourceToCoord);
-  float cosAngle = dot(dirNorm, rayRefDirection);
-
-  float distortedAngle = cosAngle + distortion * sin(iTime * 2.0 + length(sourceToCoord) * 0.01) * 0.2;
-  
-  float spreadFactor = pow(max(distortedAngle, 0.0), 1.0 / max(lightSpread, 0.001));
-
-  float distance = length(sourceToCoord);
-  float maxDistance = iResolution.x * rayLength;
-  float lengthFalloff = clamp((maxDistance - distance) / maxDistance, 0.0, 1.0);
-  
-  float fadeFalloff = clamp((iResolution.x * fadeDistance - distance) / (iResolution.x * fadeDistance), 0.5, 1.0);
-  float pulse = pulsating > 0.5 ? (0.8 + 0.2 * sin(iTime * speed * 3.0)) : 1.0;
-
-  float baseStrength = clamp(
-    (0.45 + 0.15 * sin(distortedAngle * seedA + iTime * speed)) +
-    (0.3 + 0.2 * cos(-distortedAngle * seedB + iTime * speed)),
-    0.0, 1.0
-  );
-
-  return baseStrength * lengthFalloff * fadeFalloff * spreadFactor * pulse;
-}
-
-void mainImage(out vec4 fragColor, in vec2 fragCoord) {
-  vec2 coord = vec2(fragCoord.x, iResolution.y - fragCoord.y);
-  
-  vec2 finalRayDir = rayDir;
-  if (mouseInfluence > 0.0) {
-    vec2 mouseScreenPos = mousePos * iResolution.xy;
-    vec2 mouseDirection = normalize(mouseScreenPos - rayPos);
-    finalRayDir = normalize(mix(rayDir, mouseDirection, mouseInfluence));
-  }
-
-  vec4 rays1 = vec4(1.0) *
-               rayStrength(rayPos, finalRayDir, coord, 36.2214, 21.11349,
-                           1.5 * raysSpeed);
-  vec4 rays2 = vec4(1.0) *
-               rayStrength(rayPos, finalRayDir, coord, 22.3991, 18.0234,
-                           1.1 * raysSpeed);
-
-  fragColor = rays1 * 0.5 + rays2 * 0.4;
-
-  if (noiseAmount > 0.0) {
-    float n = noise(coord * 0.01 + iTime * 0.1);
-    fragColor.rgb *= (1.0 - noiseAmount + noiseAmount * n);
-  }
-
-  float brightness = 1.0 - (coord.y / iResolution.y);
-  fragColor.x *= 0.1 + brightness * 0.8;
-  fragColor.y *= 0.3 + brightness * 0.6;
-  fragColor.z *= 0.5 + brightness * 0.5;
-
-  if (saturation != 1.0) {
-    float gray = dot(fragColor.rgb, vec3(0.299, 0.587, 0.114));
-    fragColor.rgb = mix(vec3(gray), fragColor.rgb, saturation);
-  }
-
-  fragColor.rgb *= raysColor;
-}
+      const handleContextLost = (event: Event) => {
+        // Without preventDefault the browser never fires webglcontextrestored.
+        event.preventDefault();
+        if (animationIdRef.current !== null) {
+          cancelAnimationFrame(animationIdRef.current);
+          animationIdRef.current = null;
+        }
+        setWebgl('unavailable');
+      };
+      const handleContextRestored = () => setContextGeneration(n => n + 1);
+      gl.canvas.addEventListener('webglcontextlost', handleContextLost);
+      gl.canvas.addEventListener('webglcontextrestored', handleContextRestored);
 
-void main() {
-  vec4 color;
-  mainImage(color, gl_FragCoord.xy);
-  gl_FragColor  = color;
-}`;
+      while (canvasHostRef.current.firstChild) {
+        canvasHostRef.current.removeChild(canvasHostRef.current.firstChild);
+      }
+      canvasHostRef.current.appendChild(gl.canvas);
 
       const uniforms: Uniforms = {
         iTime: { value: 0 },
         iResolution: { value: [1, 1] },
-
-        rayPos: { value: [0, 0] },
-        rayDir: { value: [0, 1] },
-
-        raysColor: { value: hexToRgb(raysColor) },
-        raysSpeed: { value: raysSpeed },
-        lightSpread: { value: lightSpread },
-        rayLength: { value: rayLength },
-        pulsating: { value: pulsating ? 1.0 : 0.0 },
-        fadeDistance: { value: fadeDistance },
-        saturation: { value: saturation },
+        rayPos: { value: [] },
+        rayDir: { value: [] },
+        raysColor: { value: [] },
+        rayPhase: { value: [] },
+        lightSpread: { value: [] },
+        rayLength: { value: [] },
+        rayIntensity: { value: [] },
+        pulsating: { value: 0 },
+        fadeDistance: { value: 1 },
+        saturation: { value: 1 },
         mousePos: { value: [0.5, 0.5] },
-        mouseInfluence: { value: mouseInfluence },
-        noiseAmount: { value: noiseAmount },
-        distortion: { value: distortion },
+        mouseInfluence: { value: 0 },
+        noiseAmount: { value: 0 },
+        distortion: { value: 0 },
       };
       uniformsRef.current = uniforms;
 
       const geometry = new Triangle(gl);
       const program = new Program(gl, {
-        vertex: vert,
-        fragment: frag,
+        vertex: VERTEX_SHADER,
+        fragment: FRAGMENT_SHADER,
         uniforms,
       });
       const mesh = new Mesh(gl, { geometry, program });
       meshRef.current = mesh;
 
+      // Per-source phase, integrated from speed so easing a speed never jumps the rays.
+      let phases: number[] = [];
+      let lastFrame: number | null = null;
+
       const updatePlacement = () => {
         if (!containerRef.current || !renderer) return;
 
@@ -315,26 +314,48 @@ void main() {
 
         const { clientWidth: wCSS, clientHeight: hCSS } = containerRef.current;
         renderer.setSize(wCSS, hCSS);
+        uniforms.iResolution.value = [wCSS * renderer.dpr, hCSS * renderer.dpr];
+
+        // Geometry follows the canvas immediately; only prop changes are eased.
+        targetRef.current = computeTarget();
+        if (!targetRef.current) return;
+        if (stateRef.current) {
+          stepRaysState(stateRef.current, targetRef.current, 1);
+        } else {
+          stateRef.current = structuredClone(targetRef.current);
+          phases = stateRef.current.sources.map(() => 0);
+        }
+        writeUniforms(uniforms, stateRef.current, phases);
 
-        const dpr = renderer.dpr;
-        const w = wCSS * dpr;
-        const h = hCSS * dpr;
-
-        uniforms.iResolution.value = [w, h];
-
-        const { anchor, dir } = getAnchorAndDir(raysOrigin, w, h);
-        uniforms.rayPos.value = anchor;
-        uniforms.rayDir.value = dir;
+        // A paused canvas is cleared by setSize, so redraw the still frame.
+        if (!animateRef.current) renderer.render({ scene: mesh });
       };
 
       const loop = (t: number) => {
-        if (!rendererRef.current || !uniformsRef.current || !meshRef.current) {
+        const state = stateRef.current;
+        const target = targetRef.current;
+        if (!rendererRef.current || !uniformsRef.current || !meshRef.current || !state || !target) {
           return;
         }
 
-        uniforms.iTime.value = t * 0.001;
+        const dt = lastFrame === null ? 0 : Math.min((t - lastFrame) / 1000, 0.1);
+        lastFrame = t;
+
+        if (timeRef.current !== undefined) {
+          stepRaysState(state, target, 1);
+          phases = state.sources.map(source => timeRef.current! * source.speed);
+          uniforms.iTime.value = timeRef.current;
+          uniforms.mousePos.value = [0.5, 0.5];
+        } else {
+          // Exponential easing: about 98% of the way after `transitionMs`.
+          const tau = transitionRef.current / 4000;
+          stepRaysState(state, target, animateRef.current && tau > 0 ? 1 - Math.exp(-dt / tau) : 1);
+          phases = state.sources.map((source, i) => (phases[i] ?? 0) + dt * source.speed);
+          uniforms.iTime.value = t * 0.001;
+        }
+        writeUniforms(uniforms, state, phases);
 
-        if (followMouse && mouseInfluence > 0.0) {
+        if (timeRef.current === undefined && animateRef.current && configRef.current.followMouse && state.mouseInfluence > 0.0) {
           const smoothing = 0.92;
 
           smoothMouseRef.current.x = smoothMouseRef.current.x * smoothing + mouseRef.current.x * (1 - smoothing);
@@ -345,7 +366,9 @@ void main() {
 
         try {
           renderer.render({ scene: mesh });
-          animationIdRef.current = requestAnimationFrame(loop);
+          // When motion stops, the frame just drawn stays on screen as a still.
+          animationIdRef.current = animateRef.current ? requestAnimationFrame(loop) : null;
+          if (animationIdRef.current === null) lastFrame = null;
         } catch (error) {
           console.warn('WebGL rendering error:', error);
         }
@@ -353,7 +376,9 @@ void main() {
 
       window.addEventListener('resize', updatePlacement);
       updatePlacement();
+      loopRef.current = loop;
       animationIdRef.current = requestAnimationFrame(loop);
+      setWebgl('ready');
 
       cleanupFunctionRef.current = () => {
         if (animationIdRef.current) {
@@ -362,6 +387,9 @@ void main() {
         }
 
         window.removeEventListener('resize', updatePlacement);
+        // Detach first: losing the context on purpose below must not trigger recovery.
+        gl.canvas.removeEventListener('webglcontextlost', handleContextLost);
+        gl.canvas.removeEventListener('webglcontextrestored', handleContextRestored);
 
         if (renderer) {
           try {
@@ -382,6 +410,9 @@ void main() {
         rendererRef.current = null;
         uniformsRef.current = null;
         meshRef.current = null;
+        loopRef.current = null;
+        stateRef.current = null;
+        targetRef.current = null;
       };
     };
 
@@ -393,57 +424,21 @@ void main() {
         cleanupFunctionRef.current = null;
       }
     };
-  }, [
-    isVisible,
-    raysOrigin,
-    raysColor,
-    raysSpeed,
-    lightSpread,
-    rayLength,
-    pulsating,
-    fadeDistance,
-    saturation,
-    followMouse,
-    mouseInfluence,
-    noiseAmount,
-    distortion,
-  ]);
+  }, [isVisible, contextGeneration]);
 
+  // Prop and theme changes only move the target; the loop eases towards it.
   useEffect(() => {
-    if (!uniformsRef.current || !containerRef.current || !rendererRef.current) return;
-
-    const u = uniformsRef.current;
-    const renderer = rendererRef.current;
+    if (!stateRef.current) return;
+    targetRef.current = computeTarget();
+    requestFrame();
+  }, [configKey, themeRevision]);
 
-    u.raysColor.value = hexToRgb(raysColor);
-    u.raysSpeed.value = raysSpeed;
-    u.lightSpread.value = lightSpread;
-    u.rayLength.value = rayLength;
-    u.pulsating.value = pulsating ? 1.0 : 0.0;
-    u.fadeDistance.value = fadeDistance;
-    u.saturation.value = saturation;
-    u.mouseInfluence.value = mouseInfluence;
-    u.noiseAmount.value = noiseAmount;
-    u.distortion.value = distortion;
-
-    const { clientWidth: wCSS, clientHeight: hCSS } = containerRef.current;
-    const dpr = renderer.dpr;
-    const { anchor, dir } = getAnchorAndDir(raysOrigin, wCSS * dpr, hCSS * dpr);
-    u.rayPos.value = anchor;
-    u.rayDir.value = dir;
-  }, [
-    raysColor,
-    raysSpeed,
-    lightSpread,
-    raysOrigin,
-    rayLength,
-    pulsating,
-    fadeDistance,
-    saturation,
-    mouseInfluence,
-    noiseAmount,
-    distortion,
-  ]);
+  useEffect(() => {
+    animateRef.current = animate && time === undefined;
+    timeRef.current = time;
+    // Pausing needs no work here: the loop stops itself after the next frame.
+    requestFrame();
+  }, [animate, time]);
 
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -454,13 +449,18 @@ void main() {
       mouseRef.current = { x, y };
     };
 
-    if (followMouse) {
+    if (config.followMouse) {
       window.addEventListener('mousemove', handleMouseMove);
       return () => window.removeEventListener('mousemove', handleMouseMove);
     }
-  }, [followMouse]);
+  }, [config.followMouse]);
 
-  return <div ref={containerRef} className={`light-rays-container ${className}`.trim()} />;
+  return (
+    <div ref={containerRef} className={`light-rays-container ${className}`.trim()}>
+      <div ref={canvasHostRef} className="light-rays-canvas" />
+      {webgl !== 'ready' && <RaysFallback poster={poster} config={config} />}
+    </div>
+  );
 };
 
 export default LightRays;
@@ -0,0 +1,120 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { RaysOrigin } from './shader';
+
+export type RaySource = {
+  origin: RaysOrigin;
+  /** Any CSS color, including `var(--token)`; re-read when the theme changes. */
+  color?: string;
+  speed?: number;
+  lightSpread?: number;
+  rayLength?: number;
+};
+
+/** A fully resolved effect: every source and setting has a value. */
+export type RaysConfig = {
+  sources: Required<RaySource>[];
+  pulsating: boolean;
+  fadeDistance: number;
+  saturation: number;
+  followMouse: boolean;
+  mouseInfluence: number;
+  noiseAmount: number;
+  distortion: number;
+};
+
+export type RaysPresetName = 'default' | 'hero' | 'subtle' | 'announcement';
+
+export const RAYS_PRESETS: Record<RaysPresetName, RaysConfig> = {
+  default: {
+    sources: [{ origin: 'top-center', color: '#ffffff', speed: 1, lightSpread: 1, rayLength: 2 }],
+    pulsating: false,
+    fadeDistance: 1,
+    saturation: 1,
+    followMouse: true,
+    mouseInfluence: 0.1,
+    noiseAmount: 0,
+    distortion: 0,
+  },
+  // Homepage hero; also what plugins/light-rays-poster renders.
+  hero: {
+    sources: [{ origin: 'top-center', color: 'var(--xhub-rays-color)', speed: 1.5, lightSpread: 0.8, rayLength: 1.2 }],
+    pulsating: false,
+    fadeDistance: 1,
+    saturation: 1,
+    followMouse: true,
+    mouseInfluence: 0.1,
+    noiseAmount: 0.1,
+    distortion: 0.05,
+  },
+  // Background for package landing pages, where text sits on top of the rays.
+  subtle: {
+    sources: [{ origin: 'top-center', color: 'var(--xhub-rays-color)', speed: 0.6, lightSpread: 0.5, rayLength: 0.8 }],
+    pulsating: false,
+    fadeDistance: 0.8,
+    saturation: 0.6,
+    followMouse: false,
+    mouseInfluence: 0,
+    noiseAmount: 0,
+    distortion: 0,
+  },
+  // Release banners: two crossing beams that pulse.
+  announcement: {
+    sources: [
+      { origin: 'top-left', color: '#f472b6', speed: 1.2, lightSpread: 1.2, rayLength: 1.5 },
+      { origin: 'top-right', color: '#38bdf8', speed: 1.8, lightSpread: 1.2, rayLength: 1.5 },
+    ],
+    pulsating: true,
+    fadeDistance: 1,
+    saturation: 1,
+    followMouse: true,
+    mouseInfluence: 0.05,
+    noiseAmount: 0.05,
+    distortion: 0.1,
+  },
+};
+
+/** Caller-supplied values on top of a preset; `undefined` keeps the preset's. */
+export type RaysOverrides = Partial<Omit<RaysConfig, 'sources'>> & {
+  sources?: RaySource[];
+  /** Applied to every source that does not set its own value. */
+  raysOrigin?: RaysOrigin;
+  raysColor?: string;
+  raysSpeed?: number;
+  lightSpread?: number;
+  rayLength?: number;
+};
+
+function defined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Merges a preset with explicit props. Without `sources` the preset's
+ * sources are kept and the flat `rays*` props apply to each of them; with
+ * `sources` those replace the preset's, filling gaps from the flat props.
+ */
+export function resolveRaysConfig(preset: RaysPresetName = 'default', overrides: RaysOverrides = {}): RaysConfig {
+  const base = RAYS_PRESETS[preset];
+  const { sources, raysOrigin, raysColor, raysSpeed, lightSpread, rayLength, ...settings } = overrides;
+  const shared = defined({ origin: raysOrigin, color: raysColor, speed: raysSpeed, lightSpread, rayLength });
+  const resolved = sources && sources.length > 0
+    ? sources.map(source => ({ ...base.sources[0], ...shared, ...defined(source) }))
+    : base.sources.map(source => ({ ...source, ...shared }));
+  return { ...base, ...defined(settings), sources: resolved };
+}
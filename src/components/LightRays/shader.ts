@@ -0,0 +1,289 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Rgb } from './color';
+
+export type Vec2 = [number, number];
+
+export type RaysOrigin
+  = | 'top-center'
+    | 'top-left'
+    | 'top-right'
+    | 'right'
+    | 'left'
+    | 'bottom-center'
+    | 'bottom-right'
+    | 'bottom-left';
+
+/** Must match the array sizes in FRAGMENT_SHADER. */
+export const MAX_RAY_SOURCES = 4;
+
+export type RaySourceState = {
+  /** Source position and direction in canvas pixels, y down. */
+  anchor: Vec2;
+  dir: Vec2;
+  color: Rgb;
+  speed: number;
+  lightSpread: number;
+  rayLength: number;
+  /** 0-1; eased so sources fade in and out instead of popping. */
+  intensity: number;
+};
+
+/** Everything the shader draws, with exactly MAX_RAY_SOURCES sources. */
+export type RaysState = {
+  sources: RaySourceState[];
+  pulsating: number;
+  fadeDistance: number;
+  saturation: number;
+  mouseInfluence: number;
+  noiseAmount: number;
+  distortion: number;
+};
+
+export const getAnchorAndDir = (
+  origin: RaysOrigin,
+  w: number,
+  h: number,
+): { anchor: Vec2; dir: Vec2 } => {
+  const outside = 0.2;
+  switch (origin) {
+    case 'top-left':
+      return { anchor: [0, -outside * h], dir: [0, 1] };
+    case 'top-right':
+      return { anchor: [w, -outside * h], dir: [0, 1] };
+    case 'left':
+      return { anchor: [-outside * w, 0.5 * h], dir: [1, 0] };
+    case 'right':
+      return { anchor: [(1 + outside) * w, 0.5 * h], dir: [-1, 0] };
+    case 'bottom-left':
+      return { anchor: [0, (1 + outside) * h], dir: [0, -1] };
+    case 'bottom-center':
+      return { anchor: [0.5 * w, (1 + outside) * h], dir: [0, -1] };
+    case 'bottom-right':
+      return { anchor: [w, (1 + outside) * h], dir: [0, -1] };
+    default: // "top-center"
+      return { anchor: [0.5 * w, -outside * h], dir: [0, 1] };
+  }
+};
+
+export const VERTEX_SHADER = `
+attribute vec2 position;
+varying vec2 vUv;
+void main() {
+  vUv = position * 0.5 + 0.5;
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+export const FRAGMENT_SHADER = `precision highp float;
+
+#define MAX_SOURCES ${MAX_RAY_SOURCES}
+
+uniform float iTime;
+uniform vec2  iResolution;
+
+uniform vec2  rayPos[MAX_SOURCES];
+uniform vec2  rayDir[MAX_SOURCES];
+uniform vec3  raysColor[MAX_SOURCES];
+uniform float rayPhase[MAX_SOURCES];
+uniform float lightSpread[MAX_SOURCES];
+uniform float rayLength[MAX_SOURCES];
+uniform float rayIntensity[MAX_SOURCES];
+uniform float pulsating;
+uniform float fadeDistance;
+uniform float saturation;
+uniform vec2  mousePos;
+uniform float mouseInfluence;
+uniform float noiseAmount;
+uniform float distortion;
+
+varying vec2 vUv;
+
+float noise(vec2 st) {
+  return fract(sin(dot(st.xy, vec2(12.9898,78.233))) * 43758.5453123);
+}
+
+float rayStrength(vec2 raySource, vec2 rayRefDirection, vec2 coord,
+                  float seedA, float seedB, float phase, float spread, float len) {
+  vec2 sourceToCoord = coord - raySource;
+  vec2 dirNorm = normalize(sourceToCoord);
+  float cosAngle = dot(dirNorm, rayRefDirection);
+
+  float distortedAngle = cosAngle + distortion * sin(iTime * 2.0 + length(sourceToCoord) * 0.01) * 0.2;
+  
+  float spreadFactor = pow(max(distortedAngle, 0.0), 1.0 / max(spread, 0.001));
+
+  float distance = length(sourceToCoord);
+  float maxDistance = iResolution.x * len;
+  float lengthFalloff = clamp((maxDistance - distance) / maxDistance, 0.0, 1.0);
+  
+  float fadeFalloff = clamp((iResolution.x * fadeDistance - distance) / (iResolution.x * fadeDistance), 0.5, 1.0);
+  float pulse = mix(1.0, 0.8 + 0.2 * sin(phase * 3.0), pulsating);
+
+  float baseStrength = clamp(
+    (0.45 + 0.15 * sin(distortedAngle * seedA + phase)) +
+    (0.3 + 0.2 * cos(-distortedAngle * seedB + phase)),
+    0.0, 1.0
+  );
+
+  return baseStrength * lengthFalloff * fadeFalloff * spreadFactor * pulse;
+}
+
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+  vec2 coord = vec2(fragCoord.x, iResolution.y - fragCoord.y);
+
+  float grain = 1.0;
+  if (noiseAmount > 0.0) {
+    grain = 1.0 - noiseAmount + noiseAmount * noise(coord * 0.01 + iTime * 0.1);
+  }
+
+  float brightness = 1.0 - (coord.y / iResolution.y);
+  vec3 tint = vec3(0.1 + brightness * 0.8, 0.3 + brightness * 0.6, 0.5 + brightness * 0.5);
+
+  vec3 color = vec3(0.0);
+  float alpha = 0.0;
+  for (int i = 0; i < MAX_SOURCES; i++) {
+    if (rayIntensity[i] <= 0.0) continue;
+
+    vec2 finalRayDir = rayDir[i];
+    if (mouseInfluence > 0.0) {
+      vec2 mouseScreenPos = mousePos * iResolution.xy;
+      vec2 mouseDirection = normalize(mouseScreenPos - rayPos[i]);
+      finalRayDir = normalize(mix(rayDir[i], mouseDirection, mouseInfluence));
+    }
+
+    float strength = rayIntensity[i] * (
+      rayStrength(rayPos[i], finalRayDir, coord, 36.2214, 21.11349,
+                  1.5 * rayPhase[i], lightSpread[i], rayLength[i]) * 0.5 +
+      rayStrength(rayPos[i], finalRayDir, coord, 22.3991, 18.0234,
+                  1.1 * rayPhase[i], lightSpread[i], rayLength[i]) * 0.4);
+
+    vec3 rgb = vec3(strength * grain) * tint;
+    float gray = dot(rgb, vec3(0.299, 0.587, 0.114));
+    rgb = mix(vec3(gray), rgb, saturation);
+
+    color += rgb * raysColor[i];
+    alpha += strength;
+  }
+
+  fragColor = vec4(color, min(alpha, 1.0));
+}
+
+void main() {
+  vec4 color;
+  mainImage(color, gl_FragCoord.xy);
+  gl_FragColor  = color;
+}`;
+
+/*
+ * CPU port of FRAGMENT_SHADER, used to render posters at build time where
+ * there is no WebGL. Keep the two in step when changing the look.
+ */
+
+const fract = (x: number) => x - Math.floor(x);
+const clamp = (x: number, lo: number, hi: number) => Math.min(Math.max(x, lo), hi);
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export function normalize(x: number, y: number): Vec2 {
+  const len = Math.hypot(x, y);
+  return len > 0 ? [x / len, y / len] : [0, 0];
+}
+
+function rayStrength(
+  state: RaysState,
+  width: number,
+  source: RaySourceState,
+  refDir: Vec2,
+  cx: number,
+  cy: number,
+  seedA: number,
+  seedB: number,
+  phase: number,
+  time: number,
+): number {
+  const sx = cx - source.anchor[0];
+  const sy = cy - source.anchor[1];
+  const distance = Math.hypot(sx, sy);
+  const [nx, ny] = normalize(sx, sy);
+  const cosAngle = nx * refDir[0] + ny * refDir[1];
+
+  const angle = cosAngle + state.distortion * Math.sin(time * 2 + distance * 0.01) * 0.2;
+  const spread = Math.max(angle, 0) ** (1 / Math.max(source.lightSpread, 0.001));
+
+  const maxDistance = width * source.rayLength;
+  const lengthFalloff = clamp((maxDistance - distance) / maxDistance, 0, 1);
+  const fadeFalloff = clamp((width * state.fadeDistance - distance) / (width * state.fadeDistance), 0.5, 1);
+  const pulse = mix(1, 0.8 + 0.2 * Math.sin(phase * 3), state.pulsating);
+
+  const base = clamp(
+    (0.45 + 0.15 * Math.sin(angle * seedA + phase))
+    + (0.3 + 0.2 * Math.cos(-angle * seedB + phase)),
+    0,
+    1,
+  );
+  return base * lengthFalloff * fadeFalloff * spread * pulse;
+}
+
+/**
+ * Renders the frame the shader would draw at `time` seconds with the pointer
+ * at rest in the centre. Returns straight (non-premultiplied) RGBA rows, top
+ * row first, ready for PNG encoding.
+ */
+export function renderRaysFrame(state: RaysState, width: number, height: number, time: number): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const sources = state.sources.filter(source => source.intensity > 0);
+  const dirs = sources.map((source) => {
+    if (state.mouseInfluence <= 0) return source.dir;
+    const mouseDir = normalize(0.5 * width - source.anchor[0], 0.5 * height - source.anchor[1]);
+    return normalize(mix(source.dir[0], mouseDir[0], state.mouseInfluence), mix(source.dir[1], mouseDir[1], state.mouseInfluence));
+  });
+
+  for (let row = 0; row < height; row++) {
+    const cy = row + 0.5;
+    const brightness = 1 - cy / height;
+    const tint = [0.1 + brightness * 0.8, 0.3 + brightness * 0.6, 0.5 + brightness * 0.5];
+    for (let col = 0; col < width; col++) {
+      const cx = col + 0.5;
+      const grain = state.noiseAmount > 0
+        ? 1 - state.noiseAmount + state.noiseAmount * fract(Math.sin((cx * 0.01 + time * 0.1) * 12.9898 + (cy * 0.01 + time * 0.1) * 78.233) * 43758.5453123)
+        : 1;
+
+      const color = [0, 0, 0];
+      let alpha = 0;
+      sources.forEach((source, i) => {
+        const phase = time * source.speed;
+        const strength = source.intensity * (
+          rayStrength(state, width, source, dirs[i], cx, cy, 36.2214, 21.11349, 1.5 * phase, time) * 0.5
+          + rayStrength(state, width, source, dirs[i], cx, cy, 22.3991, 18.0234, 1.1 * phase, time) * 0.4);
+        const rgb = tint.map(t => strength * grain * t);
+        const gray = rgb[0] * 0.299 + rgb[1] * 0.587 + rgb[2] * 0.114;
+        for (let c = 0; c < 3; c++) color[c] += mix(gray, rgb[c], state.saturation) * source.color[c];
+        alpha += strength;
+      });
+
+      // The canvas composites premultiplied; un-premultiply for PNG.
+      alpha = clamp(alpha, 0, 1);
+      const i = (row * width + col) * 4;
+      for (let c = 0; c < 3; c++) {
+        const premultiplied = clamp(color[c], 0, 1);
+        pixels[i + c] = alpha > 0 ? Math.round(Math.min(premultiplied / alpha, 1) * 255) : 0;
+      }
+      pixels[i + 3] = Math.round(alpha * 255);
+    }
+  }
+  return pixels;
+}
@@ -0,0 +1,94 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Rgb } from './color';
+import type { RaysConfig } from './presets';
+import type { RaySourceState, RaysState } from './shader';
+import { getAnchorAndDir, MAX_RAY_SOURCES, normalize } from './shader';
+
+/**
+ * Lays a config out on a `width` x `height` canvas. Unused slots copy the
+ * last source at zero intensity, so the shader can skip them.
+ */
+export function raysTarget(config: RaysConfig, colors: Rgb[], width: number, height: number): RaysState {
+  const count = Math.min(config.sources.length, MAX_RAY_SOURCES);
+  const sources = Array.from({ length: MAX_RAY_SOURCES }, (_, i): RaySourceState => {
+    const idx = Math.min(i, count - 1);
+    const source = config.sources[idx];
+    const { anchor, dir } = getAnchorAndDir(source.origin, width, height);
+    return {
+      anchor,
+      dir,
+      color: colors[idx],
+      speed: source.speed,
+      lightSpread: source.lightSpread,
+      rayLength: source.rayLength,
+      intensity: i < count ? 1 : 0,
+    };
+  });
+  return {
+    sources,
+    pulsating: config.pulsating ? 1 : 0,
+    fadeDistance: config.fadeDistance,
+    saturation: config.saturation,
+    mouseInfluence: config.mouseInfluence,
+    noiseAmount: config.noiseAmount,
+    distortion: config.distortion,
+  };
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Below this the remaining distance is invisible, so snap and stop easing.
+const EPSILON = 1e-3;
+
+function approach(from: number, to: number, t: number): number {
+  const next = lerp(from, to, t);
+  return Math.abs(to - next) < EPSILON ? to : next;
+}
+
+function approachVec<T extends number[]>(from: T, to: T, t: number): T {
+  return from.map((value, i) => approach(value, to[i], t)) as T;
+}
+
+/**
+ * Moves `current` a fraction `t` (0-1) of the way to `target`, in place.
+ * A source that is fading in from nothing jumps to its target geometry, so
+ * it appears where it belongs instead of sliding over from another source.
+ */
+export function stepRaysState(current: RaysState, target: RaysState, t: number): void {
+  current.sources.forEach((source, i) => {
+    const goal = target.sources[i];
+    if (source.intensity === 0 && goal.intensity > 0) {
+      Object.assign(source, { ...goal, intensity: 0 });
+    }
+    source.anchor = approachVec(source.anchor, goal.anchor, t);
+    const dir = approachVec(source.dir, goal.dir, t);
+    source.dir = normalize(dir[0], dir[1]);
+    source.color = approachVec(source.color, goal.color, t);
+    source.speed = approach(source.speed, goal.speed, t);
+    source.lightSpread = approach(source.lightSpread, goal.lightSpread, t);
+    source.rayLength = approach(source.rayLength, goal.rayLength, t);
+    source.intensity = approach(source.intensity, goal.intensity, t);
+  });
+  current.pulsating = approach(current.pulsating, target.pulsating, t);
+  current.fadeDistance = approach(current.fadeDistance, target.fadeDistance, t);
+  current.saturation = approach(current.saturation, target.saturation, t);
+  current.mouseInfluence = approach(current.mouseInfluence, target.mouseInfluence, t);
+  current.noiseAmount = approach(current.noiseAmount, target.noiseAmount, t);
+  current.distortion = approach(current.distortion, target.distortion, t);
+}
@@ -0,0 +1,62 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import { translate } from '@docusaurus/Translate';
+import { useMotion } from '@site/src/utils/MotionProvider';
+import clsx from 'clsx';
+import styles from './styles.module.css';
+
+type MotionToggleProps = {
+  className?: string;
+};
+
+/** Navbar button that pauses the homepage animations, overriding `prefers-reduced-motion`. */
+export default function MotionToggle({ className }: MotionToggleProps): ReactNode {
+  const { reduceMotion, setReduceMotion } = useMotion();
+  const label = reduceMotion
+    ? translate({
+        id: 'theme.motion.enable',
+        message: 'Play animations',
+        description: 'The label of the navbar button that turns animations back on',
+      })
+    : translate({
+        id: 'theme.motion.disable',
+        message: 'Reduce motion',
+        description: 'The label of the navbar button that pauses animations',
+      });
+
+  return (
+    <div className={clsx(styles.toggle, className)}>
+      <button
+        type="button"
+        className={clsx('clean-btn', styles.button)}
+        aria-pressed={reduceMotion}
+        aria-label={label}
+        title={label}
+        onClick={() => setReduceMotion(!reduceMotion)}
+      >
+        <svg viewBox="0 0 24 24" width={22} height={22} aria-hidden="true">
+          <circle cx="12" cy="12" r="9" fill="none" stroke="currentColor" strokeWidth="2" />
+          {reduceMotion
+            ? <path d="M10 8.5v7l5.5-3.5z" fill="currentColor" />
+            : <path d="M9.5 8.5v7M14.5 8.5v7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />}
+        </svg>
+      </button>
+    </div>
+  );
+}
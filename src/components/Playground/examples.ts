@@ -0,0 +1,149 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+/**
+ * Starter snippets for `<Playground example="..." />`. Each one calls
+ * `render()` and imports from the real package names, so it can be pasted
+ * straight into an app once it works here.
+ */
+export const playgroundExamples = {
+  useXHubChat: `import { XHubChatProvider, useXHubChat } from '@xhub-chat/react';
+
+function Summary() {
+  const { client, rooms } = useXHubChat();
+
+  return (
+    <div>
+      <p>Signed in as <strong>{client.getUserId()}</strong></p>
+      <p>Total rooms: {rooms.length}</p>
+      <button onClick={() => client.sendTextMessage('!general:xhub.chat', 'Hello from the playground!')}>
+        Say hello in General
+      </button>
+    </div>
+  );
+}
+
+render(
+  <XHubChatProvider
+    clientOptions={{ baseUrl: 'https://mock.xhub.chat', accessToken: 'demo', userId: '@alice:xhub.chat' }}
+    startOptions={{ initialSyncLimit: 10 }}
+  >
+    <Summary />
+  </XHubChatProvider>
+);
+`,
+
+  useRooms: `import { XHubChatProvider, useRooms } from '@xhub-chat/react';
+
+function RoomList() {
+  const { rooms, canPaginate, paginate, fetching } = useRooms();
+
+  return (
+    <div>
+      <ul>
+        {rooms.map(room => (
+          <li key={room.roomId}>
+            {room.name}
+            {room.getUnreadNotificationCount('total') > 0 && (
+              <strong> ({room.getUnreadNotificationCount('total')})</strong>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canPaginate && (
+        <button onClick={() => paginate(2)} disabled={fetching}>
+          {fetching ? 'Loading...' : 'Load More'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+render(
+  <XHubChatProvider
+    clientOptions={{ baseUrl: 'https://mock.xhub.chat', accessToken: 'demo', userId: '@alice:xhub.chat' }}
+    startOptions={{ initialSyncLimit: 10 }}
+  >
+    <RoomList />
+  </XHubChatProvider>
+);
+`,
+
+  useTimeline: `import { useState } from 'react';
+import { XHubChatProvider, useTimeline } from '@xhub-chat/react';
+
+function ChatRoom({ roomId }: { roomId: string }) {
+  const {
+    events,
+    isLoading,
+    sendTextMessage,
+    addReaction,
+    getReactions,
+    getThread,
+    canPaginateBackwards,
+    isPaginatingBackwards,
+    paginate,
+  } = useTimeline({ roomId });
+  const [message, setMessage] = useState('');
+
+  if (isLoading) return <div>Loading...</div>;
+
+  return (
+    <div>
+      {canPaginateBackwards && (
+        <button onClick={() => paginate('b', 5)} disabled={isPaginatingBackwards}>
+          Load Older Messages
+        </button>
+      )}
+
+      {events.map(event => (
+        <div key={event.getId()} style={{ opacity: event.isSending() ? 0.5 : 1 }}>
+          <strong>{event.getSender()}</strong>: {event.getContent().body}
+          {' '}
+          {getReactions(event.getId())?.getSortedAnnotationsByKey().map(([emoji, reactions]) => (
+            <span key={emoji}>{emoji} {reactions.size} </span>
+          ))}
+          {getThread(event.getId()) && <em>💬 {getThread(event.getId())!.length} replies</em>}
+          <button onClick={() => addReaction(event.getId(), '👍')}>👍</button>
+        </div>
+      ))}
+
+      <input value={message} onChange={e => setMessage(e.target.value)} />
+      <button
+        onClick={() => {
+          sendTextMessage(message);
+          setMessage('');
+        }}
+      >
+        Send
+      </button>
+    </div>
+  );
+}
+
+render(
+  <XHubChatProvider
+    clientOptions={{ baseUrl: 'https://mock.xhub.chat', accessToken: 'demo', userId: '@alice:xhub.chat' }}
+    startOptions={{ initialSyncLimit: 10 }}
+  >
+    <ChatRoom roomId="!general:xhub.chat" />
+  </XHubChatProvider>
+);
+`,
+} satisfies Record<string, string>;
+
+export type PlaygroundExample = keyof typeof playgroundExamples;
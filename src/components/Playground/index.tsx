@@ -0,0 +1,139 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import type { PlaygroundExample } from './examples';
+import { themes } from 'prism-react-renderer';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Editor, LiveEditor, LiveError, LivePreview, LiveProvider } from 'react-live';
+import { playgroundExamples } from './examples';
+import { playgroundScope } from './scope';
+import { readSharedState, writeSharedState } from './shareState';
+import styles from './styles.module.css';
+
+type PlaygroundProps = {
+  /** Key used in the URL hash. Defaults to the example name. */
+  id?: string;
+  /** Name of a bundled starter snippet. */
+  example?: PlaygroundExample;
+  /** Inline starter code; takes precedence over `example`. */
+  code?: string;
+  title?: string;
+};
+
+const HASH_WRITE_DELAY = 500;
+
+export default function Playground({ id, example, code, title }: PlaygroundProps): ReactNode {
+  const playgroundId = id ?? example ?? 'playground';
+  const initialCode = (code ?? (example ? playgroundExamples[example] : '')).trim();
+  const [source, setSource] = useState(initialCode);
+  const [copied, setCopied] = useState(false);
+  // Code from a shared link is shown but not run until the reader asks for it.
+  const [pendingShared, setPendingShared] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const writeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The hash is only readable in the browser, so shared state is applied after hydration.
+  useEffect(() => {
+    const shared = readSharedState(playgroundId);
+    if (shared) {
+      setSource(shared.code);
+      setPendingShared(true);
+      containerRef.current?.scrollIntoView({ block: 'start' });
+    }
+  }, [playgroundId]);
+
+  useEffect(() => () => {
+    if (writeTimerRef.current) clearTimeout(writeTimerRef.current);
+  }, []);
+
+  const handleChange = useCallback((next: string) => {
+    setSource(next);
+    if (writeTimerRef.current) clearTimeout(writeTimerRef.current);
+    writeTimerRef.current = setTimeout(() => {
+      writeSharedState(playgroundId, next === initialCode ? null : { code: next });
+    }, HASH_WRITE_DELAY);
+  }, [playgroundId, initialCode]);
+
+  const handleCopyLink = useCallback(async () => {
+    writeSharedState(playgroundId, { code: source });
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the link is still in the address bar.
+    }
+  }, [playgroundId, source]);
+
+  const handleReset = useCallback(() => {
+    setSource(initialCode);
+    setPendingShared(false);
+    writeSharedState(playgroundId, null);
+  }, [playgroundId, initialCode]);
+
+  const toolbar = (
+    <div className={styles.toolbar}>
+      <span className={styles.title}>{title ?? 'Live Playground'}</span>
+      <span className={styles.badge} title="Hooks run against an in-memory mock client">mock client</span>
+      <div className={styles.actions}>
+        <button type="button" className={styles.action} onClick={handleReset}>
+          Reset
+        </button>
+        <button type="button" className={styles.action} onClick={handleCopyLink}>
+          {copied ? 'Link copied!' : 'Copy link'}
+        </button>
+      </div>
+    </div>
+  );
+
+  if (pendingShared) {
+    return (
+      <div ref={containerRef} id={`pg-${playgroundId}`} className={styles.playground} data-search-exclude>
+        {toolbar}
+        <div className={styles.body}>
+          <div className={styles.editor}>
+            <Editor code={source} language="tsx" theme={themes.dracula} onChange={handleChange} />
+          </div>
+          <div className={`${styles.preview} ${styles.pending}`}>
+            <p>This code was loaded from a shared link. Read it before running it.</p>
+            <button type="button" className="button button--primary button--sm" onClick={() => setPendingShared(false)}>
+              Run
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} id={`pg-${playgroundId}`} className={styles.playground} data-search-exclude>
+      <LiveProvider code={source} scope={playgroundScope} theme={themes.dracula} language="tsx" noInline>
+        {toolbar}
+        <div className={styles.body}>
+          <div className={styles.editor}>
+            <LiveEditor onChange={handleChange} />
+          </div>
+          <div className={styles.preview}>
+            <LivePreview />
+            <LiveError className={styles.error} />
+          </div>
+        </div>
+      </LiveProvider>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import * as React from 'react';
+import * as xhubChat from '@site/src/mocks/xhub-chat';
+
+const modules: Record<string, unknown> = {
+  react: React,
+  ...xhubChat.mockModules,
+};
+
+/**
+ * Resolves the `import` statements in live code, which react-live compiles
+ * to `require` calls. Anything outside the mocked packages is rejected with
+ * a message instead of an opaque `undefined`.
+ */
+function playgroundRequire(name: string): unknown {
+  if (!(name in modules)) {
+    throw new Error(`Cannot import "${name}" in the playground. Available: ${Object.keys(modules).join(', ')}`);
+  }
+  return modules[name];
+}
+
+/** Globals available to playground code without an import. */
+export const playgroundScope: Record<string, unknown> = {
+  React,
+  useCallback: React.useCallback,
+  useEffect: React.useEffect,
+  useMemo: React.useMemo,
+  useReducer: React.useReducer,
+  useRef: React.useRef,
+  useState: React.useState,
+  require: playgroundRequire,
+  XHubChatProvider: xhubChat.XHubChatProvider,
+  useXHubChat: xhubChat.useXHubChat,
+  useRooms: xhubChat.useRooms,
+  useRoom: xhubChat.useRoom,
+  useTimeline: xhubChat.useTimeline,
+  ClientEvent: xhubChat.ClientEvent,
+  RoomEvent: xhubChat.RoomEvent,
+  SyncState: xhubChat.SyncState,
+};
@@ -0,0 +1,83 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+// Playground state lives in the URL hash as `#pg-<id>=<payload>`, so several
+// playgrounds on one page can each be shared without clobbering the others.
+const STATE_VERSION = 1;
+
+export type PlaygroundState = {
+  code: string;
+};
+
+type EncodedState = PlaygroundState & { v: number };
+
+function hashKey(id: string): string {
+  return `pg-${id}`;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+function readHashParams(): URLSearchParams {
+  return new URLSearchParams(window.location.hash.replace(/^#/, ''));
+}
+
+/** Returns the shared state for `id`, or null when the hash holds none or it is malformed. */
+export function readSharedState(id: string): PlaygroundState | null {
+  const payload = readHashParams().get(hashKey(id));
+  if (!payload) return null;
+  try {
+    const parsed = JSON.parse(fromBase64Url(payload)) as EncodedState;
+    if (parsed.v !== STATE_VERSION || typeof parsed.code !== 'string') return null;
+    return { code: parsed.code };
+  } catch {
+    return null;
+  }
+}
+
+/** Builds the hash for `state` while keeping any other playground's entry. */
+export function buildSharedHash(id: string, state: PlaygroundState | null): string {
+  const params = readHashParams();
+  // A plain heading anchor (`#use-rooms`) has no `=` and would otherwise become a bogus key.
+  [...params.keys()].filter(key => !key.startsWith('pg-')).forEach(key => params.delete(key));
+  if (state) {
+    const encoded: EncodedState = { v: STATE_VERSION, ...state };
+    params.set(hashKey(id), toBase64Url(JSON.stringify(encoded)));
+  } else {
+    params.delete(hashKey(id));
+  }
+  const hash = params.toString();
+  return hash ? `#${hash}` : '';
+}
+
+/** Writes the state into the address bar without adding a history entry or scrolling. */
+export function writeSharedState(id: string, state: PlaygroundState | null): void {
+  const { pathname, search } = window.location;
+  window.history.replaceState(window.history.state, '', `${pathname}${search}${buildSharedHash(id, state)}`);
+}
@@ -0,0 +1,64 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import { usePluralForm } from '@docusaurus/theme-common';
+import Translate, { translate } from '@docusaurus/Translate';
+import { useReadingProgress } from '@site/src/reading';
+import styles from './styles.module.css';
+
+function useReadingTimeLabel(minutes: number): string {
+  const { selectMessage } = usePluralForm();
+  return selectMessage(
+    minutes,
+    translate(
+      {
+        id: 'theme.docs.readingTime.plurals',
+        message: 'One min read|{readingTime} min read',
+        description: 'Pluralized label for "{readingTime} min read" above doc pages. Use as much plural forms (separated by "|") as your language support (see https://www.unicode.org/cldr/cldr-aux/charts/34/supplemental/language_plural_rules.html)',
+      },
+      { readingTime: minutes },
+    ),
+  );
+}
+
+/** Reading time of the current doc, and a link back to where the reader left off. */
+export default function ReadingMeta(): ReactNode {
+  const reading = useReadingProgress();
+  const minutes = reading?.readingTime?.minutes ?? 0;
+  const label = useReadingTimeLabel(minutes);
+  if (!reading?.readingTime) return null;
+  const { resume, resumeReading, sections } = reading;
+  const resumeSection = resume && sections.find(section => section.id === resume.section);
+
+  return (
+    <div className={styles.meta}>
+      <span>{label}</span>
+      {resumeSection && (
+        <button type="button" className={styles.resume} onClick={resumeReading}>
+          <Translate
+            id="theme.docs.readingProgress.resume"
+            description="The button above a doc page that scrolls back to where the reader stopped last time"
+            values={{ section: <span dangerouslySetInnerHTML={{ __html: resumeSection.title }} /> }}
+          >
+            {'Continue from “{section}”'}
+          </Translate>
+        </button>
+      )}
+    </div>
+  );
+}
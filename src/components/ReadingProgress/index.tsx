@@ -0,0 +1,67 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import { translate } from '@docusaurus/Translate';
+import { useReadingProgress } from '@site/src/reading';
+import clsx from 'clsx';
+import styles from './styles.module.css';
+
+/**
+ * Fixed bar across the top of a doc page, split into one segment per section
+ * so readers can see how long each part is and which ones they have finished.
+ * Takes the place of the site-wide scroll bar on doc pages.
+ */
+export default function ReadingProgress(): ReactNode {
+  const reading = useReadingProgress();
+  if (!reading || reading.sections.length === 0) return null;
+  const { progress, sections, current, finished } = reading;
+
+  return (
+    <div
+      className={styles.bar}
+      role="progressbar"
+      aria-label={translate({
+        id: 'theme.docs.readingProgress.label',
+        message: 'Reading progress',
+        description: 'The ARIA label of the progress bar at the top of doc pages',
+      })}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress * 100)}
+    >
+      {sections.map((section) => {
+        const width = section.end - section.start;
+        if (width <= 0) return null;
+        const fill = Math.min(Math.max((progress - section.start) / width, 0), 1);
+        return (
+          <div
+            key={section.id ?? ''}
+            className={clsx(
+              styles.segment,
+              section.id && finished.has(section.id) && styles.finished,
+              section.id === current && styles.current,
+            )}
+            style={{ flexGrow: width }}
+          >
+            <div className={styles.fill} style={{ transform: `scaleX(${fill})` }} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
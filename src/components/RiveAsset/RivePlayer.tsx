@@ -0,0 +1,78 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import type { RiveAssetSpec } from './manifest';
+import { StateMachineInputType, useRive } from '@rive-app/react-canvas';
+import { useMotionPlayback } from '@site/src/utils/MotionProvider';
+import { useEffect } from 'react';
+
+/** Drives state machine inputs by their Rive editor names. */
+export type RiveController = {
+  /** Sets a boolean or number input, or fires a trigger when `value` is truthy. */
+  setInput: (input: string, value: boolean | number) => void;
+};
+
+export type RivePlayerProps = {
+  spec: RiveAssetSpec;
+  /** Absolute URL of `spec.src`, resolved against the base URL by the caller. */
+  url: string;
+  onLoad: () => void;
+  onError: () => void;
+  onStateChange: (states: string[]) => void;
+  onController: (controller: RiveController | null) => void;
+};
+
+/**
+ * The only module that imports the Rive runtime. `RiveAsset` loads it with
+ * `React.lazy` once the asset scrolls into view, so the runtime and its WASM
+ * stay out of the main bundle and never run during SSR.
+ */
+export default function RivePlayer({ spec, url, onLoad, onError, onStateChange, onController }: RivePlayerProps): ReactNode {
+  const stateMachines = typeof spec.stateMachines === 'string' ? spec.stateMachines : [...spec.stateMachines];
+  const { rive, RiveComponent } = useRive({
+    src: url,
+    artboard: spec.artboard,
+    stateMachines,
+    autoplay: true,
+    onLoad,
+    onLoadError: onError,
+    onStateChange: (event) => {
+      if (Array.isArray(event.data)) onStateChange(event.data);
+    },
+  });
+  useMotionPlayback(rive);
+
+  useEffect(() => {
+    if (!rive) return;
+    const machines = typeof stateMachines === 'string' ? [stateMachines] : stateMachines;
+    onController({
+      setInput: (name, value) => {
+        const input = machines.flatMap(machine => rive.stateMachineInputs(machine) ?? []).find(i => i.name === name);
+        if (!input) return;
+        if (input.type === StateMachineInputType.Trigger) {
+          if (value) input.fire();
+        } else {
+          input.value = value;
+        }
+      },
+    });
+    return () => onController(null);
+  }, [rive, onController]);
+
+  return <RiveComponent aria-hidden="true" style={{ width: '100%', height: '100%' }} />;
+}
@@ -0,0 +1,80 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { RiveAssetName, RiveStateName } from './manifest';
+import { useHistory } from '@docusaurus/router';
+import { useBaseUrlUtils } from '@docusaurus/useBaseUrl';
+import { useCallback } from 'react';
+
+/** What the site does when a Rive state machine enters a state. */
+export type RiveAction =
+  | {
+    type: 'navigate';
+    /** Site path; the base URL and locale are added. */
+    to: string;
+    /** Lets the state's animation play out before the page changes. */
+    delayMs?: number;
+  }
+  | {
+    type: 'track';
+    event: string;
+  }
+  | {
+    type: 'openModal';
+    modal: string;
+  };
+
+/** Site actions keyed by the asset's state names, checked against the manifest. */
+export type RiveActionMap<Name extends RiveAssetName> = Partial<Record<RiveStateName<Name>, RiveAction>>;
+
+export type RiveActionHandlers = {
+  [Type in RiveAction['type']]?: (action: Extract<RiveAction, { type: Type }>) => void;
+};
+
+/** Window event carrying `track` actions, for whichever analytics the deployment adds. */
+export const RIVE_TRACK_EVENT = 'xhub:rive-track';
+
+/**
+ * Runs site actions. Navigation and tracking work out of the box; `openModal`
+ * is a no-op unless the component owning the modal passes a handler.
+ */
+export function useRiveActionDispatcher(handlers: RiveActionHandlers = {}): (action: RiveAction) => void {
+  const history = useHistory();
+  const { withBaseUrl } = useBaseUrlUtils();
+  const { navigate, track, openModal } = handlers;
+
+  return useCallback((action: RiveAction) => {
+    switch (action.type) {
+      case 'navigate':
+        if (navigate) {
+          navigate(action);
+          return;
+        }
+        setTimeout(() => history.push(withBaseUrl(action.to)), action.delayMs ?? 0);
+        return;
+      case 'track':
+        if (track) {
+          track(action);
+          return;
+        }
+        window.dispatchEvent(new CustomEvent(RIVE_TRACK_EVENT, { detail: { event: action.event } }));
+        return;
+      case 'openModal':
+        openModal?.(action);
+    }
+  }, [history, withBaseUrl, navigate, track, openModal]);
+}
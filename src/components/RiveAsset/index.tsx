@@ -0,0 +1,153 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { CSSProperties, ReactNode, Ref } from 'react';
+import type { RiveActionHandlers, RiveActionMap } from './actions';
+import type { RiveAssetName, RiveInputName } from './manifest';
+import type { RiveController } from './RivePlayer';
+import ErrorBoundary from '@docusaurus/ErrorBoundary';
+import useBaseUrl from '@docusaurus/useBaseUrl';
+import clsx from 'clsx';
+import { lazy, Suspense, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { useRiveActionDispatcher } from './actions';
+import { RIVE_ASSETS } from './manifest';
+import styles from './styles.module.css';
+
+export * from './actions';
+export * from './manifest';
+
+const RivePlayer = lazy(() => import('./RivePlayer'));
+
+// Starts fetching the runtime a little before the asset is on screen.
+const PRELOAD_MARGIN = '200px';
+
+export type RiveLoadState = 'idle' | 'loading' | 'ready' | 'failed';
+
+export type RiveAssetHandle<Name extends RiveAssetName> = {
+  /** Sets an input of the state machine, or fires it if it is a trigger. No-op until loaded. */
+  setInput: (input: RiveInputName<Name>, value: boolean | number) => void;
+};
+
+export type RiveAssetProps<Name extends RiveAssetName> = {
+  name: Name;
+  className?: string;
+  style?: CSSProperties;
+  /** Hides the animation from assistive technology when a parent control already names it. */
+  decorative?: boolean;
+  /** Site actions to run when the state machine enters one of the asset's states. */
+  actions?: RiveActionMap<Name>;
+  /** Overrides how actions run, e.g. to open a modal owned by the parent. */
+  actionHandlers?: RiveActionHandlers;
+  onLoadStateChange?: (state: RiveLoadState) => void;
+  ref?: Ref<RiveAssetHandle<Name>>;
+};
+
+/**
+ * Plays a Rive animation from the manifest. The runtime is only loaded once
+ * the asset is near the viewport, and the manifest's SVG stands in when the
+ * file is missing, fails to parse, or JavaScript is off.
+ */
+export default function RiveAsset<Name extends RiveAssetName>({
+  name,
+  className,
+  style,
+  decorative = false,
+  actions,
+  actionHandlers,
+  onLoadStateChange,
+  ref,
+}: RiveAssetProps<Name>): ReactNode {
+  const spec = RIVE_ASSETS[name];
+  const url = useBaseUrl(`/${spec.src}`);
+  const fallbackUrl = useBaseUrl(`/${spec.fallback}`);
+  const hostRef = useRef<HTMLDivElement>(null);
+  const controllerRef = useRef<RiveController | null>(null);
+  const [state, setState] = useState<RiveLoadState>('pending' in spec && spec.pending ? 'failed' : 'idle');
+  const dispatch = useRiveActionDispatcher(actionHandlers);
+
+  useEffect(() => {
+    const host = hostRef.current;
+    if (!host || state !== 'idle') return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setState('loading');
+      return;
+    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) setState('loading');
+    }, { rootMargin: PRELOAD_MARGIN });
+    observer.observe(host);
+    return () => observer.disconnect();
+  }, [state]);
+
+  useEffect(() => {
+    onLoadStateChange?.(state);
+  }, [state, onLoadStateChange]);
+
+  useImperativeHandle(ref, () => ({
+    setInput: (input, value) => {
+      const inputs: Record<string, string> | undefined = 'inputs' in spec ? spec.inputs : undefined;
+      const riveName = inputs?.[input];
+      if (riveName) controllerRef.current?.setInput(riveName, value);
+    },
+  }), [spec]);
+
+  const onController = useCallback((controller: RiveController | null) => {
+    controllerRef.current = controller;
+  }, []);
+
+  // Rive keeps the callback it was created with, so read the latest actions through a ref.
+  const stateHandlerRef = useRef<(entered: string[]) => void>(() => {});
+  stateHandlerRef.current = (entered) => {
+    const states: Record<string, string> | undefined = 'states' in spec ? spec.states : undefined;
+    if (!states || !actions) return;
+    // Rive reports its own state names; map them back to ours to find the action.
+    Object.entries(states).forEach(([ours, riveName]) => {
+      const action = actions[ours as keyof typeof actions];
+      if (action && entered.includes(riveName)) dispatch(action);
+    });
+  };
+  const onStateChange = useCallback((entered: string[]) => stateHandlerRef.current(entered), []);
+
+  const fallback = <img className={styles.fallback} src={fallbackUrl} alt="" />;
+
+  return (
+    <div
+      ref={hostRef}
+      className={clsx(styles.asset, className)}
+      style={style}
+      {...(decorative ? { 'aria-hidden': true } : { 'role': 'img', 'aria-label': spec.label })}
+    >
+      {state === 'failed' && fallback}
+      {(state === 'loading' || state === 'ready') && (
+        // Also catches a runtime chunk that fails to download.
+        <ErrorBoundary fallback={() => fallback}>
+          <Suspense fallback={null}>
+            <RivePlayer
+              spec={spec}
+              url={url}
+              onLoad={() => setState('ready')}
+              onError={() => setState('failed')}
+              onStateChange={onStateChange}
+              onController={onController}
+            />
+          </Suspense>
+        </ErrorBoundary>
+      )}
+      {state === 'idle' && <noscript>{fallback}</noscript>}
+    </div>
+  );
+}
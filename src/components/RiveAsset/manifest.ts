@@ -0,0 +1,85 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+export type RiveAssetSpec = {
+  /** `.riv` file under `static`, without a leading slash. */
+  src: string;
+  /** Defaults to the file's first artboard. */
+  artboard?: string;
+  stateMachines: string | readonly string[];
+  /** Static SVG under `static`, shown without JavaScript and when the file fails to load or parse. */
+  fallback: string;
+  /** Accessible name of the animation. */
+  label: string;
+  /**
+   * The `.riv` file is not in `static` yet. The fallback is shown without
+   * requesting the file, and the build check warns instead of failing.
+   */
+  pending?: boolean;
+  /** States the site reacts to, keyed by our name; values are state names in the Rive editor. */
+  states?: Record<string, string>;
+  /** State machine inputs the site drives, keyed by our name; values are input names in the Rive editor. */
+  inputs?: Record<string, string>;
+};
+
+/**
+ * Every Rive animation on the site. Components refer to assets by name, and
+ * plugins/rive-assets fails the build when a file listed here is missing.
+ */
+export const RIVE_ASSETS = {
+  blackCat: {
+    src: 'rive/black_cat.riv',
+    artboard: 'WCT 01',
+    stateMachines: 'BLACK CATW',
+    fallback: 'img/rive/black-cat.svg',
+    label: 'Black cat',
+    pending: true,
+  },
+  catButton: {
+    src: 'rive/cat_button.riv',
+    artboard: 'Get Started',
+    stateMachines: 'State Machine 1',
+    fallback: 'img/rive/cat-button.svg',
+    label: 'Get Started',
+    states: {
+      // The cat has finished reacting to a click.
+      clicked: 'appeared click ex',
+    },
+    inputs: {
+      hover: 'hover',
+      click: 'clicked',
+    },
+  },
+  happyMeeple: {
+    src: 'rive/happy_meeple.riv',
+    stateMachines: 'Meeples',
+    fallback: 'img/rive/happy-meeple.svg',
+    label: 'Happy meeples',
+  },
+} as const satisfies Record<string, RiveAssetSpec>;
+
+export type RiveAssetName = keyof typeof RIVE_ASSETS;
+
+type SpecOf<Name extends RiveAssetName> = (typeof RIVE_ASSETS)[Name];
+
+/** Our names for the states of `Name` that the site can react to. */
+export type RiveStateName<Name extends RiveAssetName> =
+  SpecOf<Name> extends { states: infer States } ? keyof States & string : never;
+
+/** Our names for the inputs of `Name` that the site can drive. */
+export type RiveInputName<Name extends RiveAssetName> =
+  SpecOf<Name> extends { inputs: infer Inputs } ? keyof Inputs & string : never;
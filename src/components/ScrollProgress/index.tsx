@@ -15,10 +15,12 @@ Legal Department
 UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
+import { useMotion } from '@site/src/utils/MotionProvider';
 import React, { useEffect, useState } from 'react';
 
 export default function ScrollProgress(): React.ReactElement {
   const [scrollProgress, setScrollProgress] = useState(0);
+  const { reduceMotion } = useMotion();
 
   useEffect(() => {
     const handleScroll = () => {
@@ -43,10 +45,10 @@ export default function ScrollProgress(): React.ReactElement {
         top: 0,
         left: 0,
         height: '3px',
-        background: 'linear-gradient(90deg, #6366f1, #764ba2)',
+        background: 'var(--xhub-progress-gradient)',
         width: `${scrollProgress}%`,
         zIndex: 9999,
-        transition: 'width 0.1s ease-out',
+        transition: reduceMotion ? 'none' : 'width 0.1s ease-out',
       }}
     />
   );
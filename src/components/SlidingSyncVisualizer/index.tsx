@@ -0,0 +1,264 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { SyncRange } from '@site/src/mocks/sliding-sync';
+import type { ReactNode, UIEvent } from 'react';
+import type { SentRoom, SyncExchange } from './useSlidingSyncSimulation';
+import Translate, { translate } from '@docusaurus/Translate';
+import { useMotion } from '@site/src/utils/MotionProvider';
+import clsx from 'clsx';
+import { useEffect, useRef, useState } from 'react';
+import styles from './styles.module.css';
+import { useSlidingSyncSimulation } from './useSlidingSyncSimulation';
+
+type SlidingSyncVisualizerProps = {
+  /** Scenario from src/mocks/sliding-sync/scenarios. */
+  scenario?: string;
+  /** Rows visible in the simulated room list. */
+  visibleRows?: number;
+  /** Extra rows requested below the visible ones, so short scrolls need no round trip. */
+  bufferRows?: number;
+  timelineLimit?: number;
+};
+
+const ROW_HEIGHT = 36;
+// How often the client polls while playing, like a long-poll that returns at once.
+const POLL_MS = 1500;
+const SCROLL_DEBOUNCE_MS = 150;
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+function formatRange([start, end]: SyncRange): string {
+  return `[${start}, ${end}]`;
+}
+
+function reasonLabel(room: SentRoom): string {
+  const reason = room.reason === 'initial'
+    ? translate({ id: 'slidingSync.reason.initial', message: 'first time in view', description: 'Why a room was sent: the connection had not seen it yet' })
+    : translate({ id: 'slidingSync.reason.update', message: 'new messages', description: 'Why a room was sent: it has new events' });
+  const extras = [
+    room.limited && translate({ id: 'slidingSync.reason.limited', message: 'gap', description: 'Marks a room response with limited: true' }),
+    room.viaSubscription && translate({ id: 'slidingSync.reason.subscription', message: 'subscription', description: 'Marks a room sent only because it is subscribed' }),
+  ].filter(Boolean);
+  return extras.length > 0 ? `${reason} · ${extras.join(' · ')}` : reason;
+}
+
+function Exchange({ exchange }: { exchange: SyncExchange }) {
+  const range = exchange.request.lists?.rooms?.ranges[0];
+  const subscriptions = Object.keys(exchange.request.room_subscriptions ?? {});
+  return (
+    <li className={styles.exchange}>
+      <div className={styles.request}>
+        <span aria-hidden>→</span>
+        {' '}
+        <span className={styles.tick}>{`#${exchange.tick}`}</span>
+        {range && <code>{`ranges ${formatRange(range)}`}</code>}
+        {subscriptions.map(roomId => <code key={roomId}>{`subscribe ${roomId}`}</code>)}
+      </div>
+      <div className={styles.response}>
+        <span aria-hidden>←</span>
+        {' '}
+        {exchange.error
+          ? <span className={styles.error}>{exchange.error}</span>
+          : exchange.sent.length === 0
+            ? (
+                <span className={styles.nothing}>
+                  {exchange.ops.length > 0
+                    ? translate({ id: 'slidingSync.response.reordered', message: 'window reordered, no room data', description: 'Response that only moved rooms within the window' })
+                    : translate({ id: 'slidingSync.response.empty', message: 'nothing changed in view', description: 'Response without rooms or list changes' })}
+                </span>
+              )
+            : exchange.sent.map(room => (
+                <span key={room.roomId} className={clsx(styles.sent, room.reason === 'initial' && styles.initial)}>
+                  {`${room.name} (${room.events}) · ${reasonLabel(room)}`}
+                </span>
+              ))}
+      </div>
+      {!exchange.error && (
+        <div className={styles.bytes}>
+          <Translate
+            id="slidingSync.response.bytes"
+            description="Size of one sliding sync response compared with a client that requests every room"
+            values={{ bytes: formatBytes(exchange.bytes), full: formatBytes(exchange.fullBytes) }}
+          >
+            {'{bytes}, full list: {full}'}
+          </Translate>
+        </div>
+      )}
+      <details className={styles.json}>
+        <summary>JSON</summary>
+        <pre>{JSON.stringify({ request: exchange.request, response: exchange.response ?? exchange.error }, null, 2)}</pre>
+      </details>
+    </li>
+  );
+}
+
+/**
+ * A simulated room list synced with sliding sync against the in-browser mock
+ * server. Scrolling moves the requested window, clicking a room subscribes
+ * to it, and every request/response pair is logged with its size next to
+ * what a client asking for the whole list would have received.
+ */
+export default function SlidingSyncVisualizer({
+  scenario = 'busy-list',
+  visibleRows = 8,
+  bufferRows = 2,
+  timelineLimit = 5,
+}: SlidingSyncVisualizerProps): ReactNode {
+  const sim = useSlidingSyncSimulation(scenario, timelineLimit);
+  const { reduceMotion, hidden } = useMotion();
+  const [playing, setPlaying] = useState(true);
+  // Bumped by Reset, so the current window is requested again on the new connection.
+  const [connection, setConnection] = useState(0);
+  const [range, setRange] = useState<SyncRange>([0, visibleRows + bufferRows - 1]);
+  const [subscription, setSubscription] = useState<string | null>(null);
+  const latest = useRef({ range, subscription, sync: sim.sync });
+  latest.current = { range, subscription, sync: sim.sync };
+
+  // A new window or subscription is requested at once, after scrolling settles.
+  useEffect(() => {
+    const timer = setTimeout(() => latest.current.sync(range, subscription), SCROLL_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [range, subscription, connection]);
+
+  // Updates keep arriving while playing, so readers who asked for less motion start paused.
+  useEffect(() => {
+    if (reduceMotion) setPlaying(false);
+  }, [reduceMotion]);
+
+  useEffect(() => {
+    if (!playing || hidden) return;
+    const timer = setInterval(() => latest.current.sync(latest.current.range, latest.current.subscription), POLL_MS);
+    return () => clearInterval(timer);
+  }, [playing, hidden]);
+
+  const onScroll = (event: UIEvent<HTMLDivElement>) => {
+    const start = Math.floor(event.currentTarget.scrollTop / ROW_HEIGHT);
+    if (start !== range[0]) setRange([start, start + visibleRows + bufferRows - 1]);
+  };
+
+  const restart = () => {
+    sim.reset();
+    setSubscription(null);
+    setConnection(value => value + 1);
+  };
+
+  const lastTick = sim.exchanges[0]?.tick;
+  const saved = sim.totals.fullBytes > 0 ? Math.round((1 - sim.totals.bytes / sim.totals.fullBytes) * 100) : 0;
+  const rows = Math.max(sim.count, visibleRows);
+
+  return (
+    <div className={styles.visualizer}>
+      <div className={styles.toolbar}>
+        <button type="button" className="button button--sm button--primary" onClick={() => setPlaying(value => !value)}>
+          {playing
+            ? translate({ id: 'slidingSync.pause', message: 'Pause', description: 'Stops the sliding sync visualizer from polling' })
+            : translate({ id: 'slidingSync.play', message: 'Play', description: 'Lets the sliding sync visualizer poll again' })}
+        </button>
+        <button type="button" className="button button--sm button--secondary" onClick={() => sim.sync(range, subscription)}>
+          <Translate id="slidingSync.step" description="Sends one sliding sync request in the visualizer">Send one request</Translate>
+        </button>
+        <button type="button" className="button button--sm button--secondary" onClick={restart}>
+          <Translate id="slidingSync.reset" description="Restarts the sliding sync visualizer">Reset</Translate>
+        </button>
+        <span className={styles.status}>
+          <Translate
+            id="slidingSync.status"
+            description="Tick and requested window of the sliding sync visualizer"
+            values={{ tick: sim.tick, range: <code>{formatRange(range)}</code>, count: sim.count }}
+          >
+            {'Tick {tick} · window {range} of {count} rooms'}
+          </Translate>
+        </span>
+      </div>
+      <div className={styles.columns}>
+        <div>
+          <div
+            className={styles.viewport}
+            style={{ height: visibleRows * ROW_HEIGHT }}
+            onScroll={onScroll}
+            tabIndex={0}
+            aria-label={translate({ id: 'slidingSync.list', message: 'Simulated room list', description: 'Accessible name of the room list in the sliding sync visualizer' })}
+          >
+            <div className={styles.content} style={{ height: rows * ROW_HEIGHT }}>
+              <div className={styles.window} style={{ top: range[0] * ROW_HEIGHT, height: (range[1] - range[0] + 1) * ROW_HEIGHT }} aria-hidden />
+              {Array.from({ length: rows }, (_, idx) => {
+                const roomId = sim.list[idx] ?? null;
+                const room = roomId ? sim.rooms[roomId] : undefined;
+                const inWindow = idx >= range[0] && idx <= range[1];
+                return (
+                  <button
+                    key={idx}
+                    type="button"
+                    className={clsx(
+                      styles.row,
+                      !room && styles.unknown,
+                      room && !inWindow && styles.stale,
+                      room && room.updatedAt === lastTick && styles.updated,
+                      roomId && roomId === subscription && styles.subscribed,
+                    )}
+                    style={{ top: idx * ROW_HEIGHT, height: ROW_HEIGHT }}
+                    disabled={!roomId}
+                    aria-pressed={roomId !== null && roomId === subscription}
+                    onClick={() => setSubscription(prev => (prev === roomId ? null : roomId))}
+                  >
+                    <span className={styles.index}>{idx}</span>
+                    <span className={styles.name}>{room?.name ?? '…'}</span>
+                    {room && <span className={styles.preview}>{room.lastBody}</span>}
+                    {room && room.unread > 0 && <span className="badge badge--primary">{room.unread}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <p className={styles.hint}>
+            <Translate id="slidingSync.hint" description="Instructions under the sliding sync visualizer's room list">
+              Scroll to move the window. Click a room to subscribe to it, so it stays up to date outside the window. Faded rooms are outside the window and may be out of date.
+            </Translate>
+          </p>
+        </div>
+        <div>
+          <p className={styles.totals}>
+            <Translate
+              id="slidingSync.totals"
+              description="Bandwidth of the windowed client compared with a client that requests every room"
+              values={{ bytes: formatBytes(sim.totals.bytes), full: formatBytes(sim.totals.fullBytes), saved }}
+            >
+              {'Received {bytes}. A client asking for the whole list would have received {full}; the window saved {saved}%.'}
+            </Translate>
+          </p>
+          <ol className={styles.log} aria-live="polite">
+            {sim.inFlight && (
+              <li className={clsx(styles.exchange, styles.pending)}>
+                <div className={styles.request}>
+                  <span aria-hidden>→</span>
+                  {' '}
+                  <code>{`ranges ${formatRange(sim.inFlight.lists?.rooms?.ranges[0] ?? range)}`}</code>
+                  <span className={styles.nothing}>
+                    <Translate id="slidingSync.waiting" description="Shown while a sliding sync request is in flight">waiting for the server…</Translate>
+                  </span>
+                </div>
+              </li>
+            )}
+            {sim.exchanges.map(exchange => <Exchange key={exchange.tick} exchange={exchange} />)}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ListOp, SlidingSyncRequest, SlidingSyncResponse, SyncRange } from '@site/src/mocks/sliding-sync';
+import { createInMemoryTransport, scenarios, SlidingSyncEngine, SlidingSyncTransportError } from '@site/src/mocks/sliding-sync';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const LIST = 'rooms';
+// Large enough to cover every room of any scenario.
+const FULL_RANGE: SyncRange = [0, 9999];
+const MAX_EXCHANGES = 20;
+
+export type SentRoom = {
+  roomId: string;
+  name: string;
+  /** `initial` the first time the connection sees the room, `update` when it has new events. */
+  reason: 'initial' | 'update';
+  events: number;
+  limited: boolean;
+  /** Sent only because of the room subscription, not the list window. */
+  viaSubscription: boolean;
+};
+
+export type SyncExchange = {
+  tick: number;
+  request: SlidingSyncRequest;
+  response: SlidingSyncResponse | null;
+  /** Error code when the request failed. */
+  error?: string;
+  ops: ListOp[];
+  sent: SentRoom[];
+  /** Size of the response, and of the same response for a client that asks for the whole list. */
+  bytes: number;
+  fullBytes: number;
+};
+
+export type ClientRoom = {
+  name: string;
+  unread: number;
+  lastBody: string;
+  /** Tick of the response that last carried this room. */
+  updatedAt: number;
+};
+
+export type SimulationState = {
+  tick: number;
+  /** Rooms in the server's list, as of the last response. */
+  count: number;
+  /** Room id at each list index as far as the client knows; `null` where it has none. */
+  list: (string | null)[];
+  rooms: Record<string, ClientRoom>;
+  /** Newest first. */
+  exchanges: SyncExchange[];
+  inFlight: SlidingSyncRequest | null;
+  totals: { bytes: number; fullBytes: number };
+};
+
+type Simulation = {
+  transport: ReturnType<typeof createInMemoryTransport>;
+  /** Same scenario, synced by a client that asks for every room, for comparison. */
+  full: SlidingSyncEngine;
+  pos?: string;
+  fullPos?: string;
+};
+
+const EMPTY_STATE: SimulationState = {
+  tick: 0,
+  count: 0,
+  list: [],
+  rooms: {},
+  exchanges: [],
+  inFlight: null,
+  totals: { bytes: 0, fullBytes: 0 },
+};
+
+function byteLength(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+/** Applies list operations, dropping rooms from their old index when they move. */
+function applyOps(list: (string | null)[], ops: ListOp[], count: number): (string | null)[] {
+  let next = Array.from({ length: count }, (_, idx) => list[idx] ?? null);
+  ops.forEach((op) => {
+    if (op.op === 'INVALIDATE') {
+      next = next.map((id, idx) => (idx >= op.range[0] && idx <= op.range[1] ? null : id));
+      return;
+    }
+    const moved = new Set(op.room_ids);
+    next = next.map(id => (id && moved.has(id) ? null : id));
+    op.room_ids.forEach((id, offset) => {
+      next[op.range[0] + offset] = id;
+    });
+  });
+  return next;
+}
+
+function applyResponse(
+  prev: SimulationState,
+  request: SlidingSyncRequest,
+  response: SlidingSyncResponse,
+  fullBytes: number,
+  tick: number,
+): SimulationState {
+  const list = response.lists[LIST];
+  const ops = list?.ops ?? [];
+  const windowIds = new Set(ops.flatMap(op => (op.op === 'SYNC' ? op.room_ids : [])));
+  const [start, end] = request.lists?.[LIST]?.ranges[0] ?? [0, -1];
+  prev.list.forEach((id, idx) => {
+    if (id && idx >= start && idx <= end) windowIds.add(id);
+  });
+
+  const rooms = { ...prev.rooms };
+  const sent = Object.entries(response.rooms).map(([roomId, data]): SentRoom => {
+    const last = data.timeline.at(-1);
+    rooms[roomId] = {
+      name: data.name,
+      unread: data.notification_count,
+      lastBody: typeof last?.content.body === 'string' ? last.content.body : rooms[roomId]?.lastBody ?? '',
+      updatedAt: tick,
+    };
+    return {
+      roomId,
+      name: data.name,
+      reason: data.initial ? 'initial' : 'update',
+      events: data.timeline.length,
+      limited: data.limited ?? false,
+      viaSubscription: !windowIds.has(roomId) && roomId in (request.room_subscriptions ?? {}),
+    };
+  });
+
+  const bytes = byteLength(response);
+  const count = list?.count ?? prev.count;
+  return {
+    tick,
+    count,
+    list: applyOps(prev.list, ops, count),
+    rooms,
+    exchanges: [{ tick, request, response, ops, sent, bytes, fullBytes }, ...prev.exchanges].slice(0, MAX_EXCHANGES),
+    inFlight: null,
+    totals: { bytes: prev.totals.bytes + bytes, fullBytes: prev.totals.fullBytes + fullBytes },
+  };
+}
+
+function createSimulation(scenario: string, latencyMs: number): Simulation {
+  const script = scenarios[scenario];
+  if (!script) {
+    throw new Error(`Unknown sliding sync scenario "${scenario}". Available: ${Object.keys(scenarios).join(', ')}`);
+  }
+  return { transport: createInMemoryTransport(script, { latencyMs }), full: new SlidingSyncEngine(script) };
+}
+
+/**
+ * Sends the comparison client's request for the same tick; both engines
+ * advance one tick per request, so they stay in step. Returns the size of
+ * its response, or 0 when it failed too.
+ */
+function syncFullList(sim: Simulation, timelineLimit: number): number {
+  const result = sim.full.handle({
+    ...(sim.fullPos ? { pos: sim.fullPos } : {}),
+    lists: { [LIST]: { ranges: [FULL_RANGE], timeline_limit: timelineLimit } },
+  });
+  sim.fullPos = result.status === 200 ? result.body.pos : undefined;
+  return result.status === 200 ? byteLength(result.body) : 0;
+}
+
+export type SlidingSyncSimulation = SimulationState & {
+  /** Sends one request for `range`, or queues it while another is in flight. */
+  sync: (range: SyncRange, subscription: string | null) => void;
+  /** Restarts the scenario on a fresh connection. */
+  reset: () => void;
+};
+
+/**
+ * Runs a sliding sync client against the in-browser mock server, one
+ * request at a time, and keeps what a visualizer needs: the client's view
+ * of the list, every request/response pair, and how many bytes a client
+ * asking for the whole list would have received for the same ticks.
+ */
+export function useSlidingSyncSimulation(scenario: string, timelineLimit: number, latencyMs = 250): SlidingSyncSimulation {
+  const [state, setState] = useState<SimulationState>(EMPTY_STATE);
+  const simRef = useRef<Simulation | null>(null);
+  const busyRef = useRef(false);
+  const queuedRef = useRef<{ range: SyncRange; subscription: string | null } | null>(null);
+  // Bumped by reset, so responses for the previous run are dropped.
+  const runRef = useRef(0);
+
+  const sync = useCallback((range: SyncRange, subscription: string | null) => {
+    if (busyRef.current) {
+      queuedRef.current = { range, subscription };
+      return;
+    }
+    simRef.current ??= createSimulation(scenario, latencyMs);
+    const sim = simRef.current;
+    const run = runRef.current;
+    busyRef.current = true;
+
+    const request: SlidingSyncRequest = {
+      ...(sim.pos ? { pos: sim.pos } : {}),
+      lists: { [LIST]: { ranges: [range], timeline_limit: timelineLimit } },
+      ...(subscription ? { room_subscriptions: { [subscription]: { timeline_limit: timelineLimit } } } : {}),
+    };
+    setState(prev => ({ ...prev, inFlight: request }));
+
+    sim.transport.sync(request)
+      .then((response) => {
+        if (run !== runRef.current) return;
+        sim.pos = response.pos;
+        const fullBytes = syncFullList(sim, timelineLimit);
+        const tick = sim.transport.engine.currentTick;
+        setState(prev => applyResponse(prev, request, response, fullBytes, tick));
+      })
+      .catch((error: unknown) => {
+        if (run !== runRef.current) return;
+        const errcode = error instanceof SlidingSyncTransportError ? error.errcode : 'M_UNAVAILABLE';
+        // The server forgot the connection; start over like a real client would.
+        if (errcode === 'M_UNKNOWN_POS') sim.pos = undefined;
+        syncFullList(sim, timelineLimit);
+        const tick = sim.transport.engine.currentTick;
+        setState(prev => ({
+          ...prev,
+          tick,
+          inFlight: null,
+          exchanges: [{ tick, request, response: null, error: errcode, ops: [], sent: [], bytes: 0, fullBytes: 0 }, ...prev.exchanges].slice(0, MAX_EXCHANGES),
+        }));
+      })
+      .finally(() => {
+        if (run !== runRef.current) return;
+        busyRef.current = false;
+        const next = queuedRef.current;
+        queuedRef.current = null;
+        if (next) syncRef.current(next.range, next.subscription);
+      });
+  }, [scenario, timelineLimit, latencyMs]);
+
+  const syncRef = useRef(sync);
+  useEffect(() => {
+    syncRef.current = sync;
+  }, [sync]);
+
+  const reset = useCallback(() => {
+    runRef.current++;
+    simRef.current = null;
+    busyRef.current = false;
+    queuedRef.current = null;
+    setState(EMPTY_STATE);
+  }, []);
+
+  // A new scenario or limit means a new connection.
+  useEffect(() => reset, [reset, scenario, timelineLimit]);
+
+  return { ...state, sync, reset };
+}
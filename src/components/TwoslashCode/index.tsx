@@ -0,0 +1,185 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ReactNode } from 'react';
+import type { Token } from 'prism-react-renderer';
+import type { TwoslashHover, TwoslashRange, TwoslashResult } from './types';
+import { translate } from '@docusaurus/Translate';
+import { usePrismTheme } from '@docusaurus/theme-common';
+import CodeBlockContainer from '@theme/CodeBlock/Container';
+import clsx from 'clsx';
+import { Highlight } from 'prism-react-renderer';
+import { Fragment, useCallback, useMemo, useRef, useState } from 'react';
+import styles from './styles.module.css';
+
+type TwoslashCodeProps = {
+  language: 'ts' | 'tsx';
+  title?: string;
+  /** `TwoslashResult` as JSON, written by plugins/remark-twoslash. */
+  data: string;
+};
+
+type ActiveHover = {
+  hover: TwoslashHover;
+  top: number;
+  left: number;
+};
+
+type Piece = {
+  token: Token;
+  start: number;
+};
+
+const inRange = (range: TwoslashRange, column: number) => column >= range.start && column < range.start + range.length;
+
+/** Splits a line's tokens where hover and error ranges begin or end. */
+function splitTokens(tokens: Token[], ranges: TwoslashRange[]): Piece[] {
+  const cuts = ranges.flatMap(range => [range.start, range.start + range.length]).sort((a, b) => a - b);
+  const pieces: Piece[] = [];
+  let offset = 0;
+  tokens.forEach((token) => {
+    const end = offset + token.content.length;
+    let from = offset;
+    cuts.filter(cut => cut > offset && cut < end).concat(end).forEach((cut) => {
+      if (cut === from) return;
+      pieces.push({ token: { ...token, content: token.content.slice(from - offset, cut - offset) }, start: from });
+      from = cut;
+    });
+    offset = end;
+  });
+  return pieces;
+}
+
+function QuickInfo({ text }: { text: string }) {
+  const prismTheme = usePrismTheme();
+  return (
+    <Highlight theme={prismTheme} code={text} language="tsx">
+      {({ tokens, getTokenProps }) => (
+        <code className={styles.quickInfo}>
+          {tokens.map((line, i) => (
+            <Fragment key={i}>
+              {i > 0 && '\n'}
+              {line.map((token, key) => <span key={key} {...getTokenProps({ token })} />)}
+            </Fragment>
+          ))}
+        </code>
+      )}
+    </Highlight>
+  );
+}
+
+/**
+ * Code block with type information computed at build time: hovering an
+ * identifier shows its type, `// ^?` queries show their answer under the
+ * line, and expected compiler errors are underlined and explained.
+ */
+export default function TwoslashCode({ language, title, data }: TwoslashCodeProps): ReactNode {
+  const result = useMemo(() => JSON.parse(data) as TwoslashResult, [data]);
+  const prismTheme = usePrismTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [active, setActive] = useState<ActiveHover | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const show = useCallback((hover: TwoslashHover, target: HTMLElement) => {
+    const container = containerRef.current!.getBoundingClientRect();
+    const rect = target.getBoundingClientRect();
+    setActive({ hover, top: rect.bottom - container.top + 4, left: rect.left - container.left });
+  }, []);
+
+  const handleCopy = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(result.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard access can be denied; the code can still be selected.
+    }
+  }, [result.code]);
+
+  return (
+    <CodeBlockContainer as="div" className={clsx(styles.twoslash, `language-${language}`)}>
+      <div ref={containerRef} className={styles.frame}>
+        {title && <div className={styles.title}>{title}</div>}
+        <Highlight theme={prismTheme} code={result.code} language={language}>
+          {({ className, style, tokens, getLineProps, getTokenProps }) => (
+            <pre className={clsx(className, styles.pre)} style={style}>
+              <code className={styles.lines}>
+                {tokens.map((line, i) => {
+                  const hovers = result.hovers.filter(hover => hover.line === i);
+                  const errors = result.errors.filter(error => error.line === i);
+                  return (
+                    <Fragment key={i}>
+                      <span {...getLineProps({ line, className: styles.line })}>
+                        {splitTokens(line, [...hovers, ...errors]).map(({ token, start }) => {
+                          const hover = hovers.find(range => inRange(range, start));
+                          const props = getTokenProps({
+                            token,
+                            className: clsx(hover && styles.hoverable, errors.some(range => inRange(range, start)) && styles.squiggle),
+                          });
+                          return hover
+                            ? (
+                                <span
+                                  key={start}
+                                  {...props}
+                                  onMouseEnter={event => show(hover, event.currentTarget)}
+                                  onMouseLeave={() => setActive(null)}
+                                />
+                              )
+                            : <span key={start} {...props} />;
+                        })}
+                      </span>
+                      {result.queries.filter(query => query.line === i).map(query => (
+                        <span key={`q${query.start}`} className={styles.query} style={{ marginLeft: `${query.start}ch` }}>
+                          <QuickInfo text={query.text} />
+                        </span>
+                      ))}
+                      {errors.map(error => (
+                        <span key={`e${error.start}`} className={styles.error}>
+                          {error.message}
+                          <span className={styles.errorCode}>{` TS${error.code}`}</span>
+                        </span>
+                      ))}
+                    </Fragment>
+                  );
+                })}
+              </code>
+            </pre>
+          )}
+        </Highlight>
+        <button
+          type="button"
+          className={clsx('clean-btn', styles.copy)}
+          aria-label={translate({
+            id: 'theme.CodeBlock.copyButtonAriaLabel',
+            message: 'Copy code to clipboard',
+            description: 'The ARIA label for copy code blocks button',
+          })}
+          onClick={handleCopy}
+        >
+          {copied
+            ? translate({ id: 'theme.CodeBlock.copied', message: 'Copied', description: 'The copied button label on code blocks' })
+            : translate({ id: 'theme.CodeBlock.copy', message: 'Copy', description: 'The copy button label on code blocks' })}
+        </button>
+        {active && (
+          <div role="tooltip" className={styles.popup} style={{ top: active.top, left: active.left }}>
+            <QuickInfo text={active.hover.text} />
+            {active.hover.docs && <p className={styles.docs}>{active.hover.docs}</p>}
+          </div>
+        )}
+      </div>
+    </CodeBlockContainer>
+  );
+}
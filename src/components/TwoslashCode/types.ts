@@ -0,0 +1,50 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+/** Position of a range in `TwoslashResult.code`; `line` is 0-based. */
+export type TwoslashRange = {
+  line: number;
+  start: number;
+  length: number;
+};
+
+export type TwoslashHover = TwoslashRange & {
+  /** Quick info, as an editor shows it on hover. */
+  text: string;
+  docs?: string;
+};
+
+/** Type shown under the line a `// ^?` comment points into. */
+export type TwoslashQuery = {
+  line: number;
+  start: number;
+  text: string;
+};
+
+/** Compiler error the block expects, listed with `// @errors:`. */
+export type TwoslashError = TwoslashRange & {
+  code: number;
+  message: string;
+};
+
+/** Type information computed at build time for one code block. */
+export type TwoslashResult = {
+  /** Code as shown, without twoslash comments or lines above `// ---cut---`. */
+  code: string;
+  hovers: TwoslashHover[];
+  queries: TwoslashQuery[];
+  errors: TwoslashError[];
+};
@@ -15,30 +15,85 @@ Legal Department
 UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
+import type { RiveActionMap, RiveAssetHandle, RiveLoadState } from '@site/src/components/RiveAsset';
+import type { KeyboardEvent, MouseEvent } from 'react';
+import Link from '@docusaurus/Link';
 import { useHistory } from '@docusaurus/router';
-import { useRive } from '@rive-app/react-canvas';
+import { translate } from '@docusaurus/Translate';
+import { useBaseUrlUtils } from '@docusaurus/useBaseUrl';
+import RiveAsset from '@site/src/components/RiveAsset';
+import { useMotion } from '@site/src/utils/MotionProvider';
+import { useEffect, useRef, useState } from 'react';
+import styles from './styles.module.css';
 
+const QUICK_START = '/docs/getting-started/quick-start';
+
+const CAT_ACTIONS: RiveActionMap<'catButton'> = {
+  // The delay lets the click animation finish before the page changes.
+  clicked: { type: 'navigate', to: QUICK_START, delayMs: 100 },
+};
+
+// Keyboard activation navigates anyway if the state machine never reaches `clicked`.
+const KEYBOARD_TIMEOUT_MS = 1500;
+
+/**
+ * The hero's "Get Started" call to action. It is a real link, so it works
+ * without JavaScript and while the animation is paused or missing; when the
+ * cat is playing, clicks and Enter/Space go through the state machine and
+ * its `clicked` state navigates.
+ */
 export default function CatButton() {
   const history = useHistory();
-  const { RiveComponent } = useRive({
-    src: '/rive/cat_button.riv',
-    stateMachines: 'State Machine 1',
-    artboard: 'Get Started',
-    autoplay: true,
-    onStateChange: (e) => {
-      if ((e.data as string[]).includes('appeared click ex')) {
-        setTimeout(() => {
-          history.push('/docs/getting-started/quick-start');
-        }, 100);
-      }
-    },
-  });
+  const { withBaseUrl } = useBaseUrlUtils();
+  const { reduceMotion } = useMotion();
+  const riveRef = useRef<RiveAssetHandle<'catButton'>>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [loadState, setLoadState] = useState<RiveLoadState>('idle');
+  const animated = loadState === 'ready' && !reduceMotion;
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  }, []);
+
+  const onClick = (e: MouseEvent) => {
+    // Rive's own pointer listener plays the click; the link would cut it short.
+    if (animated) e.preventDefault();
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLAnchorElement>) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    if (!animated) {
+      e.currentTarget.click();
+      return;
+    }
+    riveRef.current?.setInput('hover', true);
+    riveRef.current?.setInput('click', true);
+    timeoutRef.current ??= setTimeout(() => history.push(withBaseUrl(QUICK_START)), KEYBOARD_TIMEOUT_MS);
+  };
 
   return (
-    <div style={{ height: '30vh', width: '40vw', maxWidth: '400px', zIndex: '100', marginBottom: '-8%', marginTop: '-5%' }}>
-      <RiveComponent
-        style={{ width: '100%', height: '100%', cursor: 'pointer' }}
+    <Link
+      to={QUICK_START}
+      className={styles.catButton}
+      aria-label={translate({
+        id: 'homepage.hero.getStarted',
+        message: 'Get Started',
+        description: 'The label of the animated cat button in the homepage hero',
+      })}
+      onClick={onClick}
+      onKeyDown={onKeyDown}
+      onFocus={() => riveRef.current?.setInput('hover', true)}
+      onBlur={() => riveRef.current?.setInput('hover', false)}
+    >
+      <RiveAsset
+        ref={riveRef}
+        name="catButton"
+        decorative
+        actions={CAT_ACTIONS}
+        onLoadStateChange={setLoadState}
+        className={styles.animation}
       />
-    </div>
+    </Link>
   );
 }
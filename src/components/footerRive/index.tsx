@@ -15,18 +15,8 @@ Legal Department
 UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
-import { useRive } from '@rive-app/react-canvas';
+import RiveAsset from '@site/src/components/RiveAsset';
 
 export default function FooterRive() {
-  const { RiveComponent } = useRive({
-    src: '/rive/happy_meeple.riv',
-    stateMachines: 'Meeples',
-    autoplay: true,
-  });
-
-  return (
-    <div style={{ height: '15vh', width: '25vh', marginLeft: 'auto' }}>
-      <RiveComponent style={{ width: '100%', height: '100%' }} />
-    </div>
-  );
+  return <RiveAsset name="happyMeeple" style={{ height: '15vh', width: '25vh', marginLeft: 'auto' }} />;
 }
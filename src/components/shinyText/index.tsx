@@ -15,6 +15,7 @@ Legal Department
 UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
+import { useMotion } from '@site/src/utils/MotionProvider';
 import './ShinyText.css';
 
 type ShinyTextProps = {
@@ -25,10 +26,12 @@ type ShinyTextProps = {
 };
 
 const ShinyText: React.FC<ShinyTextProps> = ({ text, disabled = false, speed = 5, className = '' }) => {
+  const { animate } = useMotion();
   const animationDuration = `${speed}s`;
+  const still = disabled || !animate;
 
   return (
-    <div className={`shiny-text ${disabled ? 'disabled' : ''} ${className}`} style={{ animationDuration }}>
+    <div className={`shiny-text ${still ? 'disabled' : ''} ${className}`} style={{ animationDuration }}>
       {text}
     </div>
   );
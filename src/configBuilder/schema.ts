@@ -0,0 +1,174 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ConfigField, ConfigFieldId, ConfigValues } from './types';
+
+/**
+ * Fields of the configuration builder. The api-reference plugin checks every
+ * option named here against the SDK's type declarations and fails the build
+ * when one is renamed, removed or changes its choices or default, so the
+ * builder and the generated reference cannot drift apart.
+ */
+export const CONFIG_FIELDS: ConfigField[] = [
+  {
+    id: 'environment',
+    group: 'connection',
+    control: { kind: 'select', choices: ['browser', 'node'] },
+    initial: 'browser',
+  },
+  {
+    id: 'baseUrl',
+    group: 'connection',
+    option: { owner: 'ICreateClientOpts', path: ['baseUrl'] },
+    control: { kind: 'text', placeholder: 'https://chat.example.com' },
+    initial: 'https://chat.example.com',
+    required: true,
+  },
+  {
+    id: 'userId',
+    group: 'connection',
+    option: { owner: 'ICreateClientOpts', path: ['userId'] },
+    control: { kind: 'text', placeholder: '@alice:example.com' },
+    initial: '@alice:example.com',
+    required: true,
+  },
+  {
+    id: 'deviceId',
+    group: 'connection',
+    option: { owner: 'ICreateClientOpts', path: ['deviceId'] },
+    control: { kind: 'text', placeholder: 'WEB-1' },
+    initial: '',
+  },
+  {
+    id: 'authMode',
+    group: 'auth',
+    option: { owner: 'ICreateClientOpts', path: ['tokenRefreshFunction'], derived: true },
+    control: { kind: 'select', choices: ['static', 'provider'] },
+    initial: 'static',
+  },
+  {
+    id: 'accessToken',
+    group: 'auth',
+    option: { owner: 'ICreateClientOpts', path: ['accessToken'] },
+    control: { kind: 'text', placeholder: 'YOUR_ACCESS_TOKEN' },
+    initial: 'YOUR_ACCESS_TOKEN',
+    required: true,
+  },
+  {
+    id: 'refreshToken',
+    group: 'auth',
+    option: { owner: 'ICreateClientOpts', path: ['refreshToken'] },
+    control: { kind: 'text', placeholder: 'YOUR_REFRESH_TOKEN' },
+    initial: 'YOUR_REFRESH_TOKEN',
+    when: { field: 'authMode', is: ['provider'] },
+  },
+  {
+    id: 'refreshUrl',
+    group: 'auth',
+    control: { kind: 'text', placeholder: '/api/chat/refresh' },
+    initial: '/api/chat/refresh',
+    when: { field: 'authMode', is: ['provider'] },
+  },
+  {
+    id: 'storeType',
+    group: 'storage',
+    option: { owner: 'ICreateClientOpts', path: ['store', 'type'] },
+    control: { kind: 'select', choices: ['indexeddb', 'memory'] },
+    initial: 'indexeddb',
+  },
+  {
+    id: 'storeDbName',
+    group: 'storage',
+    option: { owner: 'ICreateClientOpts', path: ['store', 'dbName'] },
+    control: { kind: 'text', placeholder: 'xhub-chat' },
+    initial: 'xhub-chat',
+    when: { field: 'storeType', is: ['indexeddb'] },
+  },
+  {
+    id: 'storeWorkerApi',
+    group: 'storage',
+    option: { owner: 'ICreateClientOpts', path: ['store', 'workerApi'] },
+    control: { kind: 'toggle' },
+    initial: true,
+    sdkDefault: false,
+    when: { field: 'storeType', is: ['indexeddb'] },
+  },
+  {
+    id: 'syncEnabled',
+    group: 'sync',
+    option: { owner: 'ICreateClientOpts', path: ['sync', 'enabled'] },
+    control: { kind: 'toggle' },
+    initial: true,
+    sdkDefault: true,
+  },
+  {
+    id: 'slidingSync',
+    group: 'sync',
+    option: { owner: 'ICreateClientOpts', path: ['sync', 'slidingSync'] },
+    control: { kind: 'toggle' },
+    initial: true,
+    sdkDefault: true,
+    when: { field: 'syncEnabled', is: [true] },
+  },
+  {
+    id: 'initialSyncLimit',
+    group: 'sync',
+    option: { owner: 'IStartClientOpts', path: ['initialSyncLimit'] },
+    control: { kind: 'number', min: 1, max: 500 },
+    initial: 20,
+    when: { field: 'syncEnabled', is: [true] },
+  },
+  {
+    id: 'pollTimeout',
+    group: 'sync',
+    option: { owner: 'IStartClientOpts', path: ['pollTimeout'] },
+    control: { kind: 'number', min: 0, max: 120000, step: 1000 },
+    initial: 30000,
+    sdkDefault: 30000,
+    when: { field: 'syncEnabled', is: [true] },
+  },
+  {
+    id: 'lazyLoadMembers',
+    group: 'sync',
+    option: { owner: 'IStartClientOpts', path: ['lazyLoadMembers'] },
+    control: { kind: 'toggle' },
+    initial: false,
+    sdkDefault: false,
+    when: { field: 'syncEnabled', is: [true] },
+  },
+  {
+    id: 'logLevel',
+    group: 'logging',
+    option: { owner: 'ICreateClientOpts', path: ['logger'], derived: true },
+    control: { kind: 'select', choices: ['sdk', 'silent', 'error', 'warn', 'info', 'debug', 'trace'] },
+    initial: 'sdk',
+  },
+];
+
+/** Props of `XHubChatProvider` the generated React code passes. */
+export const CONFIG_PROVIDER_PROPS = ['clientOptions', 'startOptions'];
+
+export function initialConfigValues(): ConfigValues {
+  return Object.fromEntries(CONFIG_FIELDS.map(field => [field.id, field.initial])) as ConfigValues;
+}
+
+export function isConfigFieldVisible(field: ConfigField, values: ConfigValues): boolean {
+  return !field.when || field.when.is.includes(values[field.when.field]);
+}
+
+export function getConfigField(id: ConfigFieldId): ConfigField {
+  return CONFIG_FIELDS.find(field => field.id === id)!;
+}
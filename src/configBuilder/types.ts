@@ -0,0 +1,104 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+/** Sections of the configuration builder form. */
+export type ConfigGroup = 'connection' | 'auth' | 'storage' | 'sync' | 'logging';
+
+export const CONFIG_GROUPS: ConfigGroup[] = ['connection', 'auth', 'storage', 'sync', 'logging'];
+
+/** SDK types whose options the builder sets. */
+export type ConfigOwner = 'ICreateClientOpts' | 'IStartClientOpts';
+
+export type ConfigFieldId =
+  | 'environment'
+  | 'baseUrl'
+  | 'userId'
+  | 'deviceId'
+  | 'authMode'
+  | 'accessToken'
+  | 'refreshToken'
+  | 'refreshUrl'
+  | 'storeType'
+  | 'storeDbName'
+  | 'storeWorkerApi'
+  | 'syncEnabled'
+  | 'slidingSync'
+  | 'initialSyncLimit'
+  | 'pollTimeout'
+  | 'lazyLoadMembers'
+  | 'logLevel';
+
+export type ConfigValue = string | number | boolean;
+
+export type ConfigValues = Record<ConfigFieldId, ConfigValue>;
+
+export type ConfigControl =
+  | { kind: 'text'; placeholder?: string }
+  | { kind: 'number'; min: number; max: number; step?: number }
+  | { kind: 'select'; choices: string[] }
+  | { kind: 'toggle' };
+
+export type ConfigOption = {
+  owner: ConfigOwner;
+  /** Property path below the owner, such as `['store', 'type']`. */
+  path: string[];
+  /**
+   * The field picks how the option is written rather than its value, such as
+   * the log level behind `logger`. Only the option's existence is checked.
+   */
+  derived?: boolean;
+};
+
+export type ConfigField = {
+  id: ConfigFieldId;
+  group: ConfigGroup;
+  /** SDK option the field sets. Fields without one only shape the output. */
+  option?: ConfigOption;
+  control: ConfigControl;
+  initial: ConfigValue;
+  /** Value the SDK uses when the option is left out. The output omits the option then. */
+  sdkDefault?: ConfigValue;
+  required?: boolean;
+  /** Shown only while another field has one of these values. */
+  when?: { field: ConfigFieldId; is: ConfigValue[] };
+};
+
+/** What the generated API reference knows about one option the builder sets. */
+export type ConfigOptionReference = {
+  type: string;
+  description: string;
+  /** Generated page of the option or of the type declaring it, relative to the base URL. */
+  href: string;
+};
+
+/**
+ * Global data of the api-reference plugin, keyed by `Owner.path`, such as
+ * `ICreateClientOpts.store.type`. Empty when the type declarations are missing.
+ */
+export type ConfigReferenceData = {
+  options: Record<string, ConfigOptionReference>;
+};
+
+export const API_REFERENCE_PLUGIN = 'api-reference';
+
+/** Heading id of a builder group on the configuration page. */
+export function configGroupAnchor(group: ConfigGroup): string {
+  return `config-${group}`;
+}
+
+export function configOptionKey(option: ConfigOption): string {
+  return [option.owner, ...option.path].join('.');
+}
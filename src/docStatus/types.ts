@@ -0,0 +1,53 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+/**
+ * How finished a doc is. `stub` pages only hold a placeholder, `draft`
+ * pages cover part of their topic.
+ */
+export type DocStatus = 'stub' | 'draft' | 'complete';
+
+export const DOC_STATUSES: DocStatus[] = ['stub', 'draft', 'complete'];
+
+/** Global data of the doc-status plugin: status of every doc, by permalink. */
+export type DocStatusData = {
+  pages: Record<string, DocStatus>;
+};
+
+export type DocCoverageEntry = {
+  id: string;
+  title: string;
+  permalink: string;
+  status: DocStatus;
+  words: number;
+};
+
+export type SidebarCoverage = {
+  sidebarId: string;
+  /** Navbar label of the sidebar, or its id when no navbar item opens it. */
+  label: string;
+  docs: DocCoverageEntry[];
+};
+
+/** Props of the generated status page. */
+export type DocStatusReport = {
+  sidebars: SidebarCoverage[];
+};
+
+export const DOC_STATUS_PLUGIN = 'doc-status';
+
+/** Route of the status page, relative to the base URL. */
+export const DOC_STATUS_ROUTE = 'docs-status';
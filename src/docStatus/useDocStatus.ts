@@ -0,0 +1,38 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { DocStatus, DocStatusData } from './types';
+import { translate } from '@docusaurus/Translate';
+import { usePluginData } from '@docusaurus/useGlobalData';
+import { DOC_STATUS_PLUGIN } from './types';
+
+/** Status of the doc at `permalink`, or undefined for pages that are not docs. */
+export function useDocStatus(permalink: string): DocStatus | undefined {
+  const { pages } = usePluginData(DOC_STATUS_PLUGIN) as DocStatusData;
+  return pages[permalink];
+}
+
+/** Short label shown in sidebar badges and on the status page. */
+export function docStatusLabel(status: DocStatus): string {
+  switch (status) {
+    case 'stub':
+      return translate({ id: 'theme.docs.status.stub', message: 'Stub', description: 'Badge of a doc that only holds a placeholder' });
+    case 'draft':
+      return translate({ id: 'theme.docs.status.draft', message: 'Draft', description: 'Badge of a doc that covers part of its topic' });
+    case 'complete':
+      return translate({ id: 'theme.docs.status.complete', message: 'Complete', description: 'Status of a finished doc on the documentation status page' });
+  }
+}
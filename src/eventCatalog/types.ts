@@ -0,0 +1,65 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+/** Area of the SDK an event belongs to; the catalog filters by it. */
+export type EventDomain = 'rooms' | 'timeline' | 'posts' | 'sync' | 'storage';
+
+export const EVENT_DOMAINS: EventDomain[] = ['rooms', 'timeline', 'posts', 'sync', 'storage'];
+
+export type EventParameter = {
+  name: string;
+  type: string;
+  optional: boolean;
+  description: string;
+};
+
+/** An SDK type a listener receives, shown expanded under the payload. */
+export type EventPayloadType = {
+  name: string;
+  /** Declaration as printed from the .d.ts. */
+  declaration: string;
+  /** Generated API reference page of the type, relative to the base URL. */
+  href: string;
+};
+
+export type CatalogEvent = {
+  /** Value the emitter is called with, such as `Room.timeline`. */
+  name: string;
+  /** Enum member that holds the name, such as `RoomEvent.Timeline`. */
+  member: string;
+  /** Heading id on the catalog page. */
+  anchor: string;
+  /** Typed event map the event was read from, such as `RoomEventHandlerMap`. */
+  map: string;
+  domain: EventDomain;
+  /** When the event fires, from the doc comment of the map entry. */
+  description: string;
+  deprecated?: string;
+  /** Listener type, such as `(event: XHubChatEvent, room: Room) => void`. */
+  listener: string;
+  parameters: EventParameter[];
+  payloadTypes: EventPayloadType[];
+  examples: {
+    core: string;
+    react: string;
+  };
+};
+
+/** Data behind the generated event catalog page. */
+export type EventCatalogData = {
+  packageName: string;
+  events: CatalogEvent[];
+};
@@ -0,0 +1,48 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { ReactNode } from 'react';
+import type { FeedbackAdapter, FeedbackData } from './types';
+import { usePluginData } from '@docusaurus/useGlobalData';
+import { createContext, useContext, useMemo } from 'react';
+import { createDefaultAdapter } from './adapters';
+import { FEEDBACK_PLUGIN } from './types';
+
+const FeedbackContext = createContext<FeedbackAdapter | null>(null);
+
+type FeedbackProviderProps = {
+  children: ReactNode;
+  /** Overrides the adapter picked from the feedback plugin options. */
+  adapter?: FeedbackAdapter | null;
+};
+
+/**
+ * Decides where "Was this page helpful?" answers go. Mounted in
+ * `src/theme/Root.tsx`; pass `adapter` to send them somewhere else.
+ */
+export function FeedbackProvider({ children, adapter }: FeedbackProviderProps): ReactNode {
+  const data = usePluginData(FEEDBACK_PLUGIN) as FeedbackData;
+  const value = useMemo(
+    () => (adapter !== undefined ? adapter : createDefaultAdapter(data)),
+    [adapter, data],
+  );
+  return <FeedbackContext.Provider value={value}>{children}</FeedbackContext.Provider>;
+}
+
+/** The adapter to submit to, or `null` when feedback is not collected. */
+export function useFeedbackAdapter(): FeedbackAdapter | null {
+  return useContext(FeedbackContext);
+}
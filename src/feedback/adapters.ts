@@ -0,0 +1,53 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { FeedbackAdapter, FeedbackData } from './types';
+
+/** POSTs each submission as JSON to `endpoint`, e.g. a form backend or serverless function. */
+export function createHttpAdapter(endpoint: string, headers: Record<string, string> = {}): FeedbackAdapter {
+  return {
+    name: 'http',
+    async submit(submission) {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(submission),
+        // Lets the request finish when the reader navigates away right after sending.
+        keepalive: true,
+      });
+      if (!res.ok) {
+        throw new Error(`Feedback endpoint answered ${res.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Sends to the `docusaurus start` dev server, which appends each submission
+ * to a local JSON file in the same format as a production export.
+ */
+export function createDevFileAdapter(devPath: string): FeedbackAdapter {
+  return { ...createHttpAdapter(devPath), name: 'dev-file' };
+}
+
+/**
+ * The dev file in development, the configured endpoint in production, and
+ * `null` (no widget) for builds without one.
+ */
+export function createDefaultAdapter({ endpoint, devPath }: FeedbackData): FeedbackAdapter | null {
+  if (process.env.NODE_ENV === 'development') return createDevFileAdapter(devPath);
+  return endpoint ? createHttpAdapter(endpoint) : null;
+}
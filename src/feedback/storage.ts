@@ -0,0 +1,37 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { FeedbackRating } from './types';
+
+const STORAGE_PREFIX = 'feedback:';
+
+/** The rating already sent for `permalink` from this browser, if any. */
+export function loadSentRating(permalink: string): FeedbackRating | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + permalink);
+    return raw === 'up' || raw === 'down' ? raw : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSentRating(permalink: string, rating: FeedbackRating): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + permalink, rating);
+  } catch {
+    // Storage can be blocked; the reader is just asked again next time.
+  }
+}
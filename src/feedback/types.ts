@@ -0,0 +1,89 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+export type FeedbackRating = 'up' | 'down';
+
+export const FEEDBACK_RATINGS: FeedbackRating[] = ['up', 'down'];
+
+/** One "Was this page helpful?" answer, as sent to the adapter. */
+export type FeedbackSubmission = {
+  /** Permalink of the doc, including the locale prefix. */
+  page: string;
+  title: string;
+  rating: FeedbackRating;
+  comment?: string;
+  /** Heading id of the section the reader points at; `null` for the whole page. */
+  section: string | null;
+  /** Plain-text heading of `section`. */
+  sectionTitle?: string;
+  locale: string;
+  /** ISO timestamp. */
+  submittedAt: string;
+};
+
+/**
+ * Where submissions go. Adapters only deliver; the widget handles retries
+ * by letting the reader send again.
+ */
+export type FeedbackAdapter = {
+  /** Short name for logs, e.g. `http` or `dev-file`. */
+  name: string;
+  submit: (submission: FeedbackSubmission) => Promise<void>;
+};
+
+/** Global data of the feedback plugin. */
+export type FeedbackData = {
+  /** Production collection endpoint; the widget is hidden in builds without one. */
+  endpoint: string | null;
+  /** Dev server route that appends submissions to a local JSON file. */
+  devPath: string;
+};
+
+export type FeedbackComment = Pick<FeedbackSubmission, 'rating' | 'comment' | 'section' | 'sectionTitle' | 'locale' | 'submittedAt'>;
+
+export type FeedbackSectionSummary = {
+  section: string;
+  title: string;
+  up: number;
+  down: number;
+};
+
+export type FeedbackPageSummary = {
+  /** Permalink without the locale prefix. */
+  page: string;
+  title: string;
+  /** The doc no longer exists, so the report shows it without a link. */
+  removed: boolean;
+  up: number;
+  down: number;
+  /** Sections readers pointed at, most down votes first. */
+  sections: FeedbackSectionSummary[];
+  /** Submissions with a comment, newest first. */
+  comments: FeedbackComment[];
+};
+
+/** Props of the generated feedback report page. */
+export type FeedbackReport = {
+  /** Pages with the most down votes first. */
+  pages: FeedbackPageSummary[];
+  /** Site-relative path of the exported data file, or `null` when it is missing. */
+  source: string | null;
+};
+
+export const FEEDBACK_PLUGIN = 'feedback';
+
+/** Route of the report page, relative to the base URL. */
+export const FEEDBACK_ROUTE = 'docs-feedback';
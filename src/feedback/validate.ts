@@ -0,0 +1,65 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { FeedbackRating } from './types';
+import { FEEDBACK_RATINGS } from './types';
+
+// Comments are for pointing at a problem, not for essays.
+export const MAX_COMMENT_LENGTH = 2000;
+
+const REQUIRED_STRINGS = ['page', 'title', 'locale', 'submittedAt'] as const;
+const KNOWN_FIELDS = new Set(['page', 'title', 'rating', 'comment', 'section', 'sectionTitle', 'locale', 'submittedAt']);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks one submission, from the dev server or an exported data file, and
+ * returns one line per problem, empty when it is valid.
+ */
+export function validateFeedbackSubmission(value: unknown, where = 'submission'): string[] {
+  if (!isRecord(value)) return [`${where}: must be an object`];
+  const problems: string[] = [];
+  Object.keys(value).filter(key => !KNOWN_FIELDS.has(key)).forEach((key) => {
+    problems.push(`${where}: unknown field "${key}"`);
+  });
+  REQUIRED_STRINGS.forEach((key) => {
+    if (typeof value[key] !== 'string' || value[key].trim() === '') problems.push(`${where}: "${key}" must be a non-empty string`);
+  });
+  if (!FEEDBACK_RATINGS.includes(value.rating as FeedbackRating)) {
+    problems.push(`${where}: "rating" must be one of ${FEEDBACK_RATINGS.join(', ')}`);
+  }
+  if (value.comment !== undefined && (typeof value.comment !== 'string' || value.comment.length > MAX_COMMENT_LENGTH)) {
+    problems.push(`${where}: "comment" must be a string of at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+  if (value.section !== null && typeof value.section !== 'string') {
+    problems.push(`${where}: "section" must be a heading id or null`);
+  }
+  if (value.sectionTitle !== undefined && typeof value.sectionTitle !== 'string') {
+    problems.push(`${where}: "sectionTitle" must be a string`);
+  }
+  if (typeof value.submittedAt === 'string' && Number.isNaN(Date.parse(value.submittedAt))) {
+    problems.push(`${where}: "submittedAt" must be an ISO date`);
+  }
+  return problems;
+}
+
+/** Checks the contents of an exported data file: a JSON array of submissions. */
+export function validateFeedbackExport(data: unknown): string[] {
+  if (!Array.isArray(data)) return ['must be a JSON array of submissions'];
+  return data.flatMap((entry, idx) => validateFeedbackSubmission(entry, `[${idx}]`));
+}
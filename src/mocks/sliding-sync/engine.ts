@@ -0,0 +1,325 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Scenario, ScenarioAction, ScenarioRoom } from './scenario';
+import type {
+  ListOp,
+  SlidingSyncRequest,
+  SlidingSyncResponse,
+  SyncEvent,
+  SyncRange,
+  SyncResult,
+} from './types';
+
+// Fixed epoch so event timestamps are identical between runs.
+const BASE_TS = Date.UTC(2025, 0, 15, 9, 0, 0);
+const TICK_MS = 1_000;
+const DEFAULT_TIMELINE_LIMIT = 10;
+
+type RoomState = {
+  roomId: string;
+  name: string;
+  /** Events in delivery order. */
+  delivered: SyncEvent[];
+  notificationCount: number;
+  typing: string[];
+  typingVersion: number;
+  receipts: Map<string, { eventId: string; ts: number }>;
+  receiptsVersion: number;
+  /** Tick of the latest delivered event; drives list ordering. */
+  bumpTick: number;
+  /** Index into `delivered` from which the next response must be marked `limited`. */
+  gapFrom: number | null;
+};
+
+type PendingEvent = { deliverAt: number; roomId: string; event: SyncEvent };
+
+type ConnectionState = {
+  pos: string;
+  lists: Map<string, string[][]>;
+  /** Per room: how many delivered events this connection has seen. */
+  sent: Map<string, number>;
+  typingSeen: Map<string, number>;
+  receiptsSeen: Map<string, number>;
+};
+
+/**
+ * Deterministic in-memory sliding sync server. It has no I/O, so the same
+ * instance backs both the dev-server middleware and the in-browser transport.
+ */
+export class SlidingSyncEngine {
+  private scenario: Scenario;
+  private tick = 0;
+  private stepIndex = 0;
+  private eventCounter = 0;
+  private posCounter = 0;
+  private rooms = new Map<string, RoomState>();
+  private pending: PendingEvent[] = [];
+  private connections = new Map<string, ConnectionState>();
+  private unavailableTicks = 0;
+
+  constructor(scenario: Scenario) {
+    this.scenario = scenario;
+    this.reset();
+  }
+
+  get scenarioName(): string {
+    return this.scenario.name;
+  }
+
+  get currentTick(): number {
+    return this.tick;
+  }
+
+  /** Restarts the current scenario, or switches to `scenario` when given. */
+  reset(scenario: Scenario = this.scenario): void {
+    this.scenario = scenario;
+    this.tick = 0;
+    this.stepIndex = 0;
+    this.eventCounter = 0;
+    this.posCounter = 0;
+    this.rooms.clear();
+    this.pending = [];
+    this.connections.clear();
+    this.unavailableTicks = 0;
+    scenario.rooms.forEach(room => this.seedRoom(room));
+  }
+
+  /** Applies an action immediately, outside the scenario script. */
+  inject(action: ScenarioAction): void {
+    switch (action.type) {
+      case 'message':
+        this.schedule(action.roomId, action.sender, action.body, action.delayTicks ?? 0);
+        break;
+      case 'gap': {
+        const room = this.requireRoom(action.roomId);
+        room.gapFrom = room.delivered.length;
+        for (let i = 0; i < action.count; i++) {
+          this.deliver(room, this.createEvent(action.sender, `Message ${i + 1} of ${action.count}`));
+        }
+        break;
+      }
+      case 'typing': {
+        const room = this.requireRoom(action.roomId);
+        room.typing = [...action.userIds];
+        room.typingVersion++;
+        break;
+      }
+      case 'receipt': {
+        const room = this.requireRoom(action.roomId);
+        const eventId = action.eventId ?? room.delivered.at(-1)?.event_id;
+        if (!eventId) return;
+        room.receipts.set(action.userId, { eventId, ts: this.now() });
+        room.receiptsVersion++;
+        break;
+      }
+      case 'create-room':
+        this.seedRoom({ roomId: action.roomId, name: action.name, messages: [] });
+        this.requireRoom(action.roomId).bumpTick = this.tick;
+        break;
+      case 'disconnect':
+        this.unavailableTicks = action.ticks;
+        break;
+    }
+  }
+
+  /** Handles one sync request and advances the scenario by a tick. */
+  handle(request: SlidingSyncRequest): SyncResult {
+    this.advance();
+
+    if (this.unavailableTicks > 0) {
+      this.unavailableTicks--;
+      if (this.unavailableTicks === 0) {
+        // Coming back from an outage the server has lost all connection state.
+        this.connections.clear();
+      }
+      return { status: 503, body: { errcode: 'M_UNAVAILABLE', error: 'Mock server is simulating an outage' } };
+    }
+
+    const connId = request.conn_id ?? 'default';
+    let conn = this.connections.get(connId);
+    if (request.pos !== undefined && request.pos !== conn?.pos) {
+      return { status: 400, body: { errcode: 'M_UNKNOWN_POS', error: `Unknown position ${request.pos}` } };
+    }
+    if (request.pos === undefined || !conn) {
+      conn = { pos: '', lists: new Map(), sent: new Map(), typingSeen: new Map(), receiptsSeen: new Map() };
+      this.connections.set(connId, conn);
+    }
+
+    const response: SlidingSyncResponse = { pos: '', lists: {}, rooms: {}, extensions: {} };
+    const roomLimits = new Map<string, number>();
+    const sorted = this.sortedRoomIds();
+
+    Object.entries(request.lists ?? {}).forEach(([key, list]) => {
+      const windows = list.ranges.map(range => sorted.slice(range[0], range[1] + 1));
+      const previous = conn.lists.get(key);
+      const ops: ListOp[] = [];
+      list.ranges.forEach((range, idx) => {
+        if (!previous || previous[idx]?.join() !== windows[idx].join()) {
+          ops.push({ op: 'SYNC', range: [range[0], range[0] + Math.max(windows[idx].length - 1, 0)] as SyncRange, room_ids: windows[idx] });
+        }
+      });
+      // A range the client dropped since the last request must be invalidated explicitly.
+      previous?.slice(list.ranges.length).forEach((_, idx) => {
+        const dropped = list.ranges.length + idx;
+        ops.push({ op: 'INVALIDATE', range: [dropped, dropped] });
+      });
+      conn.lists.set(key, windows);
+      response.lists[key] = { count: sorted.length, ...(ops.length > 0 ? { ops } : {}) };
+      windows.flat().forEach(roomId => roomLimits.set(roomId, Math.max(roomLimits.get(roomId) ?? 0, list.timeline_limit ?? DEFAULT_TIMELINE_LIMIT)));
+    });
+
+    Object.entries(request.room_subscriptions ?? {}).forEach(([roomId, sub]) => {
+      if (this.rooms.has(roomId)) {
+        roomLimits.set(roomId, Math.max(roomLimits.get(roomId) ?? 0, sub.timeline_limit ?? DEFAULT_TIMELINE_LIMIT));
+      }
+    });
+
+    roomLimits.forEach((limit, roomId) => {
+      const room = this.requireRoom(roomId);
+      const seen = conn.sent.get(roomId);
+      const initial = seen === undefined;
+      const fresh = room.delivered.slice(seen ?? 0);
+      if (!initial && fresh.length === 0) return;
+
+      const gapInFresh = !initial && room.gapFrom !== null && room.gapFrom >= seen;
+      const timeline = gapInFresh ? fresh.slice(-1) : fresh.slice(-limit);
+      response.rooms[roomId] = {
+        name: room.name,
+        ...(initial ? { initial: true } : {}),
+        timeline,
+        ...(timeline.length < fresh.length ? { limited: true, prev_batch: `t${this.tick}_${roomId}` } : {}),
+        notification_count: room.notificationCount,
+      };
+      conn.sent.set(roomId, room.delivered.length);
+    });
+
+    if (request.extensions?.typing?.enabled) {
+      const rooms = this.changedSince(roomLimits, conn.typingSeen, room => room.typingVersion);
+      response.extensions.typing = {
+        rooms: Object.fromEntries(rooms.map(room => [room.roomId, { user_ids: room.typing }])),
+      };
+    }
+
+    if (request.extensions?.receipts?.enabled) {
+      const rooms = this.changedSince(roomLimits, conn.receiptsSeen, room => room.receiptsVersion);
+      response.extensions.receipts = {
+        rooms: Object.fromEntries(rooms.map((room) => {
+          const content: Record<string, { 'm.read': Record<string, { ts: number }> }> = {};
+          room.receipts.forEach(({ eventId, ts }, userId) => {
+            content[eventId] ??= { 'm.read': {} };
+            content[eventId]['m.read'][userId] = { ts };
+          });
+          return [room.roomId, { content }];
+        })),
+      };
+    }
+
+    conn.pos = String(++this.posCounter);
+    response.pos = conn.pos;
+    return { status: 200, body: response };
+  }
+
+  private advance(): void {
+    this.tick++;
+    const { steps } = this.scenario;
+    while (this.stepIndex < steps.length && steps[this.stepIndex].tick <= this.tick) {
+      const { tick: _tick, ...action } = steps[this.stepIndex++];
+      this.inject(action as ScenarioAction);
+    }
+    const due = this.pending.filter(p => p.deliverAt <= this.tick);
+    this.pending = this.pending.filter(p => p.deliverAt > this.tick);
+    due.forEach(p => this.deliver(this.requireRoom(p.roomId), p.event));
+  }
+
+  private schedule(roomId: string, sender: string, body: string, delayTicks: number): void {
+    const room = this.requireRoom(roomId);
+    const event = this.createEvent(sender, body);
+    if (delayTicks > 0) {
+      this.pending.push({ deliverAt: this.tick + delayTicks, roomId, event });
+    } else {
+      this.deliver(room, event);
+    }
+  }
+
+  private deliver(room: RoomState, event: SyncEvent): void {
+    room.delivered.push(event);
+    room.notificationCount++;
+    room.bumpTick = this.tick;
+  }
+
+  private createEvent(sender: string, body: string): SyncEvent {
+    return {
+      event_id: `$sync${++this.eventCounter}`,
+      type: 'm.room.message',
+      sender,
+      origin_server_ts: this.now(),
+      content: { msgtype: 'm.text', body },
+    };
+  }
+
+  private seedRoom(seed: ScenarioRoom): void {
+    const room: RoomState = {
+      roomId: seed.roomId,
+      name: seed.name,
+      delivered: [],
+      notificationCount: seed.notificationCount ?? 0,
+      typing: [],
+      typingVersion: 0,
+      receipts: new Map(),
+      receiptsVersion: 0,
+      bumpTick: 0,
+      gapFrom: null,
+    };
+    seed.messages.forEach((message) => {
+      room.delivered.push(this.createEvent(message.sender, message.body));
+    });
+    this.rooms.set(room.roomId, room);
+  }
+
+  /** Most recently active first; ties keep scenario order. */
+  private sortedRoomIds(): string[] {
+    return [...this.rooms.values()]
+      .map((room, order) => ({ room, order }))
+      .sort((a, b) => b.room.bumpTick - a.room.bumpTick || a.order - b.order)
+      .map(({ room }) => room.roomId);
+  }
+
+  private changedSince(
+    roomLimits: Map<string, number>,
+    seen: Map<string, number>,
+    version: (room: RoomState) => number,
+  ): RoomState[] {
+    return [...roomLimits.keys()]
+      .map(roomId => this.requireRoom(roomId))
+      .filter((room) => {
+        const changed = version(room) > (seen.get(room.roomId) ?? 0);
+        seen.set(room.roomId, version(room));
+        return changed;
+      });
+  }
+
+  private requireRoom(roomId: string): RoomState {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new Error(`Scenario "${this.scenario.name}" has no room ${roomId}`);
+    return room;
+  }
+
+  private now(): number {
+    return BASE_TS + this.tick * TICK_MS + this.eventCounter;
+  }
+}
@@ -0,0 +1,98 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+/*
+ * Scenario scripts drive the mock server. Every sync request advances the
+ * clock by one tick and applies the steps scheduled for it, so a scenario
+ * replays identically on every run.
+ */
+
+export type ScenarioMessage = {
+  sender: string;
+  body: string;
+};
+
+export type ScenarioRoom = {
+  roomId: string;
+  name: string;
+  /** Messages that already exist before the first sync, oldest first. */
+  messages: ScenarioMessage[];
+  notificationCount?: number;
+};
+
+/** A new message. With `delayTicks` it is created now but delivered later, so newer events overtake it. */
+type MessageStep = { tick: number; type: 'message'; roomId: string; sender: string; body: string; delayTicks?: number };
+
+/** A burst of `count` messages where only the newest is sent, with `limited: true`. */
+type GapStep = { tick: number; type: 'gap'; roomId: string; sender: string; count: number };
+
+type TypingStep = { tick: number; type: 'typing'; roomId: string; userIds: string[] };
+
+/** Marks `eventId` (default: the newest event) as read by `userId`. */
+type ReceiptStep = { tick: number; type: 'receipt'; roomId: string; userId: string; eventId?: string };
+
+type CreateRoomStep = { tick: number; type: 'create-room'; roomId: string; name: string };
+
+/** Fails the next `ticks` requests with 503, then expires every position so clients must start over. */
+type DisconnectStep = { tick: number; type: 'disconnect'; ticks: number };
+
+export type ScenarioStep = MessageStep | GapStep | TypingStep | ReceiptStep | CreateRoomStep | DisconnectStep;
+
+export type Scenario = {
+  name: string;
+  description: string;
+  rooms: ScenarioRoom[];
+  steps: ScenarioStep[];
+};
+
+/** Distributes `Omit` over the step union so each variant keeps its own fields. */
+export type ScenarioAction = ScenarioStep extends infer S ? S extends ScenarioStep ? Omit<S, 'tick'> : never : never;
+
+/**
+ * Checks that a scenario is internally consistent. Returns a list of
+ * problems; an empty list means the scenario is valid.
+ */
+export function validateScenario(scenario: Scenario): string[] {
+  const problems: string[] = [];
+  const roomIds = new Set(scenario.rooms.map(room => room.roomId));
+  if (roomIds.size !== scenario.rooms.length) {
+    problems.push('duplicate roomId in rooms');
+  }
+  let lastTick = 0;
+  scenario.steps.forEach((step, idx) => {
+    const where = `steps[${idx}] (${step.type} at tick ${step.tick})`;
+    if (!Number.isInteger(step.tick) || step.tick < 1) {
+      problems.push(`${where}: tick must be a positive integer`);
+    }
+    if (step.tick < lastTick) {
+      problems.push(`${where}: steps must be sorted by tick`);
+    }
+    lastTick = step.tick;
+    if (step.type === 'create-room') {
+      if (roomIds.has(step.roomId)) problems.push(`${where}: room ${step.roomId} already exists`);
+      roomIds.add(step.roomId);
+      return;
+    }
+    if ('roomId' in step && !roomIds.has(step.roomId)) {
+      problems.push(`${where}: unknown room ${step.roomId}`);
+    }
+    if (step.type === 'gap' && step.count < 2) {
+      problems.push(`${where}: a gap needs at least 2 messages`);
+    }
+  });
+  return problems;
+}
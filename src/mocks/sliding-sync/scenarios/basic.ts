@@ -0,0 +1,67 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Scenario } from '../scenario';
+
+const scenario: Scenario = {
+  name: 'basic',
+  description: 'A handful of rooms with steady chatter, typing and read receipts.',
+  rooms: [
+    {
+      roomId: '!general:xhub.chat',
+      name: 'General',
+      notificationCount: 2,
+      messages: [
+        { sender: '@bob:xhub.chat', body: 'Morning everyone 👋' },
+        { sender: '@carol:xhub.chat', body: 'Morning! Standup in 10?' },
+        { sender: '@alice:xhub.chat', body: 'Yep, joining from the train.' },
+      ],
+    },
+    {
+      roomId: '!bob-dm:xhub.chat',
+      name: 'Bob',
+      notificationCount: 1,
+      messages: [{ sender: '@bob:xhub.chat', body: 'Can you review my PR when you get a chance?' }],
+    },
+    {
+      roomId: '!design:xhub.chat',
+      name: 'Design Review',
+      messages: [{ sender: '@dave:xhub.chat', body: 'New chat bubble mocks are in Figma.' }],
+    },
+    {
+      roomId: '!announcements:xhub.chat',
+      name: 'Announcements',
+      messages: [{ sender: '@dave:xhub.chat', body: 'XHubChat 1.3 is out with offline-first storage.' }],
+    },
+    {
+      roomId: '!random:xhub.chat',
+      name: 'Random',
+      messages: [{ sender: '@dave:xhub.chat', body: 'Who took the last oat milk?' }],
+    },
+  ],
+  steps: [
+    { tick: 2, type: 'typing', roomId: '!general:xhub.chat', userIds: ['@bob:xhub.chat'] },
+    { tick: 3, type: 'message', roomId: '!general:xhub.chat', sender: '@bob:xhub.chat', body: 'The 1.4 release notes are up for review.' },
+    { tick: 3, type: 'typing', roomId: '!general:xhub.chat', userIds: [] },
+    { tick: 4, type: 'receipt', roomId: '!general:xhub.chat', userId: '@carol:xhub.chat' },
+    { tick: 5, type: 'message', roomId: '!random:xhub.chat', sender: '@bob:xhub.chat', body: 'Guilty. Buying more today.' },
+    { tick: 7, type: 'message', roomId: '!design:xhub.chat', sender: '@carol:xhub.chat', body: 'Love the reaction picker.' },
+    { tick: 9, type: 'message', roomId: '!bob-dm:xhub.chat', sender: '@bob:xhub.chat', body: 'Thanks! No rush.' },
+  ],
+};
+
+export default scenario;
@@ -0,0 +1,61 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { Scenario, ScenarioRoom, ScenarioStep } from '../scenario';
+
+const TEAMS = ['Design', 'Backend', 'Mobile', 'Web', 'Ops', 'Support', 'Growth', 'Docs'];
+const CHANNELS = ['General', 'Standup', 'Alerts', 'Releases', 'Random'];
+const SENDERS = ['@alice:xhub.chat', '@bob:xhub.chat', '@carol:xhub.chat', '@dave:xhub.chat'];
+const BODIES = [
+  'Pushed a fix, please take a look.',
+  'Standup moved to 10:30.',
+  'Deploy finished without errors.',
+  'Can someone review the migration?',
+  'Lunch?',
+  'Closing the ticket, thanks all.',
+];
+// Long enough for a reader to scroll around for a while.
+const TICKS = 300;
+
+const rooms: ScenarioRoom[] = TEAMS.flatMap(team => CHANNELS.map(channel => ({
+  roomId: `!${team}-${channel}:xhub.chat`.toLowerCase(),
+  name: `${team} ${channel}`,
+  messages: [{ sender: SENDERS[(team.length + channel.length) % SENDERS.length], body: `Welcome to ${team} ${channel}.` }],
+})));
+
+// A fixed walk over the rooms: a few busy rooms near the top, and now and then
+// a quiet room far down the list that jumps back into view.
+const steps: ScenarioStep[] = Array.from({ length: TICKS }, (_, idx) => idx + 1)
+  .filter(tick => tick % 4 !== 0)
+  .map((tick) => {
+    const room = tick % 7 === 0 ? rooms[(tick * 11) % rooms.length] : rooms[(tick * 3) % 6];
+    return {
+      tick,
+      type: 'message' as const,
+      roomId: room.roomId,
+      sender: SENDERS[tick % SENDERS.length],
+      body: BODIES[tick % BODIES.length],
+    };
+  });
+
+const scenario: Scenario = {
+  name: 'busy-list',
+  description: 'Forty rooms with steady traffic, for scrolling a sliding window over a long room list.',
+  rooms,
+  steps,
+};
+
+export default scenario;
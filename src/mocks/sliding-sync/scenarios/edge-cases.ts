@@ -0,0 +1,56 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Scenario } from '../scenario';
+
+const scenario: Scenario = {
+  name: 'edge-cases',
+  description: 'Timeline gaps, out-of-order delivery, a new room entering the window and a server outage.',
+  rooms: [
+    {
+      roomId: '!general:xhub.chat',
+      name: 'General',
+      messages: [{ sender: '@bob:xhub.chat', body: 'Deploying the new sync proxy now.' }],
+    },
+    {
+      roomId: '!ops:xhub.chat',
+      name: 'Ops Alerts',
+      messages: [{ sender: '@monitor:xhub.chat', body: 'All systems nominal.' }],
+    },
+    {
+      roomId: '!bob-dm:xhub.chat',
+      name: 'Bob',
+      messages: [{ sender: '@bob:xhub.chat', body: 'Ping me if the proxy misbehaves.' }],
+    },
+  ],
+  steps: [
+    // Gap: 25 alerts land at once; a client with timeline_limit 10 gets only the newest, with limited: true.
+    { tick: 2, type: 'gap', roomId: '!ops:xhub.chat', sender: '@monitor:xhub.chat', count: 25 },
+    // Reordering: this message is created first but delivered after the next one.
+    { tick: 4, type: 'message', roomId: '!general:xhub.chat', sender: '@bob:xhub.chat', body: 'Proxy restarted (sent first, arrives second)', delayTicks: 2 },
+    { tick: 5, type: 'message', roomId: '!general:xhub.chat', sender: '@carol:xhub.chat', body: 'Seeing errors on my side (sent second, arrives first)' },
+    // A new room appears and bumps everything down the list.
+    { tick: 7, type: 'create-room', roomId: '!incident:xhub.chat', name: 'Incident #42' },
+    { tick: 7, type: 'message', roomId: '!incident:xhub.chat', sender: '@monitor:xhub.chat', body: 'Incident opened: elevated sync latency.' },
+    // Outage: three failed requests, then every position is forgotten and clients must resync from scratch.
+    { tick: 9, type: 'disconnect', ticks: 3 },
+    { tick: 10, type: 'message', roomId: '!incident:xhub.chat', sender: '@bob:xhub.chat', body: 'Rolled back, recovering.' },
+    { tick: 14, type: 'receipt', roomId: '!incident:xhub.chat', userId: '@carol:xhub.chat' },
+  ],
+};
+
+export default scenario;
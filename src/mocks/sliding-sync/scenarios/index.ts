@@ -0,0 +1,30 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Scenario } from '../scenario';
+import basic from './basic';
+import busyList from './busy-list';
+import edgeCases from './edge-cases';
+
+/** Scenarios selectable by name from the plugin options and the control endpoint. */
+export const scenarios: Record<string, Scenario> = {
+  [basic.name]: basic,
+  [busyList.name]: busyList,
+  [edgeCases.name]: edgeCases,
+};
+
+export const DEFAULT_SCENARIO = basic.name;
@@ -0,0 +1,119 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Scenario } from './scenario';
+import type { SlidingSyncRequest, SlidingSyncResponse, SyncErrorBody, SyncResult } from './types';
+import { SlidingSyncEngine } from './engine';
+import { SLIDING_SYNC_PATH } from './types';
+
+export class SlidingSyncTransportError extends Error {
+  readonly status: number;
+  readonly errcode: SyncErrorBody['errcode'];
+
+  constructor(status: number, body: SyncErrorBody) {
+    super(body.error);
+    this.name = 'SlidingSyncTransportError';
+    this.status = status;
+    this.errcode = body.errcode;
+  }
+}
+
+export type SlidingSyncTransport = {
+  sync: (request: SlidingSyncRequest, opts?: { signal?: AbortSignal }) => Promise<SlidingSyncResponse>;
+};
+
+function unwrap(result: SyncResult): SlidingSyncResponse {
+  if (result.status !== 200) {
+    throw new SlidingSyncTransportError(result.status, result.body);
+  }
+  return result.body;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Runs the mock server inside the page. This is what demos use on the static
+ * deployment, where there is no dev server to talk to.
+ */
+export function createInMemoryTransport(
+  scenario: Scenario,
+  opts: { latencyMs?: number } = {},
+): SlidingSyncTransport & { engine: SlidingSyncEngine } {
+  const engine = new SlidingSyncEngine(scenario);
+  const latencyMs = opts.latencyMs ?? 150;
+  return {
+    engine,
+    async sync(request, { signal } = {}) {
+      await wait(latencyMs, signal);
+      return unwrap(engine.handle(request));
+    },
+  };
+}
+
+/** Talks to the mock server mounted by the dev server at `baseUrl`. */
+export function createHttpTransport(baseUrl: string): SlidingSyncTransport {
+  return {
+    async sync(request, { signal } = {}) {
+      const res = await fetch(`${baseUrl.replace(/\/$/, '')}${SLIDING_SYNC_PATH}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(request),
+        signal,
+      });
+      const body = await res.json();
+      return unwrap({ status: res.status, body } as SyncResult);
+    },
+  };
+}
+
+/**
+ * A `fetch` replacement that answers sliding sync requests from `transport`
+ * and passes every other request through. Hand it to the SDK as its fetch
+ * implementation to run a real client against the mock.
+ */
+export function createSlidingSyncFetch(transport: SlidingSyncTransport): typeof fetch {
+  return async (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (!new URL(url, 'http://localhost').pathname.endsWith(SLIDING_SYNC_PATH)) {
+      return fetch(input, init);
+    }
+    const request = JSON.parse(String(init?.body ?? '{}')) as SlidingSyncRequest;
+    // The protocol sends `pos` as a query parameter; accept it there too.
+    const pos = new URL(url, 'http://localhost').searchParams.get('pos');
+    if (pos && request.pos === undefined) request.pos = pos;
+    try {
+      const response = await transport.sync(request, { signal: init?.signal ?? undefined });
+      return new Response(JSON.stringify(response), { status: 200, headers: { 'content-type': 'application/json' } });
+    } catch (error) {
+      if (error instanceof SlidingSyncTransportError) {
+        return new Response(JSON.stringify({ errcode: error.errcode, error: error.message }), {
+          status: error.status,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+      throw error;
+    }
+  };
+}
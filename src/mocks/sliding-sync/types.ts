@@ -0,0 +1,91 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+/*
+ * Wire types for the subset of the sliding sync protocol (MSC3575) the mock
+ * server speaks. Field names follow the protocol so the SDK's real request
+ * builder can talk to the mock unchanged.
+ */
+
+export type SyncRange = [number, number];
+
+export type SyncListRequest = {
+  /** Inclusive index ranges of the sorted room list the client wants. */
+  ranges: SyncRange[];
+  timeline_limit?: number;
+};
+
+export type RoomSubscription = {
+  timeline_limit?: number;
+};
+
+export type SlidingSyncRequest = {
+  /** Position token from the previous response; omitted on a fresh connection. */
+  pos?: string;
+  conn_id?: string;
+  lists?: Record<string, SyncListRequest>;
+  room_subscriptions?: Record<string, RoomSubscription>;
+  extensions?: {
+    typing?: { enabled: boolean };
+    receipts?: { enabled: boolean };
+  };
+};
+
+export type ListOp
+  = | { op: 'SYNC'; range: SyncRange; room_ids: string[] }
+    | { op: 'INVALIDATE'; range: SyncRange };
+
+export type SyncEvent = {
+  event_id: string;
+  type: string;
+  sender: string;
+  origin_server_ts: number;
+  content: Record<string, unknown>;
+};
+
+export type SyncRoomData = {
+  name: string;
+  /** Set the first time a room is sent on a connection. */
+  initial?: boolean;
+  timeline: SyncEvent[];
+  /** True when events were skipped between the previous response and this timeline. */
+  limited?: boolean;
+  prev_batch?: string;
+  notification_count: number;
+};
+
+export type SlidingSyncResponse = {
+  pos: string;
+  lists: Record<string, { count: number; ops?: ListOp[] }>;
+  rooms: Record<string, SyncRoomData>;
+  extensions: {
+    typing?: { rooms: Record<string, { user_ids: string[] }> };
+    receipts?: { rooms: Record<string, { content: Record<string, { 'm.read': Record<string, { ts: number }> }> }> };
+  };
+};
+
+export type SyncErrorBody = {
+  errcode: 'M_UNKNOWN_POS' | 'M_UNAVAILABLE' | 'M_BAD_JSON';
+  error: string;
+};
+
+export type SyncResult
+  = | { status: 200; body: SlidingSyncResponse }
+    | { status: 400 | 503; body: SyncErrorBody };
+
+/** Path the SDK posts sliding sync requests to, relative to the base URL. */
+export const SLIDING_SYNC_PATH = '/_matrix/client/unstable/org.matrix.msc3575/sync';
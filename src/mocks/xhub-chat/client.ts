@@ -0,0 +1,222 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { EventContent, MockRoomInit } from './models';
+import { MockEventEmitter } from './emitter';
+import { createFixtureRooms, FIXTURE_BASE_TS } from './fixtures';
+import { ClientEvent, Room, RoomEvent, SyncState, XHubChatEvent } from './models';
+
+export type MockClientOpts = {
+  baseUrl?: string;
+  accessToken?: string;
+  userId?: string;
+  /** Simulated round-trip time for sends, in milliseconds. */
+  latencyMs?: number;
+  /** Number of rooms exposed before `paginateRooms` is called. */
+  initialRoomLimit?: number;
+  /** Rooms to seed the client with. Defaults to the shared fixtures. */
+  rooms?: MockRoomInit[];
+};
+
+export type MockStartClientOpts = {
+  /** Live timeline events kept per room on the first sync; older ones are paginated in. */
+  initialSyncLimit?: number;
+};
+
+/**
+ * In-memory client with the same surface as `XHubChatClient` for the parts
+ * the docs exercise. Sends resolve after `latencyMs` so optimistic UI and
+ * pending states are visible in demos.
+ */
+export class MockXHubChatClient extends MockEventEmitter<ClientEvent> {
+  readonly baseUrl: string;
+  private readonly userId: string;
+  private readonly latencyMs: number;
+  private readonly rooms: Room[];
+  private roomLimit: number;
+  private syncState: SyncState | null = null;
+  private txnCounter = 0;
+  private clock = FIXTURE_BASE_TS + 3_600_000;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(opts: MockClientOpts = {}) {
+    super();
+    this.baseUrl = opts.baseUrl ?? 'https://mock.xhub.chat';
+    this.userId = opts.userId ?? '@alice:xhub.chat';
+    this.latencyMs = opts.latencyMs ?? 300;
+    this.rooms = (opts.rooms ?? createFixtureRooms()).map(init => new Room(init));
+    this.roomLimit = opts.initialRoomLimit ?? 3;
+  }
+
+  getUserId(): string {
+    return this.userId;
+  }
+
+  getSyncState(): SyncState | null {
+    return this.syncState;
+  }
+
+  async startClient(opts: MockStartClientOpts = {}): Promise<void> {
+    this.setSyncState(SyncState.Preparing);
+    await this.delay();
+    if (opts.initialSyncLimit !== undefined) {
+      this.rooms.forEach(room => room.limitLiveTimeline(opts.initialSyncLimit!));
+    }
+    this.getRooms().forEach(room => this.emit(ClientEvent.Room, room));
+    this.setSyncState(SyncState.Prepared);
+    this.setSyncState(SyncState.Syncing);
+  }
+
+  async stopClient(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.setSyncState(SyncState.Stopped);
+  }
+
+  /** Rooms currently loaded, most recently active first. */
+  getRooms(): Room[] {
+    return [...this.rooms]
+      .sort((a, b) => b.getLastActiveTimestamp() - a.getLastActiveTimestamp())
+      .slice(0, this.roomLimit);
+  }
+
+  getRoom(roomId: string): Room | null {
+    return this.rooms.find(room => room.roomId === roomId) ?? null;
+  }
+
+  canPaginateRooms(): boolean {
+    return this.roomLimit < this.rooms.length;
+  }
+
+  async paginateRooms(limit: number): Promise<void> {
+    await this.delay();
+    const before = this.roomLimit;
+    this.roomLimit = Math.min(this.rooms.length, this.roomLimit + limit);
+    this.getRooms().slice(before).forEach(room => this.emit(ClientEvent.Room, room));
+  }
+
+  async paginateEventTimeline(room: Room, opts: { backwards?: boolean; limit?: number } = {}): Promise<boolean> {
+    if (opts.backwards === false) return false;
+    await this.delay();
+    room.paginateBackwards(opts.limit ?? 30);
+    return room.canPaginateBackwards();
+  }
+
+  async sendTextMessage(roomId: string, body: string): Promise<{ event_id: string }> {
+    return this.sendMessage(roomId, { msgtype: 'm.text', body });
+  }
+
+  async sendMessage(roomId: string, content: EventContent): Promise<{ event_id: string }> {
+    return this.sendEvent(roomId, 'm.room.message', content);
+  }
+
+  /**
+   * Adds a local echo with status `sending`, then acknowledges it after the
+   * configured latency by swapping in a server event id.
+   */
+  async sendEvent(roomId: string, type: string, content: EventContent): Promise<{ event_id: string }> {
+    const room = this.requireRoom(roomId);
+    const txn = ++this.txnCounter;
+    const event = new XHubChatEvent({
+      eventId: `~${roomId}:txn${txn}`,
+      roomId,
+      sender: this.userId,
+      type,
+      content,
+      ts: this.tick(),
+      status: 'sending',
+    });
+    room.addEvent(event);
+    this.emit(ClientEvent.RoomTimeline, event, room);
+
+    await this.delay();
+    event.setId(`$mock${txn}`);
+    event.status = 'sent';
+    room.emit(RoomEvent.Timeline, event, room);
+    this.emit(ClientEvent.RoomTimeline, event, room);
+    return { event_id: event.getId() };
+  }
+
+  async resendEvent(event: XHubChatEvent, room: Room): Promise<void> {
+    room.removeEvent(event.getId());
+    await this.sendEvent(room.roomId, event.getType(), event.getContent());
+  }
+
+  cancelPendingEvent(event: XHubChatEvent): void {
+    if (event.status !== 'sending' && event.status !== 'not_sent') return;
+    this.getRoom(event.getRoomId())?.removeEvent(event.getId());
+  }
+
+  async redactEvent(roomId: string, eventId: string): Promise<void> {
+    const room = this.requireRoom(roomId);
+    await this.delay();
+    room.removeEvent(eventId);
+  }
+
+  async sendReadReceipt(event: XHubChatEvent): Promise<void> {
+    const room = this.requireRoom(event.getRoomId());
+    await this.delay();
+    room.setUnread(0);
+  }
+
+  /** Demo helper: delivers a message as if another member had sent it. */
+  injectMessage(roomId: string, sender: string, body: string): XHubChatEvent {
+    const room = this.requireRoom(roomId);
+    const event = new XHubChatEvent({
+      eventId: `$remote${++this.txnCounter}`,
+      roomId,
+      sender,
+      content: { msgtype: 'm.text', body },
+      ts: this.tick(),
+      status: 'sent',
+    });
+    room.addEvent(event, { countUnread: true });
+    this.emit(ClientEvent.RoomTimeline, event, room);
+    return event;
+  }
+
+  private requireRoom(roomId: string): Room {
+    const room = this.getRoom(roomId);
+    if (!room) throw new Error(`Unknown room ${roomId}`);
+    return room;
+  }
+
+  private setSyncState(state: SyncState): void {
+    const prev = this.syncState;
+    this.syncState = state;
+    this.emit(ClientEvent.Sync, state, prev);
+  }
+
+  private tick(): number {
+    this.clock += 15_000;
+    return this.clock;
+  }
+
+  private delay(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, this.latencyMs);
+      this.timers.add(timer);
+    });
+  }
+}
+
+export function createMockClient(opts: MockClientOpts = {}): MockXHubChatClient {
+  return new MockXHubChatClient(opts);
+}
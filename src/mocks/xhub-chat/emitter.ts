@@ -0,0 +1,59 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * Minimal stand-in for the SDK's `TypedEventEmitter`. Only the surface the
+ * docs use (`on`, `off`, `once`, `emit`) is implemented.
+ */
+export class MockEventEmitter<TEvent extends string = string> {
+  private listeners = new Map<TEvent, Set<Listener>>();
+
+  on(event: TEvent, listener: Listener): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event: TEvent, listener: Listener): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  once(event: TEvent, listener: Listener): this {
+    const wrapped: Listener = (...args) => {
+      this.off(event, wrapped);
+      listener(...args);
+    };
+    return this.on(event, wrapped);
+  }
+
+  emit(event: TEvent, ...args: unknown[]): boolean {
+    const set = this.listeners.get(event);
+    if (!set || set.size === 0) return false;
+    [...set].forEach(listener => listener(...args));
+    return true;
+  }
+
+  removeAllListeners(): this {
+    this.listeners.clear();
+    return this;
+  }
+}
@@ -0,0 +1,172 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { EventContent, MockRoomInit, RoomCategory, RoomMember } from './models';
+import { XHubChatEvent } from './models';
+
+// Fixed clock so every playground run renders the same timestamps.
+export const FIXTURE_BASE_TS = Date.UTC(2025, 0, 15, 9, 0, 0);
+
+export const FIXTURE_USERS: Record<string, string> = {
+  '@alice:xhub.chat': 'Alice',
+  '@bob:xhub.chat': 'Bob',
+  '@carol:xhub.chat': 'Carol',
+  '@dave:xhub.chat': 'Dave',
+};
+
+type SeedMessage = {
+  id: string;
+  from: string;
+  body?: string;
+  /** Emoji key, marks this entry as a reaction to `target`. */
+  react?: string;
+  /** Marks this entry as a thread reply to `target`. */
+  thread?: boolean;
+  target?: string;
+};
+
+type SeedRoom = {
+  roomId: string;
+  name: string;
+  category: RoomCategory;
+  members: string[];
+  unread: number;
+  /** How many of the newest messages are loaded up front; the rest need back-pagination. */
+  loaded: number;
+  messages: SeedMessage[];
+};
+
+const SEED_ROOMS: SeedRoom[] = [
+  {
+    roomId: '!general:xhub.chat',
+    name: 'General',
+    category: 'group',
+    members: ['@alice:xhub.chat', '@bob:xhub.chat', '@carol:xhub.chat'],
+    unread: 2,
+    loaded: 9,
+    messages: [
+      { id: '$g1', from: '@bob:xhub.chat', body: 'Morning everyone 👋' },
+      { id: '$g2', from: '@carol:xhub.chat', body: 'Morning! Standup in 10?' },
+      { id: '$g3', from: '@alice:xhub.chat', body: 'Yep, joining from the train.' },
+      { id: '$g4', from: '@bob:xhub.chat', body: 'The 1.4 release notes are up for review.' },
+      { id: '$g5', from: '@carol:xhub.chat', body: 'Looks good, one typo in the migration section.' },
+      { id: '$g6', from: '@bob:xhub.chat', react: '👍', target: '$g5' },
+      { id: '$g7', from: '@alice:xhub.chat', react: '👍', target: '$g5' },
+      { id: '$g8', from: '@alice:xhub.chat', body: 'Has anyone tried sliding sync on the staging server?' },
+      { id: '$g9', from: '@bob:xhub.chat', thread: true, target: '$g8', body: 'Yes, the room list loads in under 200ms.' },
+      { id: '$g10', from: '@carol:xhub.chat', thread: true, target: '$g8', body: 'Timeline gaps still show after reconnect though.' },
+      { id: '$g11', from: '@carol:xhub.chat', body: 'Pushing the fix for the unread badge now 🚀' },
+      { id: '$g12', from: '@bob:xhub.chat', react: '🎉', target: '$g11' },
+    ],
+  },
+  {
+    roomId: '!bob-dm:xhub.chat',
+    name: 'Bob',
+    category: 'direct',
+    members: ['@alice:xhub.chat', '@bob:xhub.chat'],
+    unread: 1,
+    loaded: 3,
+    messages: [
+      { id: '$d1', from: '@bob:xhub.chat', body: 'Can you review my PR when you get a chance?' },
+      { id: '$d2', from: '@alice:xhub.chat', body: 'Sure, after lunch.' },
+      { id: '$d3', from: '@bob:xhub.chat', body: 'Thanks! No rush.' },
+      { id: '$d4', from: '@alice:xhub.chat', react: '❤️', target: '$d3' },
+    ],
+  },
+  {
+    roomId: '!design:xhub.chat',
+    name: 'Design Review',
+    category: 'group',
+    members: ['@alice:xhub.chat', '@carol:xhub.chat', '@dave:xhub.chat'],
+    unread: 0,
+    loaded: 2,
+    messages: [
+      { id: '$r1', from: '@dave:xhub.chat', body: 'New chat bubble mocks are in Figma.' },
+      { id: '$r2', from: '@carol:xhub.chat', body: 'Love the reaction picker.' },
+      { id: '$r3', from: '@dave:xhub.chat', body: 'Dark mode variants coming tomorrow.' },
+    ],
+  },
+  {
+    roomId: '!announcements:xhub.chat',
+    name: 'Announcements',
+    category: 'post',
+    members: ['@alice:xhub.chat', '@bob:xhub.chat', '@carol:xhub.chat', '@dave:xhub.chat'],
+    unread: 0,
+    loaded: 2,
+    messages: [
+      { id: '$a1', from: '@dave:xhub.chat', body: 'XHubChat 1.3 is out with offline-first storage.' },
+      { id: '$a2', from: '@carol:xhub.chat', react: '🎉', target: '$a1' },
+      { id: '$a3', from: '@dave:xhub.chat', body: 'Office closed on Friday for the team offsite.' },
+    ],
+  },
+  {
+    roomId: '!random:xhub.chat',
+    name: 'Random',
+    category: 'group',
+    members: ['@alice:xhub.chat', '@bob:xhub.chat', '@dave:xhub.chat'],
+    unread: 0,
+    loaded: 2,
+    messages: [
+      { id: '$x1', from: '@dave:xhub.chat', body: 'Who took the last oat milk?' },
+      { id: '$x2', from: '@bob:xhub.chat', body: 'Guilty. Buying more today.' },
+    ],
+  },
+];
+
+function toContent(seed: SeedMessage): EventContent {
+  if (seed.react) {
+    return { 'm.relates_to': { rel_type: 'm.annotation', event_id: seed.target, key: seed.react } };
+  }
+  return {
+    'msgtype': 'm.text',
+    'body': seed.body,
+    ...(seed.thread ? { 'm.relates_to': { rel_type: 'm.thread', event_id: seed.target } } : {}),
+  };
+}
+
+function toMember(userId: string): RoomMember {
+  return { userId, name: FIXTURE_USERS[userId] ?? userId, membership: 'join', typing: false };
+}
+
+/**
+ * Builds fresh room fixtures. A new set is created for every client so one
+ * playground's edits never leak into another on the same page.
+ */
+export function createFixtureRooms(): MockRoomInit[] {
+  return SEED_ROOMS.map((seed, roomIdx) => {
+    const events = seed.messages.map((message, idx) => new XHubChatEvent({
+      eventId: message.id,
+      roomId: seed.roomId,
+      sender: message.from,
+      type: message.react ? 'm.reaction' : 'm.room.message',
+      content: toContent(message),
+      // Rooms earlier in the list were active more recently.
+      ts: FIXTURE_BASE_TS - roomIdx * 3_600_000 + idx * 60_000,
+      status: 'sent',
+    }));
+    const split = Math.max(0, events.length - seed.loaded);
+    return {
+      roomId: seed.roomId,
+      name: seed.name,
+      category: seed.category,
+      members: seed.members.map(toMember),
+      history: events.slice(0, split),
+      events: events.slice(split),
+      unread: seed.unread,
+    };
+  });
+}
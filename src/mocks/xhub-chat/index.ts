@@ -0,0 +1,33 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import * as client from './client';
+import * as models from './models';
+import * as react from './react';
+
+export * from './client';
+export * from './models';
+export * from './react';
+
+/**
+ * Module shapes handed to live code in place of the real packages, so
+ * `import { useRooms } from '@xhub-chat/react'` resolves to the mock.
+ */
+export const mockModules: Record<string, unknown> = {
+  '@xhub-chat/core': { ...models, ...client, createClient: client.createMockClient },
+  '@xhub-chat/react': react,
+};
@@ -0,0 +1,328 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import { MockEventEmitter } from './emitter';
+
+export enum ClientEvent {
+  Sync = 'sync',
+  Room = 'Room',
+  RoomTimeline = 'Room.timeline',
+  Event = 'event',
+}
+
+export enum RoomEvent {
+  Timeline = 'Room.timeline',
+  Typing = 'Room.typing',
+  Receipt = 'Room.receipt',
+  UnreadNotifications = 'Room.UnreadNotifications',
+  MembershipChanged = 'Room.MembershipChanged',
+  Redaction = 'Room.redaction',
+}
+
+export enum SyncState {
+  Preparing = 'PREPARING',
+  Prepared = 'PREPARED',
+  Syncing = 'SYNCING',
+  Error = 'ERROR',
+  Stopped = 'STOPPED',
+}
+
+export type EventStatus = 'sending' | 'sent' | 'not_sent' | null;
+
+export type EventContent = {
+  'msgtype'?: string;
+  'body'?: string;
+  'm.relates_to'?: {
+    'rel_type'?: 'm.annotation' | 'm.thread';
+    'event_id'?: string;
+    'key'?: string;
+    'm.in_reply_to'?: { event_id: string };
+  };
+  [key: string]: unknown;
+};
+
+export type MockEventInit = {
+  eventId: string;
+  roomId: string;
+  sender: string;
+  type?: string;
+  content: EventContent;
+  ts: number;
+  status?: EventStatus;
+};
+
+export class XHubChatEvent {
+  status: EventStatus;
+  private eventId: string;
+  private readonly init: MockEventInit;
+
+  constructor(init: MockEventInit) {
+    this.init = init;
+    this.eventId = init.eventId;
+    this.status = init.status ?? null;
+  }
+
+  getId(): string {
+    return this.eventId;
+  }
+
+  getRoomId(): string {
+    return this.init.roomId;
+  }
+
+  getSender(): string {
+    return this.init.sender;
+  }
+
+  getType(): string {
+    return this.init.type ?? 'm.room.message';
+  }
+
+  getContent(): EventContent {
+    return this.init.content;
+  }
+
+  getTs(): number {
+    return this.init.ts;
+  }
+
+  getDate(): Date {
+    return new Date(this.init.ts);
+  }
+
+  isSending(): boolean {
+    return this.status === 'sending';
+  }
+
+  /** Id of the thread root when this event was posted inside a thread. */
+  get threadRootId(): string | undefined {
+    const rel = this.init.content['m.relates_to'];
+    return rel?.rel_type === 'm.thread' ? rel.event_id : undefined;
+  }
+
+  /** @internal Swaps the local echo id for the "server" id once acknowledged. */
+  setId(eventId: string): void {
+    this.eventId = eventId;
+  }
+}
+
+export class Relations {
+  private readonly byKey = new Map<string, Set<XHubChatEvent>>();
+
+  addEvent(event: XHubChatEvent): void {
+    const key = event.getContent()['m.relates_to']?.key;
+    if (!key) return;
+    if (!this.byKey.has(key)) this.byKey.set(key, new Set());
+    this.byKey.get(key)!.add(event);
+  }
+
+  removeEvent(event: XHubChatEvent): void {
+    const key = event.getContent()['m.relates_to']?.key;
+    if (!key) return;
+    const set = this.byKey.get(key);
+    set?.delete(event);
+    if (set && set.size === 0) this.byKey.delete(key);
+  }
+
+  /** Annotation groups sorted by count, largest first. */
+  getSortedAnnotationsByKey(): [string, Set<XHubChatEvent>][] {
+    return [...this.byKey.entries()].sort((a, b) => b[1].size - a[1].size);
+  }
+}
+
+export class Thread {
+  readonly id: string;
+  readonly rootEvent: XHubChatEvent;
+  readonly events: XHubChatEvent[] = [];
+
+  constructor(rootEvent: XHubChatEvent) {
+    this.id = rootEvent.getId();
+    this.rootEvent = rootEvent;
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+}
+
+export type Membership = 'join' | 'invite' | 'leave';
+
+export type RoomMember = {
+  userId: string;
+  name: string;
+  membership: Membership;
+  typing: boolean;
+};
+
+export type RoomCategory = 'direct' | 'group' | 'post';
+
+export type MockRoomInit = {
+  roomId: string;
+  name: string;
+  category: RoomCategory;
+  members: RoomMember[];
+  /** Events already in the live timeline, oldest first. */
+  events: XHubChatEvent[];
+  /** Older events only reachable through back-pagination, oldest first. */
+  history: XHubChatEvent[];
+  unread: number;
+};
+
+export class Room extends MockEventEmitter<RoomEvent> {
+  readonly roomId: string;
+  name: string;
+  private readonly category: RoomCategory;
+  private readonly members: Map<string, RoomMember>;
+  private readonly events: XHubChatEvent[];
+  private readonly history: XHubChatEvent[];
+  private readonly relations = new Map<string, Relations>();
+  private readonly threads = new Map<string, Thread>();
+  private unread: number;
+
+  constructor(init: MockRoomInit) {
+    super();
+    this.roomId = init.roomId;
+    this.name = init.name;
+    this.category = init.category;
+    this.members = new Map(init.members.map(m => [m.userId, m]));
+    this.events = [];
+    this.history = [...init.history];
+    this.unread = init.unread;
+    init.history.forEach(e => this.indexEvent(e));
+    init.events.forEach(e => this.addEvent(e, { silent: true }));
+  }
+
+  getCategory(): RoomCategory {
+    return this.category;
+  }
+
+  getLiveTimeline(): { getEvents: () => XHubChatEvent[] } {
+    return { getEvents: () => [...this.events] };
+  }
+
+  getLastActiveTimestamp(): number {
+    return this.events.at(-1)?.getTs() ?? 0;
+  }
+
+  getUnreadNotificationCount(_type: 'total' | 'highlight' = 'total'): number {
+    return this.unread;
+  }
+
+  getMember(userId: string): RoomMember | null {
+    return this.members.get(userId) ?? null;
+  }
+
+  getMembersWithMembership(membership: Membership): RoomMember[] {
+    return [...this.members.values()].filter(m => m.membership === membership);
+  }
+
+  getRelations(eventId: string): Relations | null {
+    return this.relations.get(eventId) ?? null;
+  }
+
+  getThread(eventId: string): Thread | undefined {
+    return this.threads.get(eventId);
+  }
+
+  findEventById(eventId: string): XHubChatEvent | undefined {
+    return this.events.find(e => e.getId() === eventId)
+      ?? this.history.find(e => e.getId() === eventId);
+  }
+
+  /** Whether older events are still available through back-pagination. */
+  canPaginateBackwards(): boolean {
+    return this.history.length > 0;
+  }
+
+  /** Keeps the newest `limit` live events and moves the rest back into the history. */
+  limitLiveTimeline(limit: number): void {
+    this.history.push(...this.events.splice(0, Math.max(0, this.events.length - limit)));
+  }
+
+  /**
+   * Moves up to `limit` events from the unloaded history into the live
+   * timeline and returns how many were added.
+   */
+  paginateBackwards(limit: number): number {
+    const page = this.history.splice(Math.max(0, this.history.length - limit));
+    const visible = page.filter(e => this.isTimelineEvent(e));
+    this.events.unshift(...visible);
+    if (page.length > 0) this.emit(RoomEvent.Timeline, undefined, this);
+    return page.length;
+  }
+
+  addEvent(event: XHubChatEvent, opts: { silent?: boolean; countUnread?: boolean } = {}): void {
+    this.indexEvent(event);
+    if (this.isTimelineEvent(event)) {
+      this.events.push(event);
+    }
+    if (opts.countUnread) {
+      this.setUnread(this.unread + 1);
+    }
+    if (!opts.silent) {
+      this.emit(RoomEvent.Timeline, event, this);
+    }
+  }
+
+  removeEvent(eventId: string): XHubChatEvent | undefined {
+    const event = this.findEventById(eventId);
+    if (!event) return undefined;
+    const idx = this.events.indexOf(event);
+    if (idx !== -1) this.events.splice(idx, 1);
+    const target = event.getContent()['m.relates_to']?.event_id;
+    if (target) {
+      this.relations.get(target)?.removeEvent(event);
+      const thread = this.threads.get(target);
+      if (thread) thread.events.splice(thread.events.indexOf(event), 1);
+    }
+    this.emit(RoomEvent.Redaction, event, this);
+    this.emit(RoomEvent.Timeline, undefined, this);
+    return event;
+  }
+
+  setUnread(count: number): void {
+    this.unread = count;
+    this.emit(RoomEvent.UnreadNotifications, { total: count }, this);
+  }
+
+  setTyping(userId: string, typing: boolean): void {
+    const member = this.members.get(userId);
+    if (!member || member.typing === typing) return;
+    member.typing = typing;
+    this.emit(RoomEvent.Typing, member, this);
+  }
+
+  /** Reactions and thread replies are indexed, not shown in the main timeline. */
+  private isTimelineEvent(event: XHubChatEvent): boolean {
+    return event.getType() !== 'm.reaction' && !event.threadRootId;
+  }
+
+  private indexEvent(event: XHubChatEvent): void {
+    const rel = event.getContent()['m.relates_to'];
+    if (!rel?.event_id) return;
+    if (rel.rel_type === 'm.annotation') {
+      if (!this.relations.has(rel.event_id)) this.relations.set(rel.event_id, new Relations());
+      this.relations.get(rel.event_id)!.addEvent(event);
+    }
+    if (rel.rel_type === 'm.thread') {
+      const root = this.findEventById(rel.event_id);
+      if (!root) return;
+      if (!this.threads.has(root.getId())) this.threads.set(root.getId(), new Thread(root));
+      this.threads.get(root.getId())!.events.push(event);
+    }
+  }
+}
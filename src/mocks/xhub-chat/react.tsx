@@ -0,0 +1,242 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import type { MockClientOpts, MockStartClientOpts, MockXHubChatClient } from './client';
+import type { EventContent, Relations, Room, Thread, XHubChatEvent } from './models';
+import { createContext, useCallback, useContext, useEffect, useMemo, useReducer, useState } from 'react';
+import { createMockClient } from './client';
+import { ClientEvent, RoomEvent } from './models';
+
+export type XHubChatContextValue = {
+  client: MockXHubChatClient;
+  rooms: Room[];
+  getRoom: (roomId: string) => Room | null;
+};
+
+const XHubChatContext = createContext<XHubChatContextValue | null>(null);
+
+export type XHubChatProviderProps = {
+  children: ReactNode;
+  /** Options the client is created with, like `createClient`. */
+  clientOptions?: MockClientOpts;
+  /** Options passed to `startClient` when the provider mounts. */
+  startOptions?: MockStartClientOpts;
+  /** Use an existing mock client instead of creating one from `clientOptions`. */
+  client?: MockXHubChatClient;
+};
+
+/**
+ * Mirrors `XHubChatProvider` from `@xhub-chat/react`, but backs the hooks
+ * with an in-memory client so docs demos run without a server.
+ */
+export function XHubChatProvider({ children, clientOptions, startOptions, client: providedClient }: XHubChatProviderProps): ReactNode {
+  // The client is created and started once; later prop changes are ignored like the real provider.
+  const [client] = useState(() => providedClient ?? createMockClient(clientOptions));
+  const [initialStartOptions] = useState(startOptions);
+  const [rooms, setRooms] = useState<Room[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setRooms(client.getRooms());
+    client.on(ClientEvent.Room, refresh);
+    client.on(ClientEvent.RoomTimeline, refresh);
+    void client.startClient(initialStartOptions);
+    return () => {
+      client.off(ClientEvent.Room, refresh);
+      client.off(ClientEvent.RoomTimeline, refresh);
+      void client.stopClient();
+    };
+  }, [client, initialStartOptions]);
+
+  const getRoom = useCallback((roomId: string) => client.getRoom(roomId), [client]);
+  const value = useMemo(() => ({ client, rooms, getRoom }), [client, rooms, getRoom]);
+
+  return <XHubChatContext.Provider value={value}>{children}</XHubChatContext.Provider>;
+}
+
+export function useXHubChat(): XHubChatContextValue {
+  const ctx = useContext(XHubChatContext);
+  if (!ctx) {
+    throw new Error('useXHubChat must be used within XHubChatProvider');
+  }
+  return ctx;
+}
+
+export type IUserRooms = {
+  rooms: Room[];
+  canPaginate: boolean;
+  error: Error | null;
+  fetching?: boolean;
+  paginate: (limit: number) => Promise<void>;
+  getRoomById: (roomId: string) => Room | null;
+};
+
+export function useRooms(): IUserRooms {
+  const { client, rooms, getRoom } = useXHubChat();
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const paginate = useCallback(async (limit: number) => {
+    setFetching(true);
+    setError(null);
+    try {
+      await client.paginateRooms(limit);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setFetching(false);
+    }
+  }, [client]);
+
+  return {
+    rooms,
+    canPaginate: client.canPaginateRooms(),
+    error,
+    fetching,
+    paginate,
+    getRoomById: getRoom,
+  };
+}
+
+const ROOM_EVENTS = [RoomEvent.UnreadNotifications, RoomEvent.Typing];
+const TIMELINE_EVENTS = [RoomEvent.Timeline, RoomEvent.Redaction];
+
+/** Re-renders whenever `room` emits one of `events`. */
+function useRoomSubscription(room: Room | null, events: RoomEvent[]): void {
+  const [, bump] = useReducer((n: number) => n + 1, 0);
+  useEffect(() => {
+    if (!room) return;
+    events.forEach(event => room.on(event, bump));
+    return () => events.forEach(event => room.off(event, bump));
+  }, [room, events]);
+}
+
+export function useRoom(roomId: string): Room | null {
+  const { getRoom, rooms } = useXHubChat();
+  const room = useMemo(() => getRoom(roomId), [getRoom, roomId, rooms]);
+  useRoomSubscription(room, ROOM_EVENTS);
+  return room;
+}
+
+export type IUseTimelineProps = {
+  roomId: string;
+};
+
+export type IUseTimeline = {
+  events: XHubChatEvent[];
+  room: Room | null;
+  isLoading: boolean;
+  error: string | null;
+  canPaginateForwards: boolean;
+  canPaginateBackwards: boolean;
+  isPaginatingForwards: boolean;
+  isPaginatingBackwards: boolean;
+  paginate: (direction: 'f' | 'b', limit?: number) => Promise<void>;
+  sendTextMessage: (text: string) => Promise<void>;
+  sendMessage: (content: EventContent) => Promise<void>;
+  resendEvent: (eventId: string) => Promise<void>;
+  cancelPendingEvent: (eventId: string) => void;
+  addReaction: (eventId: string, emoji: string) => Promise<void>;
+  removeReaction: (eventId: string, emoji: string) => Promise<void>;
+  getReactions: (eventId: string) => Relations | null;
+  replyToEvent: (eventId: string, text: string) => Promise<void>;
+  getThread: (eventId: string) => Thread | undefined;
+  sendReadReceipt: (eventId: string) => Promise<void>;
+};
+
+/** Accepts both the `{ roomId }` form and the bare room id some guides use. */
+export function useTimeline(props: IUseTimelineProps | string): IUseTimeline {
+  const roomId = typeof props === 'string' ? props : props?.roomId;
+  const { client, rooms } = useXHubChat();
+  const room = useMemo(() => (roomId ? client.getRoom(roomId) : null), [client, roomId, rooms]);
+  const [isPaginatingBackwards, setIsPaginatingBackwards] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  useRoomSubscription(room, TIMELINE_EVENTS);
+
+  const events = room ? room.getLiveTimeline().getEvents() : [];
+
+  // Runs an action against the current room, surfacing failures through `error`.
+  const run = async (fn: (r: Room) => Promise<unknown>): Promise<void> => {
+    if (!room) return;
+    try {
+      await fn(room);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const paginate = useCallback(async (direction: 'f' | 'b', limit = 30) => {
+    // The mock only holds history behind the live timeline, so forwards is a no-op.
+    if (!room || direction === 'f') return;
+    setIsPaginatingBackwards(true);
+    try {
+      await client.paginateEventTimeline(room, { backwards: true, limit });
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsPaginatingBackwards(false);
+    }
+  }, [client, room]);
+
+  const findOwnReaction = (eventId: string, emoji: string) => {
+    const group = room?.getRelations(eventId)?.getSortedAnnotationsByKey().find(([key]) => key === emoji);
+    return group ? [...group[1]].find(e => e.getSender() === client.getUserId()) : undefined;
+  };
+
+  return {
+    events,
+    room,
+    isLoading: rooms.length === 0,
+    error,
+    canPaginateForwards: false,
+    canPaginateBackwards: room?.canPaginateBackwards() ?? false,
+    isPaginatingForwards: false,
+    isPaginatingBackwards,
+    paginate,
+    sendTextMessage: text => run(r => client.sendTextMessage(r.roomId, text)),
+    sendMessage: content => run(r => client.sendMessage(r.roomId, content)),
+    resendEvent: eventId => run(async (r) => {
+      const event = r.findEventById(eventId);
+      if (event) await client.resendEvent(event, r);
+    }),
+    cancelPendingEvent: (eventId) => {
+      const event = room?.findEventById(eventId);
+      if (event) client.cancelPendingEvent(event);
+    },
+    addReaction: (eventId, emoji) => run(async (r) => {
+      if (findOwnReaction(eventId, emoji)) return;
+      await client.sendEvent(r.roomId, 'm.reaction', {
+        'm.relates_to': { rel_type: 'm.annotation', event_id: eventId, key: emoji },
+      });
+    }),
+    removeReaction: (eventId, emoji) => run(async (r) => {
+      const own = findOwnReaction(eventId, emoji);
+      if (own) await client.redactEvent(r.roomId, own.getId());
+    }),
+    getReactions: eventId => room?.getRelations(eventId) ?? null,
+    replyToEvent: (eventId, text) => run(r => client.sendMessage(r.roomId, {
+      'msgtype': 'm.text',
+      'body': text,
+      'm.relates_to': { 'm.in_reply_to': { event_id: eventId } },
+    })),
+    getThread: eventId => room?.getThread(eventId),
+    sendReadReceipt: eventId => run(async (r) => {
+      const event = r.findEventById(eventId);
+      if (event) await client.sendReadReceipt(event);
+    }),
+  };
+}
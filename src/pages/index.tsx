@@ -16,9 +16,12 @@ UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
 import type { ReactNode } from 'react';
+import Translate, { translate } from '@docusaurus/Translate';
+import useBaseUrl from '@docusaurus/useBaseUrl';
 import useDocusaurusContext from '@docusaurus/useDocusaurusContext';
-import { useRive } from '@rive-app/react-canvas';
+import Community from '@site/src/components/Community';
 import HomepageFeatures from '@site/src/components/HomepageFeatures';
+import RiveAsset from '@site/src/components/RiveAsset';
 import Heading from '@theme/Heading';
 import Layout from '@theme/Layout';
 import clsx from 'clsx';
@@ -31,38 +34,33 @@ import styles from './index.module.css';
 
 function HomepageHeader() {
   const { siteConfig } = useDocusaurusContext();
+  // Rendered at build time by plugins/light-rays-poster.
+  const heroPoster = {
+    light: useBaseUrl('/img/generated/hero-rays-light.png'),
+    dark: useBaseUrl('/img/generated/hero-rays-dark.png'),
+  };
   return (
     <header className={clsx('', styles.heroBanner)}>
       <div className="container" style={{ padding: '4rem 0' }}>
         <div style={{ width: '100%', height: '600px', position: 'absolute', inset: 0 }}>
-          <LightRays
-            raysOrigin="top-center"
-            raysColor="#ffffff"
-            raysSpeed={1.5}
-            lightSpread={0.8}
-            rayLength={1.2}
-            followMouse={true}
-            mouseInfluence={0.1}
-            noiseAmount={0.1}
-            distortion={0.05}
-            className="custom-rays"
-          />
+          <LightRays preset="hero" poster={heroPoster} className="custom-rays" />
         </div>
 
         <Heading as="h1" className="hero__title" style={{ paddingTop: '5%' }}>
           {siteConfig.title}
         </Heading>
         <p className="hero__subtitle" style={{ paddingInline: '20%' }}>
-          A modern Chat SDK designed for performance, real-time scalability, and
-          {' '}
-          <ShinyText text="AI-Powered" />
-          {' '}
-          conversations.
+          <Translate
+            id="homepage.hero.subtitle"
+            values={{
+              aiPowered: <ShinyText text={translate({ id: 'homepage.hero.aiPowered', message: 'AI-Powered' })} />,
+            }}
+          >
+            {'A modern Chat SDK designed for performance, real-time scalability, and {aiPowered} conversations.'}
+          </Translate>
         </p>
         <div className={styles.buttons}>
-          {/* <Link to="/docs/getting-started/quick-start" style={{ zIndex: 100 }}> */}
           <CatButton />
-          {/* </Link> */}
         </div>
       </div>
     </header>
@@ -72,26 +70,23 @@ function HomepageHeader() {
 export default function Home(): ReactNode {
   const { siteConfig } = useDocusaurusContext();
 
-  const { RiveComponent } = useRive({
-    src: '/rive/black_cat.riv',
-    artboard: 'WCT 01',
-    stateMachines: 'BLACK CATW',
-    autoplay: true,
-  });
-
   return (
     <Layout
-      title={`${siteConfig.title} - Modern Chat SDK`}
-      description="Modern, type-safe chat SDK for React and beyond. Build real-time messaging experiences with ease."
+      title={`${siteConfig.title} - ${translate({ id: 'homepage.meta.title', message: 'Modern Chat SDK' })}`}
+      description={translate({
+        id: 'homepage.meta.description',
+        message: 'Modern, type-safe chat SDK for React and beyond. Build real-time messaging experiences with ease.',
+      })}
     >
       <HomepageHeader />
 
       <div style={{ width: '25vw', height: '25vh', position: 'absolute', zIndex: 10, top: '20%', left: 0 }}>
-        <RiveComponent style={{ width: '100%', height: '100%', marginLeft: '-20%' }} />
+        <RiveAsset name="blackCat" decorative style={{ width: '100%', height: '100%', marginLeft: '-20%' }} />
       </div>
 
       <main>
         <HomepageFeatures />
+        <Community />
       </main>
 
       <FooterRive />
@@ -0,0 +1,196 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import type { SavedPosition } from './storage';
+import type { ReadingTime, ReadingTimeData } from './types';
+import { useDoc } from '@docusaurus/plugin-content-docs/client';
+import { ThemeClassNames } from '@docusaurus/theme-common';
+import { usePluginData } from '@docusaurus/useGlobalData';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { loadPosition, savePosition } from './storage';
+import { READING_TIME_PLUGIN } from './types';
+
+export type SectionProgress = {
+  /** Heading id; `null` for the intro before the first heading. */
+  id: string | null;
+  /** Heading HTML as rendered in the table of contents. */
+  title: string;
+  /** Where the section starts and ends, as 0-1 fractions of the article. */
+  start: number;
+  end: number;
+};
+
+export type ReadingProgressValue = {
+  /** 0-1 through the article, measured at the reading line. */
+  progress: number;
+  sections: SectionProgress[];
+  /** Heading id of the section at the reading line. */
+  current: string | null;
+  /** Sections scrolled past on this or an earlier visit. */
+  finished: ReadonlySet<string>;
+  /** Where the reader left off last time, until they resume or read on. */
+  resume: SavedPosition | null;
+  resumeReading: () => void;
+  readingTime: ReadingTime | null;
+};
+
+const ReadingProgressContext = createContext<ReadingProgressValue | null>(null);
+
+// Headings count as read once they pass a third of the way down the viewport.
+const READING_LINE = 1 / 3;
+// Offers to resume only from somewhere meaningful in the middle of a page.
+const MIN_RESUME_PROGRESS = 0.05;
+const MAX_RESUME_PROGRESS = 0.95;
+const SAVE_DELAY_MS = 500;
+
+type Measured = {
+  progress: number;
+  sections: SectionProgress[];
+  current: string | null;
+};
+
+function measure(headings: readonly { id: string; value: string }[]): Measured | null {
+  const root = document.querySelector<HTMLElement>(`.${ThemeClassNames.docs.docMarkdown}`);
+  if (!root) return null;
+  const top = root.getBoundingClientRect().top + window.scrollY;
+  const height = Math.max(root.offsetHeight, 1);
+  const toFraction = (y: number) => Math.min(Math.max((y - top) / height, 0), 1);
+
+  const atBottom = window.scrollY + window.innerHeight >= document.documentElement.scrollHeight - 2;
+  const line = window.scrollY + window.innerHeight * READING_LINE;
+  const progress = atBottom ? 1 : toFraction(line);
+
+  const starts = headings.flatMap((heading) => {
+    const el = document.getElementById(heading.id);
+    return el ? [{ ...heading, start: toFraction(el.getBoundingClientRect().top + window.scrollY) }] : [];
+  });
+  const bounds = [{ id: null, value: '', start: 0 }, ...starts];
+  const sections = bounds.map((section, i) => ({
+    id: section.id,
+    title: section.value,
+    start: section.start,
+    end: bounds[i + 1]?.start ?? 1,
+  }));
+  const current = [...sections].reverse().find(section => section.start <= progress)?.id ?? null;
+  return { progress, sections, current };
+}
+
+/** Scrolls so the reading line sits `progress` of the way through the article, the inverse of `measure`. */
+function scrollToProgress(progress: number): void {
+  const root = document.querySelector<HTMLElement>(`.${ThemeClassNames.docs.docMarkdown}`);
+  if (!root) return;
+  const top = root.getBoundingClientRect().top + window.scrollY;
+  window.scrollTo({ top: top + progress * root.offsetHeight - window.innerHeight * READING_LINE });
+}
+
+/**
+ * Tracks how far the reader is through the current doc, section by section,
+ * and remembers it per page so a long guide can be resumed later. Mounted by
+ * the `DocItem/Layout` wrapper; `useReadingProgress()` returns `null`
+ * elsewhere, e.g. in the blog's table of contents.
+ */
+export function ReadingProgressProvider({ children }: { children: ReactNode }): ReactNode {
+  const { metadata, toc } = useDoc();
+  const { permalink } = metadata;
+  const { pages } = usePluginData(READING_TIME_PLUGIN) as ReadingTimeData;
+  const readingTime = pages[permalink] ?? null;
+
+  const [measured, setMeasured] = useState<Measured>({ progress: 0, sections: [], current: null });
+  const [finished, setFinished] = useState<ReadonlySet<string>>(new Set());
+  const [resume, setResume] = useState<SavedPosition | null>(null);
+  const finishedRef = useRef(finished);
+  finishedRef.current = finished;
+
+  useEffect(() => {
+    const saved = loadPosition(permalink);
+    setFinished(new Set(saved?.finished ?? []));
+    // A deep link means the reader already chose where to start.
+    const offer = saved && !window.location.hash
+      && saved.progress >= MIN_RESUME_PROGRESS && saved.progress <= MAX_RESUME_PROGRESS;
+    setResume(offer ? saved : null);
+  }, [permalink]);
+
+  useEffect(() => {
+    let frame: number | null = null;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let scrolled = false;
+
+    const update = () => {
+      frame = null;
+      const next = measure(toc);
+      if (!next) return;
+      setMeasured(next);
+
+      const passed = next.sections.filter(section => section.id && section.end <= next.progress).map(section => section.id!);
+      if (passed.some(id => !finishedRef.current.has(id))) {
+        setFinished(prev => new Set([...prev, ...passed]));
+      }
+      // Only real reading moves the saved position, not the initial measurement.
+      if (!scrolled) return;
+      setResume(null);
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(() => {
+        savePosition(permalink, {
+          section: next.current,
+          progress: next.progress,
+          finished: [...new Set([...finishedRef.current, ...passed])],
+        });
+      }, SAVE_DELAY_MS);
+    };
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+    const onScroll = () => {
+      scrolled = true;
+      schedule();
+    };
+
+    schedule();
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      if (saveTimer) clearTimeout(saveTimer);
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', schedule);
+    };
+  }, [permalink, toc]);
+
+  const resumeReading = useCallback(() => {
+    if (!resume) return;
+    const target = resume.section ? document.getElementById(resume.section) : null;
+    // Positions saved in the intro, before the first heading, have no section to jump to.
+    if (target) {
+      target.scrollIntoView();
+    } else {
+      scrollToProgress(resume.progress);
+    }
+    setResume(null);
+  }, [resume]);
+
+  const value = useMemo(
+    () => ({ ...measured, finished, resume, resumeReading, readingTime }),
+    [measured, finished, resume, resumeReading, readingTime],
+  );
+
+  return <ReadingProgressContext.Provider value={value}>{children}</ReadingProgressContext.Provider>;
+}
+
+export function useReadingProgress(): ReadingProgressValue | null {
+  return useContext(ReadingProgressContext);
+}
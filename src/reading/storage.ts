@@ -0,0 +1,54 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+/** Where a reader was on a page when they last left it. */
+export type SavedPosition = {
+  /** Heading id of the section they were reading; `null` before the first heading. */
+  section: string | null;
+  /** 0-1 through the article. */
+  progress: number;
+  /** Heading ids of every section they have scrolled past, on any visit. */
+  finished: string[];
+  savedAt: number;
+};
+
+const STORAGE_PREFIX = 'reading-progress:';
+// A position from months ago is more confusing than helpful.
+const MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+export function loadPosition(permalink: string): SavedPosition | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + permalink);
+    if (!raw) return null;
+    const saved = JSON.parse(raw) as SavedPosition;
+    if (Date.now() - saved.savedAt > MAX_AGE_MS) {
+      localStorage.removeItem(STORAGE_PREFIX + permalink);
+      return null;
+    }
+    return saved;
+  } catch {
+    return null;
+  }
+}
+
+export function savePosition(permalink: string, position: Omit<SavedPosition, 'savedAt'>): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + permalink, JSON.stringify({ ...position, savedAt: Date.now() }));
+  } catch {
+    // Storage can be blocked or full; resuming is a nicety.
+  }
+}
@@ -0,0 +1,31 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+export type ReadingTime = {
+  words: number;
+  minutes: number;
+};
+
+/** Global data of the reading-time plugin, keyed by doc permalink. */
+export type ReadingTimeData = {
+  pages: Record<string, ReadingTime>;
+};
+
+export const READING_TIME_PLUGIN = 'reading-time';
+
+/** Average adult reading speed for technical prose. */
+export const WORDS_PER_MINUTE = 200;
@@ -0,0 +1,144 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { SearchIndex, SearchResult, SearchSection } from './types';
+
+// API names outrank headings, which outrank page titles and prose, so a
+// query like `useTimeline` lands on the section documenting the hook rather
+// than a guide using it. Names only mentioned in code count half.
+const WEIGHT = {
+  symbolExact: 100,
+  symbolMember: 80,
+  symbolPrefix: 60,
+  symbolContains: 30,
+  mentionFactor: 0.5,
+  headingExact: 40,
+  heading: 20,
+  page: 10,
+  text: 2,
+  maxTextHits: 5,
+};
+
+type PreparedSection = {
+  section: SearchSection;
+  page: string;
+  heading: string;
+  text: string;
+  symbols: string[];
+  mentions: string[];
+};
+
+export type PreparedIndex = PreparedSection[];
+
+/** Lower-cases every field once so each keystroke only compares strings. */
+export function prepareIndex(index: SearchIndex): PreparedIndex {
+  return index.sections.map(section => ({
+    section,
+    page: section.page.toLowerCase(),
+    heading: section.heading.toLowerCase(),
+    text: section.text.toLowerCase(),
+    symbols: section.symbols.map(symbol => symbol.toLowerCase()),
+    mentions: section.mentions.map(symbol => symbol.toLowerCase()),
+  }));
+}
+
+export function tokenize(query: string): string[] {
+  return query.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+function countHits(haystack: string, term: string, max: number): number {
+  let hits = 0;
+  let from = haystack.indexOf(term);
+  while (from !== -1 && hits < max) {
+    hits += 1;
+    from = haystack.indexOf(term, from + term.length);
+  }
+  return hits;
+}
+
+function scoreSymbols(symbols: string[], term: string): { score: number; index: number } {
+  let best = { score: 0, index: -1 };
+  symbols.forEach((symbol, index) => {
+    let score = 0;
+    if (symbol === term) score = WEIGHT.symbolExact;
+    else if (symbol.endsWith(`.${term}`)) score = WEIGHT.symbolMember;
+    else if (symbol.startsWith(term)) score = WEIGHT.symbolPrefix;
+    else if (symbol.includes(term)) score = WEIGHT.symbolContains;
+    if (score > best.score) best = { score, index };
+  });
+  return best;
+}
+
+/**
+ * Ranks sections against `query`. Sections matching only some of the terms
+ * are kept but scaled down, so ones matching every term come first.
+ */
+export function search(
+  index: PreparedIndex,
+  query: string,
+  { version, limit = 8 }: { version?: string; limit?: number } = {},
+): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  index.forEach((entry) => {
+    if (version && entry.section.version !== version) return;
+    let total = 0;
+    let matched = 0;
+    let symbol: string | undefined;
+    terms.forEach((term) => {
+      const defined = scoreSymbols(entry.symbols, term);
+      const mentioned = scoreSymbols(entry.mentions, term);
+      let score = Math.max(defined.score, mentioned.score * WEIGHT.mentionFactor);
+      if (entry.heading === term) score += WEIGHT.headingExact;
+      else if (entry.heading.includes(term)) score += WEIGHT.heading;
+      if (entry.page.includes(term)) score += WEIGHT.page;
+      score += countHits(entry.text, term, WEIGHT.maxTextHits) * WEIGHT.text;
+      if (score === 0) return;
+      matched += 1;
+      total += score;
+      if (!symbol && defined.index !== -1) symbol = entry.section.symbols[defined.index];
+      else if (!symbol && mentioned.index !== -1) symbol = entry.section.mentions[mentioned.index];
+    });
+    if (matched === 0) return;
+    results.push({ section: entry.section, score: total * (matched / terms.length) ** 2, symbol });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.section.heading.length - b.section.heading.length)
+    .slice(0, limit);
+}
+
+export type SnippetPart = { text: string; match: boolean };
+
+/** Cuts a window of `text` around the first matching term and marks every match in it. */
+export function snippet(text: string, query: string, radius = 70): SnippetPart[] {
+  const terms = tokenize(query);
+  const lower = text.toLowerCase();
+  const first = terms.map(term => lower.indexOf(term)).filter(idx => idx !== -1).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius * 2);
+  const window = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  if (terms.length === 0) return [{ text: window, match: false }];
+
+  const pattern = new RegExp(`(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return window
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
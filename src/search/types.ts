@@ -0,0 +1,47 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+/** One searchable chunk: a page's intro, or everything under one heading. */
+export type SearchSection = {
+  /** Page title, shown above the heading in results. */
+  page: string;
+  /** Heading text; empty for the content before the first heading. */
+  heading: string;
+  /** Page URL including the base URL, plus the heading anchor. */
+  url: string;
+  text: string;
+  /** API names the section documents, taken from its heading or page title. */
+  symbols: string[];
+  /** API names used in the section's inline code and code blocks. */
+  mentions: string[];
+  /** Docs version name, e.g. `current` or `1.4.0`. */
+  version: string;
+};
+
+export type SearchIndex = {
+  sections: SearchSection[];
+};
+
+export type SearchResult = {
+  section: SearchSection;
+  score: number;
+  /** API name that matched the query, if the hit came from one. */
+  symbol?: string;
+};
+
+/** File name of the index, written next to each locale's index.html. */
+export const SEARCH_INDEX_FILE = 'search-index.json';
@@ -0,0 +1,32 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Props } from '@theme/DocItem/Layout';
+import type { ReactNode } from 'react';
+import ReadingProgress from '@site/src/components/ReadingProgress';
+import { ReadingProgressProvider } from '@site/src/reading';
+import Layout from '@theme-original/DocItem/Layout';
+
+// Scopes reading progress to the doc so the TOC, the bar and the content header share it.
+export default function LayoutWrapper(props: Props): ReactNode {
+  return (
+    <ReadingProgressProvider>
+      <ReadingProgress />
+      <Layout {...props} />
+    </ReadingProgressProvider>
+  );
+}
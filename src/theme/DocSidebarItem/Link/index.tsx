@@ -0,0 +1,36 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+import type { Props } from '@theme/DocSidebarItem/Link';
+import type { ReactNode } from 'react';
+import { docStatusLabel, useDocStatus } from '@site/src/docStatus';
+import clsx from 'clsx';
+import Link from '@theme-original/DocSidebarItem/Link';
+import styles from './styles.module.css';
+
+// Badges unfinished docs in the sidebar. The item class styles the badge and
+// extra props land on the link, whose data attribute holds the label.
+export default function LinkWrapper(props: Props): ReactNode {
+  const status = useDocStatus(props.item.href);
+  if (!status || status === 'complete') return <Link {...props} />;
+  return (
+    <Link
+      {...props}
+      item={{ ...props.item, className: clsx(props.item.className, styles[status]) }}
+      data-doc-status={docStatusLabel(status)}
+    />
+  );
+}
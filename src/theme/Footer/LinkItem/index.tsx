@@ -0,0 +1,54 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Props } from '@theme/Footer/LinkItem';
+import type { ReactNode } from 'react';
+import useBaseUrl from '@docusaurus/useBaseUrl';
+import {
+  useActivePluginAndVersion,
+  useDocsPreferredVersion,
+  useVersions,
+} from '@docusaurus/plugin-content-docs/client';
+import LinkItem from '@theme-original/Footer/LinkItem';
+
+function trimSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/$/, '') : path;
+}
+
+/**
+ * Footer links are written against the latest docs (`/docs/api/reference`).
+ * While reading another version, or after picking one in the dropdown, point
+ * them at the same page of that version when it exists there.
+ */
+function useVersionedTo(to: string | undefined): string | undefined {
+  const resolved = useBaseUrl(to);
+  const versions = useVersions(undefined);
+  const active = useActivePluginAndVersion();
+  const { preferredVersion } = useDocsPreferredVersion();
+  const version = active?.activeVersion ?? preferredVersion;
+  if (!to || !version || version.isLast) return to;
+
+  const latest = versions.find(v => v.isLast);
+  const doc = latest?.docs.find(d => trimSlash(d.path) === trimSlash(resolved));
+  const target = doc && version.docs.find(d => d.id === doc.id);
+  return target?.path ?? to;
+}
+
+export default function FooterLinkItemWrapper({ item }: Props): ReactNode {
+  const to = useVersionedTo(item.to);
+  return <LinkItem item={{ ...item, to }} />;
+}
@@ -0,0 +1,34 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import ArchitectureDiagram from '@site/src/components/ArchitectureDiagram';
+import ConfigBuilder from '@site/src/components/ConfigBuilder';
+import Playground from '@site/src/components/Playground';
+import SlidingSyncVisualizer from '@site/src/components/SlidingSyncVisualizer';
+import TwoslashCode from '@site/src/components/TwoslashCode';
+import MDXComponents from '@theme-original/MDXComponents';
+
+// Components listed here can be used in any .md/.mdx doc without an import.
+export default {
+  ...MDXComponents,
+  ArchitectureDiagram,
+  ConfigBuilder,
+  Playground,
+  SlidingSyncVisualizer,
+  // Written by plugins/remark-twoslash for code blocks marked `twoslash`.
+  TwoslashCode,
+};
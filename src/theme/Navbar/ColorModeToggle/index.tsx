@@ -0,0 +1,33 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Props } from '@theme/Navbar/ColorModeToggle';
+import type { ReactNode } from 'react';
+import ContrastToggle from '@site/src/components/ContrastToggle';
+import MotionToggle from '@site/src/components/MotionToggle';
+import ColorModeToggle from '@theme-original/Navbar/ColorModeToggle';
+
+// Keeps the motion and contrast switches next to the light/dark switch, in the navbar and the mobile sidebar.
+export default function ColorModeToggleWrapper(props: Props): ReactNode {
+  return (
+    <>
+      <MotionToggle className={props.className} />
+      <ContrastToggle className={props.className} />
+      <ColorModeToggle {...props} />
+    </>
+  );
+}
@@ -16,13 +16,15 @@ UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
 */
 
 import ScrollProgress from '@site/src/components/ScrollProgress';
+import { FeedbackProvider } from '@site/src/feedback';
+import { MotionProvider } from '@site/src/utils/MotionProvider';
 
 // Default implementation, that you can customize
 export default function Root({ children }: { children: React.ReactNode }): React.ReactElement {
   return (
-    <>
+    <MotionProvider>
       <ScrollProgress />
-      {children}
-    </>
+      <FeedbackProvider>{children}</FeedbackProvider>
+    </MotionProvider>
   );
 }
@@ -0,0 +1,217 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { PreparedIndex, SearchIndex, SearchResult } from '@site/src/search';
+import type { KeyboardEvent, ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import {
+  useActivePluginAndVersion,
+  useDocsPreferredVersion,
+  useVersions,
+} from '@docusaurus/plugin-content-docs/client';
+import { useHistory } from '@docusaurus/router';
+import { translate } from '@docusaurus/Translate';
+import useBaseUrl from '@docusaurus/useBaseUrl';
+import { prepareIndex, search, SEARCH_INDEX_FILE, snippet } from '@site/src/search';
+import clsx from 'clsx';
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
+import styles from './styles.module.css';
+
+type IndexState
+  = | { status: 'idle' | 'loading' | 'unavailable' }
+    | { status: 'ready'; index: PreparedIndex };
+
+// Shared by every mount of the search box so the index is fetched once per locale.
+const indexCache = new Map<string, Promise<PreparedIndex>>();
+
+function loadIndex(url: string): Promise<PreparedIndex> {
+  if (!indexCache.has(url)) {
+    const promise = fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+        return res.json() as Promise<SearchIndex>;
+      })
+      .then(prepareIndex);
+    // Let a later focus retry after a failed fetch.
+    promise.catch(() => indexCache.delete(url));
+    indexCache.set(url, promise);
+  }
+  return indexCache.get(url)!;
+}
+
+/** Search the version being read, else the one picked in the dropdown, else the latest. */
+function useSearchVersion(): string | undefined {
+  const versions = useVersions(undefined);
+  const active = useActivePluginAndVersion();
+  const { preferredVersion } = useDocsPreferredVersion();
+  return (active?.activeVersion ?? preferredVersion ?? versions.find(v => v.isLast))?.name;
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+function Snippet({ text, query }: { text: string; query: string }): ReactNode {
+  return (
+    <span className={styles.snippet}>
+      {snippet(text, query).map((part, idx) => (part.match ? <mark key={idx}>{part.text}</mark> : part.text))}
+    </span>
+  );
+}
+
+/**
+ * Navbar search over the index written by plugins/local-search. Focus with
+ * `/` or Ctrl/Cmd+K, move with the arrow keys, open with Enter.
+ */
+export default function SearchBar(): ReactNode {
+  const indexUrl = useBaseUrl(`/${SEARCH_INDEX_FILE}`);
+  const version = useSearchVersion();
+  const history = useHistory();
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [state, setState] = useState<IndexState>({ status: 'idle' });
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIdx, setActiveIdx] = useState(0);
+
+  const ensureIndex = useCallback(() => {
+    // An unavailable index is fetched again on the next focus; loadIndex dropped the failed promise.
+    if (state.status === 'loading' || state.status === 'ready') return;
+    setState({ status: 'loading' });
+    loadIndex(indexUrl).then(
+      index => setState({ status: 'ready', index }),
+      () => setState({ status: 'unavailable' }),
+    );
+  }, [indexUrl, state.status]);
+
+  useEffect(() => {
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      const shortcut = (event.key === 'k' && (event.metaKey || event.ctrlKey))
+        || (event.key === '/' && !isTypingTarget(event.target));
+      if (!shortcut) return;
+      event.preventDefault();
+      inputRef.current?.focus();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const results: SearchResult[] = useMemo(
+    () => (state.status === 'ready' ? search(state.index, query, { version }) : []),
+    [state, query, version],
+  );
+
+  useEffect(() => setActiveIdx(0), [query]);
+
+  const close = () => {
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const go = (result: SearchResult | undefined) => {
+    if (!result) return;
+    close();
+    setQuery('');
+    history.push(result.section.url);
+  };
+
+  const onInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIdx(idx => (idx + step + results.length) % results.length);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      go(results[activeIdx]);
+    } else if (event.key === 'Escape') {
+      close();
+    }
+  };
+
+  const showPanel = open && query.trim().length > 0;
+  const optionId = (idx: number) => `${listId}-option-${idx}`;
+
+  let status: string | null = null;
+  if (state.status === 'loading') {
+    status = translate({ id: 'search.loading', message: 'Loading search index…' });
+  } else if (state.status === 'unavailable') {
+    status = translate({
+      id: 'search.unavailable',
+      message: 'Search is available on built sites. Run `npm run build && npm run serve` to try it locally.',
+    });
+  } else if (results.length === 0) {
+    status = translate({ id: 'search.noResults', message: 'No results for "{query}"' }, { query });
+  }
+
+  return (
+    <div className={styles.searchBar}>
+      <input
+        ref={inputRef}
+        type="search"
+        className={styles.input}
+        placeholder={translate({ id: 'search.placeholder', message: 'Search docs' })}
+        aria-label={translate({ id: 'search.label', message: 'Search the documentation' })}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showPanel}
+        aria-controls={listId}
+        aria-activedescendant={showPanel && results.length > 0 ? optionId(activeIdx) : undefined}
+        value={query}
+        onChange={event => setQuery(event.target.value)}
+        onFocus={() => {
+          ensureIndex();
+          setOpen(true);
+        }}
+        // Clicks on a result land before the blur closes the panel.
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={onInputKeyDown}
+      />
+      <kbd className={styles.shortcut} aria-hidden="true">/</kbd>
+      {showPanel && (
+        <div className={styles.panel}>
+          {status
+            ? <p className={styles.status} role="status">{status}</p>
+            : (
+                <ul id={listId} role="listbox" className={styles.results}>
+                  {results.map((result, idx) => (
+                    <li
+                      key={result.section.url}
+                      id={optionId(idx)}
+                      role="option"
+                      aria-selected={idx === activeIdx}
+                      className={clsx(styles.result, idx === activeIdx && styles.active)}
+                      onMouseEnter={() => setActiveIdx(idx)}
+                    >
+                      <Link to={result.section.url} className={styles.link} onClick={close}>
+                        <span className={styles.title}>
+                          {result.symbol && <span className={styles.badge}>API</span>}
+                          {result.section.heading || result.section.page}
+                        </span>
+                        {result.section.heading && <span className={styles.page}>{result.section.page}</span>}
+                        {result.section.text && <Snippet text={result.section.text} query={query} />}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+        </div>
+      )}
+    </div>
+  );
+}
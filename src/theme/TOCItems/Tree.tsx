@@ -0,0 +1,59 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { Props } from '@theme/TOCItems/Tree';
+import type { ReactNode } from 'react';
+import Link from '@docusaurus/Link';
+import { useReadingProgress } from '@site/src/reading';
+import clsx from 'clsx';
+import React from 'react';
+import styles from './styles.module.css';
+
+/**
+ * Ejected from the classic theme to tick off sections the reader has
+ * finished. Outside doc pages (blog posts) there is no reading progress and
+ * the tree renders as upstream.
+ */
+function TOCItemTree({ toc, className, linkClassName, isChild }: Props): ReactNode {
+  const reading = useReadingProgress();
+  if (!toc.length) {
+    return null;
+  }
+  return (
+    <ul className={isChild ? undefined : className}>
+      {toc.map(heading => (
+        <li key={heading.id}>
+          <Link
+            to={`#${heading.id}`}
+            className={clsx(linkClassName, reading?.finished.has(heading.id) && styles.read)}
+            // Developer provided the HTML, so assume it's safe.
+            dangerouslySetInnerHTML={{ __html: heading.value }}
+          />
+          <TOCItemTree
+            isChild
+            toc={heading.children}
+            className={className}
+            linkClassName={linkClassName}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Memo only the tree root is enough
+export default React.memo(TOCItemTree);
@@ -0,0 +1,106 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import type { ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  applyReduceMotion,
+  readStoredReduceMotion,
+  systemPrefersReducedMotion,
+  watchSystemReducedMotion,
+} from './motion';
+
+export type MotionContextValue = {
+  /** The reader, or their OS, asked for reduced motion. */
+  reduceMotion: boolean;
+  /** The tab is in the background. */
+  hidden: boolean;
+  /** Whether animated components should be running right now. */
+  animate: boolean;
+  /** Stores an explicit choice that overrides the OS setting from now on. */
+  setReduceMotion: (reduce: boolean) => void;
+};
+
+const MotionContext = createContext<MotionContextValue | null>(null);
+
+/**
+ * Site-wide animation budget, mounted in `src/theme/Root.tsx`. Components
+ * with their own render loops (WebGL, Rive) read `animate` and pause or show
+ * a static frame; plain CSS animations are stopped by the `data-motion`
+ * attribute instead.
+ */
+export function MotionProvider({ children }: { children: ReactNode }): ReactNode {
+  // Both start "animated" so the server render and hydration agree; the
+  // init script has already stopped CSS animations before this runs.
+  const [reduceMotion, setReduceMotionState] = useState(false);
+  const [hidden, setHidden] = useState(false);
+
+  useEffect(() => {
+    setReduceMotionState(readStoredReduceMotion() ?? systemPrefersReducedMotion());
+    // An explicit choice wins over later OS changes.
+    return watchSystemReducedMotion((reduce) => {
+      if (readStoredReduceMotion() !== null) return;
+      applyReduceMotion(reduce, false);
+      setReduceMotionState(reduce);
+    });
+  }, []);
+
+  useEffect(() => {
+    const update = () => setHidden(document.visibilityState === 'hidden');
+    update();
+    document.addEventListener('visibilitychange', update);
+    return () => document.removeEventListener('visibilitychange', update);
+  }, []);
+
+  const setReduceMotion = useCallback((reduce: boolean) => {
+    applyReduceMotion(reduce, true);
+    setReduceMotionState(reduce);
+  }, []);
+
+  const value = useMemo(
+    () => ({ reduceMotion, hidden, animate: !reduceMotion && !hidden, setReduceMotion }),
+    [reduceMotion, hidden, setReduceMotion],
+  );
+
+  return <MotionContext.Provider value={value}>{children}</MotionContext.Provider>;
+}
+
+export function useMotion(): MotionContextValue {
+  const ctx = useContext(MotionContext);
+  if (!ctx) {
+    throw new Error('useMotion must be used within MotionProvider');
+  }
+  return ctx;
+}
+
+type Playable = {
+  play: () => void;
+  pause: () => void;
+};
+
+/** Pauses a Rive instance (or anything with `play`/`pause`) whenever motion should stop. */
+export function useMotionPlayback(player: Playable | null): void {
+  const { animate } = useMotion();
+  useEffect(() => {
+    if (!player) return;
+    if (animate) {
+      player.play();
+    } else {
+      player.pause();
+    }
+  }, [player, animate]);
+}
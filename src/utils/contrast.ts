@@ -0,0 +1,52 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+export type ContrastMode = 'normal' | 'high';
+
+/** Attribute on <html> that custom.css keys the high-contrast tokens off. */
+export const CONTRAST_ATTRIBUTE = 'data-contrast';
+export const CONTRAST_STORAGE_KEY = 'theme-contrast';
+
+/**
+ * Runs in <head> before the first paint, like Docusaurus' own color mode
+ * script, so high-contrast readers never see a flash of the normal palette.
+ * Without a stored choice it follows `prefers-contrast: more`.
+ */
+export const contrastInitScript = `(function () {
+  try {
+    var mode = localStorage.getItem('${CONTRAST_STORAGE_KEY}');
+    if (!mode && window.matchMedia('(prefers-contrast: more)').matches) mode = 'high';
+    if (mode === 'high') document.documentElement.setAttribute('${CONTRAST_ATTRIBUTE}', 'high');
+  } catch (e) {}
+})();`;
+
+export function readContrastMode(): ContrastMode {
+  return document.documentElement.getAttribute(CONTRAST_ATTRIBUTE) === 'high' ? 'high' : 'normal';
+}
+
+export function applyContrastMode(mode: ContrastMode): void {
+  if (mode === 'high') {
+    document.documentElement.setAttribute(CONTRAST_ATTRIBUTE, 'high');
+  } else {
+    document.documentElement.removeAttribute(CONTRAST_ATTRIBUTE);
+  }
+  try {
+    localStorage.setItem(CONTRAST_STORAGE_KEY, mode);
+  } catch {
+    // Storage can be blocked; the choice then lasts for this page only.
+  }
+}
@@ -0,0 +1,71 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+/** Attribute on <html> that custom.css uses to switch off CSS animations. */
+export const MOTION_ATTRIBUTE = 'data-motion';
+export const MOTION_STORAGE_KEY = 'theme-motion';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Runs in <head> before the first paint, next to the contrast script, so
+ * CSS animations never start for readers who asked for less motion. Without
+ * a stored choice it follows `prefers-reduced-motion`.
+ */
+export const motionInitScript = `(function () {
+  try {
+    var stored = localStorage.getItem('${MOTION_STORAGE_KEY}');
+    var reduce = stored ? stored === 'reduce' : window.matchMedia('${REDUCED_MOTION_QUERY}').matches;
+    if (reduce) document.documentElement.setAttribute('${MOTION_ATTRIBUTE}', 'reduce');
+  } catch (e) {}
+})();`;
+
+/** The stored choice, or `null` when the reader has not picked one and the OS setting applies. */
+export function readStoredReduceMotion(): boolean | null {
+  try {
+    const stored = localStorage.getItem(MOTION_STORAGE_KEY);
+    return stored ? stored === 'reduce' : null;
+  } catch {
+    return null;
+  }
+}
+
+export function systemPrefersReducedMotion(): boolean {
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+export function watchSystemReducedMotion(onChange: (reduce: boolean) => void): () => void {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const listener = (event: MediaQueryListEvent) => onChange(event.matches);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+}
+
+/** Reflects `reduce` on <html>; `persist` also stores it as the reader's explicit choice. */
+export function applyReduceMotion(reduce: boolean, persist: boolean): void {
+  if (reduce) {
+    document.documentElement.setAttribute(MOTION_ATTRIBUTE, 'reduce');
+  } else {
+    document.documentElement.removeAttribute(MOTION_ATTRIBUTE);
+  }
+  if (!persist) return;
+  try {
+    localStorage.setItem(MOTION_STORAGE_KEY, reduce ? 'reduce' : 'full');
+  } catch {
+    // Storage can be blocked; the choice then lasts for this page only.
+  }
+}
@@ -0,0 +1,36 @@
+/*
+Copyright 2025 TekNix Corporation
+
+This software is proprietary and confidential to TekNix Corporation.
+All rights reserved. No part of this software may be reproduced, distributed,
+or transmitted in any form or by any means, including photocopying, recording,
+or other electronic or mechanical methods, without the prior written permission
+of TekNix Corporation, except in the case of brief quotations embodied in
+critical reviews and certain other noncommercial uses permitted by copyright law.
+
+For permission requests, write to TekNix Corporation at the address below:
+TekNix Corporation
+Legal Department
+
+UNAUTHORIZED REPRODUCTION OR DISTRIBUTION IS STRICTLY PROHIBITED.
+*/
+
+import { useEffect, useState } from 'react';
+import { CONTRAST_ATTRIBUTE } from './contrast';
+
+const THEME_ATTRIBUTES = ['data-theme', CONTRAST_ATTRIBUTE];
+
+/**
+ * Counter that changes whenever the color mode or contrast mode changes.
+ * Components that resolve CSS tokens in JS (canvas, WebGL) add it to their
+ * effect dependencies to pick up the new values.
+ */
+export function useThemeRevision(): number {
+  const [revision, setRevision] = useState(0);
+  useEffect(() => {
+    const observer = new MutationObserver(() => setRevision(r => r + 1));
+    observer.observe(document.documentElement, { attributes: true, attributeFilter: THEME_ATTRIBUTES });
+    return () => observer.disconnect();
+  }, []);
+  return revision;
+}